@@ -0,0 +1,61 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { requireAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import ChangePasswordForm from "./change-password-form";
+import TwoFactorSettings from "./two-factor-settings";
+
+export default async function AccountPage() {
+  const session = await requireAdmin();
+  const user = await prisma.adminUser.findUnique({
+    where: { id: session.userId },
+    select: { totpEnabled: true },
+  });
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Signed in as</p>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              {session.username}
+            </h1>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">← Back</Button>
+          </Link>
+        </div>
+
+        <ChangePasswordForm />
+
+        <TwoFactorSettings initiallyEnabled={user?.totpEnabled ?? false} />
+
+        <div className="bg-white shadow-sm border border-slate-200 rounded-lg p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Sessions</h2>
+            <p className="text-sm text-slate-500">
+              See where you are signed in and log out other devices.
+            </p>
+          </div>
+          <Link href="/admin/sessions">
+            <Button variant="outline">Manage</Button>
+          </Link>
+        </div>
+
+        <div className="bg-white shadow-sm border border-slate-200 rounded-lg p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">API Tokens</h2>
+            <p className="text-sm text-slate-500">
+              Let scripts and other systems call the admin API as you.
+            </p>
+          </div>
+          <Link href="/admin/api-tokens">
+            <Button variant="outline">Manage</Button>
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
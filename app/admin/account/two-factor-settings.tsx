@@ -0,0 +1,207 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+
+type Enrolment = {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+};
+
+export default function TwoFactorSettings({
+  initiallyEnabled,
+}: {
+  initiallyEnabled: boolean;
+}) {
+  const [enabled, setEnabled] = useState(initiallyEnabled);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const inputClass =
+    "w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+  const startEnrolment = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/account/two-factor", {
+        method: "POST",
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to start setup.");
+        return;
+      }
+      setEnrolment(data);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmEnrolment = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/account/two-factor", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to verify code.");
+        return;
+      }
+      setEnabled(true);
+      setEnrolment(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const disable = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/account/two-factor", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to turn off two-factor authentication.");
+        return;
+      }
+      setEnabled(false);
+      setPassword("");
+      setRecoveryCodes(null);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm border border-slate-200 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Two-Factor Authentication
+        </h2>
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded ${
+            enabled ? "bg-green-100 text-green-700" : "bg-slate-100 text-slate-600"
+          }`}
+        >
+          {enabled ? "On" : "Off"}
+        </span>
+      </div>
+
+      {recoveryCodes && (
+        <div className="bg-amber-50 border border-amber-300 rounded-md p-4 space-y-2">
+          <p className="text-sm text-amber-800">
+            Save these recovery codes somewhere safe. Each one can be used once
+            if you lose your authenticator. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <span key={c}>{c}</span>
+            ))}
+          </div>
+          <button
+            onClick={() => setRecoveryCodes(null)}
+            className="px-3 py-1 text-xs bg-white border border-amber-300 text-amber-700 rounded hover:bg-amber-100"
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+
+      {!enabled && !enrolment && (
+        <>
+          <p className="text-sm text-slate-500">
+            Require a code from an authenticator app each time you sign in.
+          </p>
+          <Button onClick={startEnrolment} disabled={loading}>
+            {loading ? "Starting..." : "Set up two-factor"}
+          </Button>
+        </>
+      )}
+
+      {!enabled && enrolment && (
+        <form onSubmit={confirmEnrolment} className="space-y-4">
+          <p className="text-sm text-slate-500">
+            Scan this QR code with your authenticator app, then enter the
+            6-digit code it shows.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={enrolment.qrCode}
+            alt="Two-factor QR code"
+            className="h-48 w-48 border border-slate-200 rounded"
+          />
+          <div className="space-y-1">
+            <p className="text-xs text-slate-500">
+              Can't scan? Enter this key manually:
+            </p>
+            <code className="block break-all bg-slate-50 border border-slate-200 rounded px-3 py-2 text-sm font-mono">
+              {enrolment.secret}
+            </code>
+          </div>
+          <input
+            className={inputClass}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            required
+          />
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Verifying..." : "Verify and enable"}
+          </Button>
+        </form>
+      )}
+
+      {enabled && (
+        <form onSubmit={disable} className="space-y-3">
+          <p className="text-sm text-slate-500">
+            Enter your password to turn off two-factor authentication.
+          </p>
+          <input
+            type="password"
+            className={inputClass}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading ? "Turning off..." : "Turn off two-factor"}
+          </Button>
+        </form>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+type ApiToken = {
+  id: string;
+  createdAt: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  userId: string;
+  user: { username: string };
+};
+
+type Scope = { value: string; label: string };
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+export default function ApiTokensPage() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopes, setScopes] = useState<Scope[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const loadTokens = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/api-tokens", { cache: "no-store" });
+      const data = await res.json();
+      setTokens(data.tokens || []);
+      setScopes(data.scopes || []);
+      setCanManage(Boolean(data.canManage));
+      setCurrentUserId(data.currentUserId ?? null);
+    } catch {
+      toast.error("Failed to load API tokens");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const toggleScope = (value: string) => {
+    setSelectedScopes((prev) =>
+      prev.includes(value) ? prev.filter((s) => s !== value) : [...prev, value]
+    );
+  };
+
+  const createToken = async (e: FormEvent) => {
+    e.preventDefault();
+    if (selectedScopes.length === 0) {
+      toast.error("Choose at least one scope");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const res = await fetch("/api/admin/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes: selectedScopes, expiresInDays }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to create API token");
+        return;
+      }
+      setNewToken(data.token);
+      setName("");
+      setSelectedScopes([]);
+      loadTokens();
+    } catch {
+      toast.error("Failed to create API token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/api-tokens/${encodeURIComponent(token.id)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to revoke API token");
+        return;
+      }
+      toast.success("API token revoked");
+      loadTokens();
+    } catch {
+      toast.error("Failed to revoke API token");
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Copied");
+    } catch {
+      toast.error("Copy failed, select the token and copy it manually");
+    }
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString("en-AU", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+
+  const statusOf = (token: ApiToken) => {
+    if (token.revokedAt) return { label: "Revoked", className: "bg-slate-100 text-slate-500" };
+    if (new Date(token.expiresAt).getTime() < Date.now()) {
+      return { label: "Expired", className: "bg-slate-100 text-slate-500" };
+    }
+    return { label: "Active", className: "bg-green-100 text-green-700" };
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <Toaster />
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-slate-900">API Tokens</h1>
+          <a href="/admin/account" className="text-sm text-blue-600 hover:underline">
+            ← Back to Account
+          </a>
+        </div>
+
+        {newToken && (
+          <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-amber-800">
+              Copy this token now. It will not be shown again.
+            </p>
+            <code className="block break-all bg-white border border-amber-200 rounded px-3 py-2 text-sm font-mono">
+              {newToken}
+            </code>
+            <div className="flex gap-2">
+              <button
+                onClick={copyToken}
+                className="px-3 py-1 text-xs bg-amber-500 text-white rounded hover:bg-amber-600"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => setNewToken(null)}
+                className="px-3 py-1 text-xs bg-white border border-amber-300 text-amber-700 rounded hover:bg-amber-100"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={createToken}
+          className="bg-white border border-slate-200 rounded-lg p-4 space-y-3"
+        >
+          <h2 className="text-lg font-semibold text-slate-900">New token</h2>
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="flex-1 min-w-[200px] rounded border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+              placeholder="What is it for? e.g. Nightly price import"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            <select
+              className="rounded border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            >
+              {EXPIRY_OPTIONS.map((o) => (
+                <option key={o.days} value={o.days}>
+                  Expires in {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {scopes.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={selectedScopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                />
+                <span className="font-mono text-xs text-slate-500">{scope.value}</span>
+                <span>{scope.label}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={creating}
+            className="rounded bg-amber-500 text-white px-4 py-2 text-sm font-medium hover:bg-amber-600 disabled:opacity-50"
+          >
+            {creating ? "Creating..." : "Create token"}
+          </button>
+        </form>
+
+        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              Loading API tokens...
+            </div>
+          ) : tokens.length === 0 ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              No API tokens yet.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {tokens.map((t) => {
+                const status = statusOf(t);
+                return (
+                  <li key={t.id} className="px-4 py-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-slate-800">{t.name}</span>
+                        <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>
+                          {status.label}
+                        </span>
+                        {canManage && t.userId !== currentUserId && (
+                          <span className="text-xs text-slate-400">{t.user.username}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 font-mono">
+                        {t.prefix}… · {t.scopes.join(", ")}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Created {formatDate(t.createdAt)} · Expires {formatDate(t.expiresAt)} ·{" "}
+                        {t.lastUsedAt ? `Last used ${formatDate(t.lastUsedAt)}` : "Never used"}
+                      </p>
+                    </div>
+                    {status.label === "Active" && (
+                      <button
+                        onClick={() => revoke(t)}
+                        className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded hover:bg-red-100"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400">
+          Send the token as <code>Authorization: Bearer &lt;token&gt;</code> to any
+          /api/admin endpoint covered by its scopes. A token stops working if it is
+          revoked, expires, or your role no longer allows what it was granted.
+        </p>
+      </div>
+    </main>
+  );
+}
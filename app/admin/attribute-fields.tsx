@@ -0,0 +1,64 @@
+"use client";
+
+import type { AttributeField } from "@/lib/product-attributes";
+
+// Form inputs for a product type's attribute schema. Values are kept as
+// strings while editing; the server converts numbers and booleans.
+export function AttributeFields({
+  schema,
+  values,
+  onChange,
+  className = "grid grid-cols-2 md:grid-cols-4 gap-2",
+}: {
+  schema: AttributeField[];
+  values: Record<string, unknown>;
+  onChange: (key: string, value: string) => void;
+  className?: string;
+}) {
+  if (schema.length === 0) return null;
+
+  const inputClass = "w-full rounded border border-slate-300 px-3 py-2 text-sm bg-white";
+
+  return (
+    <div className={className}>
+      {schema.map((field) => {
+        const value = values[field.key] === undefined ? "" : String(values[field.key]);
+        const label = `${field.label}${field.unit ? ` (${field.unit})` : ""}${field.required ? " *" : ""}`;
+        return (
+          <label key={field.key} className="block">
+            <span className="block text-xs text-slate-500 mb-1">{label}</span>
+            {field.type === "select" || field.type === "boolean" ? (
+              <select
+                className={inputClass}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+              >
+                <option value="">—</option>
+                {field.type === "boolean" ? (
+                  <>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </>
+                ) : (
+                  field.options?.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))
+                )}
+              </select>
+            ) : (
+              <input
+                type="text"
+                inputMode={field.type === "number" ? "decimal" : undefined}
+                className={inputClass}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+              />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
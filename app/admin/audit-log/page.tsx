@@ -0,0 +1,301 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { AUDIT_ENTITY_TYPES } from "@/lib/audit";
+
+type AuditEvent = {
+  id: string;
+  createdAt: string;
+  action: "create" | "update" | "delete";
+  entityType: string;
+  entityId: string;
+  entityLabel: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  actorName: string;
+  apiTokenId: string | null;
+  actorId: string | null;
+};
+
+type Actor = { id: string; username: string };
+
+const ACTION_STYLES: Record<AuditEvent["action"], string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-blue-100 text-blue-700",
+  delete: "bg-red-100 text-red-700",
+};
+
+const PAGE_SIZE = 50;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actors, setActors] = useState<Actor[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState({ entityType: "", actorId: "", q: "", entityId: "" });
+  const [applied, setApplied] = useState(filters);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(PAGE_SIZE),
+        });
+        for (const [key, value] of Object.entries(applied)) {
+          if (value) params.set(key, value);
+        }
+
+        const res = await fetch(`/api/admin/audit-events?${params}`, {
+          cache: "no-store",
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data?.error || "Failed to load audit log");
+          return;
+        }
+        setEvents(data.events || []);
+        setActors(data.actors || []);
+        setTotal(data.total || 0);
+      } catch {
+        toast.error("Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, [page, applied]);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  // Narrow the log to one record's history
+  const showHistory = (event: AuditEvent) => {
+    const next = {
+      entityType: event.entityType,
+      actorId: "",
+      q: "",
+      entityId: event.entityId,
+    };
+    setFilters(next);
+    setPage(1);
+    setApplied(next);
+  };
+
+  const clearFilters = () => {
+    const next = { entityType: "", actorId: "", q: "", entityId: "" };
+    setFilters(next);
+    setPage(1);
+    setApplied(next);
+  };
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const entityLabel = (type: string) =>
+    AUDIT_ENTITY_TYPES.find((t) => t.value === type)?.label ?? type;
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-AU", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const inputClass =
+    "rounded border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500";
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <Toaster />
+      <div className="max-w-5xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-slate-900">Audit Log</h1>
+          <a href="/admin" className="text-sm text-blue-600 hover:underline">
+            ← Back to Admin
+          </a>
+        </div>
+
+        <form
+          onSubmit={applyFilters}
+          className="bg-white border border-slate-200 rounded-lg p-4 flex flex-wrap gap-2"
+        >
+          <select
+            className={inputClass}
+            value={filters.entityType}
+            onChange={(e) =>
+              setFilters({ ...filters, entityType: e.target.value, entityId: "" })
+            }
+          >
+            <option value="">All records</option>
+            {AUDIT_ENTITY_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={inputClass}
+            value={filters.actorId}
+            onChange={(e) => setFilters({ ...filters, actorId: e.target.value })}
+          >
+            <option value="">All users</option>
+            {actors.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.username}
+              </option>
+            ))}
+          </select>
+          <input
+            className={`${inputClass} flex-1 min-w-[160px]`}
+            placeholder="Code or name"
+            value={filters.q}
+            onChange={(e) => setFilters({ ...filters, q: e.target.value, entityId: "" })}
+          />
+          <button
+            type="submit"
+            className="rounded bg-amber-500 text-white px-4 py-2 text-sm font-medium hover:bg-amber-600"
+          >
+            Filter
+          </button>
+          {applied.entityId && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="rounded border border-slate-300 px-4 py-2 text-sm text-slate-600 hover:bg-slate-50"
+            >
+              Showing one record · Clear
+            </button>
+          )}
+        </form>
+
+        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              Loading audit log...
+            </div>
+          ) : events.length === 0 ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              No changes found.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {events.map((event) => {
+                const fields = Object.entries(event.changes ?? {});
+                const isOpen = expanded.has(event.id);
+                return (
+                  <li key={event.id} className="px-4 py-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`text-xs font-medium px-2 py-0.5 rounded capitalize ${ACTION_STYLES[event.action]}`}
+                      >
+                        {event.action}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-800 truncate">
+                          <span className="text-slate-500">{entityLabel(event.entityType)}</span>{" "}
+                          <span className="font-medium">{event.entityLabel || event.entityId}</span>
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          {formatDate(event.createdAt)} · {event.actorName}
+                          {event.apiTokenId && " (API token)"}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => showHistory(event)}
+                        className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                      >
+                        History
+                      </button>
+                      {fields.length > 0 && (
+                        <button
+                          onClick={() => toggle(event.id)}
+                          className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                        >
+                          {isOpen ? "Hide" : `${fields.length} field${fields.length === 1 ? "" : "s"}`}
+                        </button>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <table className="w-full text-xs border border-slate-200 rounded">
+                        <thead className="bg-slate-50 text-left text-slate-500">
+                          <tr>
+                            <th className="px-2 py-1 w-1/5">Field</th>
+                            <th className="px-2 py-1 w-2/5">Before</th>
+                            <th className="px-2 py-1 w-2/5">After</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {fields.map(([field, change]) => (
+                            <tr key={field} className="align-top">
+                              <td className="px-2 py-1 font-mono text-slate-600">{field}</td>
+                              <td className="px-2 py-1 text-red-700 whitespace-pre-wrap break-all">
+                                {formatValue(change.before)}
+                              </td>
+                              <td className="px-2 py-1 text-green-700 whitespace-pre-wrap break-all">
+                                {formatValue(change.after)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-slate-600">
+          <span>
+            {total} change{total === 1 ? "" : "s"}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -7,10 +7,19 @@ import toast, { Toaster } from "react-hot-toast";
 
 import { Button } from "@/components/ui/button";
 import { SearchableDropdown } from "@/components/ui/searchable-dropdown";
+import type { AttributeField } from "@/lib/product-attributes";
+
+import { AttributeFields } from "../attribute-fields";
 
 type ProductType = {
   id: string;
   name: string;
+  attributeSchema: AttributeField[];
+};
+
+type FormImage = {
+  file: File;
+  preview: string;
 };
 
 type ProductForm = {
@@ -22,8 +31,15 @@ type ProductForm = {
   link: string;
   brand: string;
   keywords: string;
-  imageFile: File | null;
-  imagePreview: string | null;
+  costPrice: string;
+  sellPrice: string;
+  gstInclusive: boolean;
+  parentCode: string; // Makes this a variant of that product
+  finish: string;
+  colour: string;
+  size: string;
+  attributes: Record<string, string>; // Keyed by the type's attribute fields
+  images: FormImage[]; // First is the primary image
 };
 
 const createEmptyForm = (): ProductForm => ({
@@ -35,10 +51,19 @@ const createEmptyForm = (): ProductForm => ({
   link: "",
   brand: "",
   keywords: "",
-  imageFile: null,
-  imagePreview: null,
+  costPrice: "",
+  sellPrice: "",
+  gstInclusive: false,
+  parentCode: "",
+  finish: "",
+  colour: "",
+  size: "",
+  attributes: {},
+  images: [],
 });
 
+const MAX_IMAGES = 12;
+
 export default function CreateProductForm() {
   const router = useRouter();
   const [productTypes, setProductTypes] = useState<ProductType[]>([]);
@@ -55,6 +80,44 @@ export default function CreateProductForm() {
     );
   };
 
+  const addImages = (id: string, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setForms((prev) =>
+      prev.map((form) =>
+        form.id === id
+          ? {
+              ...form,
+              images: [
+                ...form.images,
+                ...Array.from(files).map((file) => ({ file, preview: URL.createObjectURL(file) })),
+              ].slice(0, MAX_IMAGES),
+            }
+          : form
+      )
+    );
+  };
+
+  // Swaps an image with its neighbour; moving to the front makes it primary
+  const moveImage = (id: string, index: number, direction: -1 | 1) => {
+    setForms((prev) =>
+      prev.map((form) => {
+        const target = index + direction;
+        if (form.id !== id || target < 0 || target >= form.images.length) return form;
+        const images = [...form.images];
+        [images[index], images[target]] = [images[target], images[index]];
+        return { ...form, images };
+      })
+    );
+  };
+
+  const removeImage = (id: string, index: number) => {
+    setForms((prev) =>
+      prev.map((form) =>
+        form.id === id ? { ...form, images: form.images.filter((_, i) => i !== index) } : form
+      )
+    );
+  };
+
   const addForm = () => {
     setForms((prev) => [...prev, createEmptyForm()]);
   };
@@ -112,6 +175,12 @@ export default function CreateProductForm() {
         setError("Product type is required for all products.");
         return;
       }
+      const schema = productTypes.find((t) => t.id === form.typeId)?.attributeSchema ?? [];
+      const missing = schema.find((field) => field.required && !form.attributes[field.key]?.trim());
+      if (missing) {
+        setError(`${missing.label} is required for ${form.code.trim()}.`);
+        return;
+      }
     }
 
     setSaving(true);
@@ -120,16 +189,14 @@ export default function CreateProductForm() {
     try {
       const preparedForms = await Promise.all(
         forms.map(async (form) => {
-          let compressedFile: File | Blob | null = null;
-          
-          if (form.imageFile) {
-            const options = {
-              maxSizeMB: 1,
-              maxWidthOrHeight: 1920,
-              useWebWorker: true,
-            };
-            compressedFile = await imageCompression(form.imageFile, options);
-          }
+          const options = {
+            maxSizeMB: 1,
+            maxWidthOrHeight: 1920,
+            useWebWorker: true,
+          };
+          const compressedFiles = await Promise.all(
+            form.images.map((image) => imageCompression(image.file, options))
+          );
 
           const formData = new FormData();
           formData.append("code", form.code.trim());
@@ -139,9 +206,18 @@ export default function CreateProductForm() {
           formData.append("link", form.link.trim());
           formData.append("brand", form.brand.trim());
           formData.append("keywords", form.keywords.trim());
+          formData.append("costPrice", form.costPrice.trim());
+          formData.append("sellPrice", form.sellPrice.trim());
+          formData.append("gstInclusive", String(form.gstInclusive));
+          formData.append("parentCode", form.parentCode.trim().toUpperCase());
+          formData.append("finish", form.finish.trim());
+          formData.append("colour", form.colour.trim());
+          formData.append("size", form.size.trim());
+          formData.append("attributes", JSON.stringify(form.attributes));
           
-          if (compressedFile) {
-            formData.append("image", compressedFile);
+          // Sent in display order; the server keeps it and makes the first primary
+          for (const file of compressedFiles) {
+            formData.append("images", file);
           }
 
           return { form, formData };
@@ -212,28 +288,26 @@ export default function CreateProductForm() {
               {/* Image Upload */}
               <div className="w-24 h-24 flex-shrink-0">
                 <label className="block w-full h-full border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:border-amber-400 overflow-hidden bg-slate-50">
-                  {form.imagePreview ? (
+                  {form.images.length > 0 ? (
                     <img
-                      src={form.imagePreview}
+                      src={form.images[0].preview}
                       alt="Preview"
                       className="w-full h-full object-contain"
                     />
                   ) : (
                     <div className="w-full h-full flex flex-col items-center justify-center text-slate-400">
                       <span className="text-2xl">📷</span>
-                      <span className="text-xs">Image</span>
+                      <span className="text-xs">Images</span>
                     </div>
                   )}
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.emf,.wmf"
+                    multiple
                     className="hidden"
                     onChange={(e) => {
-                      const file = e.target.files?.[0] ?? null;
-                      updateForm(form.id, {
-                        imageFile: file,
-                        imagePreview: file ? URL.createObjectURL(file) : null,
-                      });
+                      addImages(form.id, e.target.files);
+                      e.target.value = "";
                     }}
                   />
                 </label>
@@ -301,6 +375,62 @@ export default function CreateProductForm() {
               )}
             </div>
 
+            {/* Attributes for the chosen type */}
+            <AttributeFields
+              className="border-t border-slate-100 px-4 py-3 grid grid-cols-2 md:grid-cols-4 gap-2"
+              schema={productTypes.find((t) => t.id === form.typeId)?.attributeSchema ?? []}
+              values={form.attributes}
+              onChange={(key, value) =>
+                updateForm(form.id, { attributes: { ...form.attributes, [key]: value } })
+              }
+            />
+
+            {/* Image Order */}
+            {form.images.length > 0 && (
+              <div className="border-t border-slate-100 px-4 py-3 flex flex-wrap gap-2">
+                {form.images.map((image, i) => (
+                  <div
+                    key={image.preview}
+                    className={`relative w-20 border rounded overflow-hidden bg-white ${
+                      i === 0 ? "border-amber-400" : "border-slate-200"
+                    }`}
+                  >
+                    <img src={image.preview} alt="" className="w-full h-14 object-contain" />
+                    {i === 0 && (
+                      <span className="absolute top-0 left-0 bg-amber-500 text-white text-[10px] px-1 rounded-br">
+                        Primary
+                      </span>
+                    )}
+                    <div className="flex justify-between text-xs text-slate-500 border-t border-slate-100">
+                      <button
+                        type="button"
+                        onClick={() => moveImage(form.id, i, -1)}
+                        disabled={i === 0}
+                        className="px-1.5 hover:text-slate-800 disabled:opacity-30"
+                      >
+                        ◀
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeImage(form.id, i)}
+                        className="px-1.5 hover:text-red-600"
+                      >
+                        ✕
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveImage(form.id, i, 1)}
+                        disabled={i === form.images.length - 1}
+                        className="px-1.5 hover:text-slate-800 disabled:opacity-30"
+                      >
+                        ▶
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Advanced Fields */}
             {showAdvanced.has(form.id) && (
               <div className="border-t border-slate-100 bg-slate-50 p-4 space-y-2">
@@ -319,6 +449,60 @@ export default function CreateProductForm() {
                     onChange={(e) => updateForm(form.id, { link: e.target.value })}
                     placeholder="Product Link URL"
                   />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white"
+                    value={form.costPrice}
+                    onChange={(e) => updateForm(form.id, { costPrice: e.target.value })}
+                    placeholder="Cost Price"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white"
+                    value={form.sellPrice}
+                    onChange={(e) => updateForm(form.id, { sellPrice: e.target.value })}
+                    placeholder="Sell Price (RRP)"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={form.gstInclusive}
+                    onChange={(e) => updateForm(form.id, { gstInclusive: e.target.checked })}
+                  />
+                  Prices include GST
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <input
+                    type="text"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white uppercase"
+                    value={form.parentCode}
+                    onChange={(e) => updateForm(form.id, { parentCode: e.target.value })}
+                    placeholder="Variant of (parent code)"
+                  />
+                  <input
+                    type="text"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white"
+                    value={form.finish}
+                    onChange={(e) => updateForm(form.id, { finish: e.target.value })}
+                    placeholder="Finish"
+                  />
+                  <input
+                    type="text"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white"
+                    value={form.colour}
+                    onChange={(e) => updateForm(form.id, { colour: e.target.value })}
+                    placeholder="Colour"
+                  />
+                  <input
+                    type="text"
+                    className="rounded border border-slate-300 px-3 py-2 text-sm bg-white"
+                    value={form.size}
+                    onChange={(e) => updateForm(form.id, { size: e.target.value })}
+                    placeholder="Size"
+                  />
                 </div>
                 <textarea
                   className="w-full rounded border border-slate-300 px-3 py-2 text-sm bg-white"
@@ -0,0 +1,50 @@
+"use client";
+
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from "@/lib/csrf";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function readCsrfCookie(): string | null {
+  const match = document.cookie
+    .split("; ")
+    .find((part) => part.startsWith(`${CSRF_COOKIE_NAME}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE_NAME.length + 1)) : null;
+}
+
+// Adds the CSRF header to every same-origin, state-changing fetch made from
+// admin pages, so individual pages don't have to. proxy.ts rejects mutating
+// admin requests without it.
+function installCsrfFetch() {
+  if (typeof window === "undefined") return;
+
+  const w = window as typeof window & { __csrfFetchInstalled?: boolean };
+  if (w.__csrfFetchInstalled) return;
+  w.__csrfFetchInstalled = true;
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = input instanceof Request ? input : null;
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase();
+    const url = new URL(
+      request ? request.url : input.toString(),
+      window.location.href
+    );
+
+    const token = readCsrfCookie();
+    if (SAFE_METHODS.has(method) || url.origin !== window.location.origin || !token) {
+      return originalFetch(input, init);
+    }
+
+    const headers = new Headers(init?.headers ?? request?.headers);
+    headers.set(CSRF_HEADER_NAME, token);
+    return originalFetch(input, { ...init, headers });
+  };
+}
+
+// Patch at module load so the header is in place before any page code runs.
+installCsrfFetch();
+
+export default function CsrfFetch() {
+  return null;
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+
+export default function ForgotPasswordPage() {
+  const [identifier, setIdentifier] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ identifier }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data.error || "Failed to send reset link.");
+        return;
+      }
+
+      setMessage(data.message);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold text-slate-900">Forgot Password</h1>
+          <p className="text-sm text-slate-500">
+            Enter your username or email address and we'll email you a link to
+            choose a new password.
+          </p>
+        </div>
+
+        {message ? (
+          <div className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-md px-3 py-2">
+            {message}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+            />
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? "Sending..." : "Send reset link"}
+            </Button>
+          </form>
+        )}
+
+        <div className="text-sm">
+          <a href="/admin" className="text-blue-600 hover:underline">
+            ← Back to sign in
+          </a>
+        </div>
+      </div>
+    </main>
+  );
+}
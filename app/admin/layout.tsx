@@ -1,9 +1,15 @@
+import CsrfFetch from "./csrf-fetch";
+
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
   // Admin pages don't show the main header/navbar
-  return <>{children}</>;
+  return (
+    <>
+      <CsrfFetch />
+      {children}
+    </>
+  );
 }
-
@@ -0,0 +1,234 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+type LoginAttempt = {
+  id: string;
+  createdAt: string;
+  username: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  outcome: string;
+  userId: string | null;
+};
+
+const OUTCOMES: Record<string, { label: string; className: string }> = {
+  success: { label: "Signed in", className: "bg-green-100 text-green-700" },
+  invalid_credentials: { label: "Wrong password", className: "bg-red-100 text-red-700" },
+  two_factor_required: { label: "Password OK, awaiting code", className: "bg-slate-100 text-slate-600" },
+  two_factor_failed: { label: "Wrong 2FA code", className: "bg-red-100 text-red-700" },
+  disabled: { label: "Account disabled", className: "bg-amber-100 text-amber-700" },
+  locked_out: { label: "Throttled", className: "bg-amber-100 text-amber-700" },
+};
+
+const PAGE_SIZE = 50;
+
+export default function LoginActivityPage() {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({ username: "", ipAddress: "", outcome: "" });
+  const [applied, setApplied] = useState(filters);
+
+  useEffect(() => {
+    const loadAttempts = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(PAGE_SIZE),
+        });
+        if (applied.username) params.set("username", applied.username);
+        if (applied.ipAddress) params.set("ipAddress", applied.ipAddress);
+        if (applied.outcome) params.set("outcome", applied.outcome);
+
+        const res = await fetch(`/api/admin/login-attempts?${params}`, {
+          cache: "no-store",
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data?.error || "Failed to load sign-in activity");
+          return;
+        }
+        setAttempts(data.attempts || []);
+        setTotal(data.total || 0);
+      } catch {
+        toast.error("Failed to load sign-in activity");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAttempts();
+  }, [page, applied]);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const showUser = (username: string) => {
+    const next = { ...filters, username };
+    setFilters(next);
+    setPage(1);
+    setApplied(next);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-AU", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+
+  const inputClass =
+    "rounded border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500";
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <Toaster />
+      <div className="max-w-5xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-slate-900">Sign-in Activity</h1>
+          <a href="/admin" className="text-sm text-blue-600 hover:underline">
+            ← Back to Admin
+          </a>
+        </div>
+
+        <form
+          onSubmit={applyFilters}
+          className="bg-white border border-slate-200 rounded-lg p-4 flex flex-wrap gap-2"
+        >
+          <input
+            className={inputClass}
+            placeholder="Username"
+            value={filters.username}
+            onChange={(e) => setFilters({ ...filters, username: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="IP address"
+            value={filters.ipAddress}
+            onChange={(e) => setFilters({ ...filters, ipAddress: e.target.value })}
+          />
+          <select
+            className={inputClass}
+            value={filters.outcome}
+            onChange={(e) => setFilters({ ...filters, outcome: e.target.value })}
+          >
+            <option value="">All outcomes</option>
+            {Object.entries(OUTCOMES).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="rounded bg-amber-500 text-white px-4 py-2 text-sm font-medium hover:bg-amber-600"
+          >
+            Filter
+          </button>
+        </form>
+
+        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              Loading sign-in activity...
+            </div>
+          ) : attempts.length === 0 ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              No sign-in attempts found.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2">When</th>
+                  <th className="px-4 py-2">Username</th>
+                  <th className="px-4 py-2">Outcome</th>
+                  <th className="px-4 py-2">IP / Browser</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {attempts.map((a) => {
+                  const outcome = OUTCOMES[a.outcome] ?? {
+                    label: a.outcome,
+                    className: "bg-slate-100 text-slate-600",
+                  };
+                  return (
+                    <tr key={a.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-600">
+                        {formatDate(a.createdAt)}
+                      </td>
+                      <td className="px-4 py-2">
+                        <button
+                          onClick={() => showUser(a.username)}
+                          className="font-medium text-slate-800 hover:underline"
+                        >
+                          {a.username}
+                        </button>
+                        {!a.userId && (
+                          <span className="ml-2 text-xs text-slate-400">unknown user</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`text-xs px-2 py-0.5 rounded ${outcome.className}`}>
+                          {outcome.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 max-w-xs">
+                        <p className="text-slate-600">{a.ipAddress || "Unknown IP"}</p>
+                        <p className="text-xs text-slate-400 truncate">
+                          {a.userAgent || "Unknown browser"}
+                        </p>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-slate-600">
+          <span>
+            {total} attempt{total === 1 ? "" : "s"}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-400">
+          After 3 failed attempts sign-in is slowed down, and after 10 it is locked for
+          15 minutes, per username and per IP address.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -14,6 +14,9 @@ export default function AdminLoginForm({ redirectTo }: Props) {
   const searchParams = useSearchParams();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -22,6 +25,13 @@ export default function AdminLoginForm({ redirectTo }: Props) {
     [searchParams]
   );
 
+  // Set by proxy.ts when a signed-out user opens a protected admin page.
+  // Only same-site admin paths are honoured to avoid an open redirect.
+  const nextPath = useMemo(() => {
+    const next = searchParams.get("next");
+    return next?.startsWith("/admin") ? next : null;
+  }, [searchParams]);
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
@@ -34,13 +44,53 @@ export default function AdminLoginForm({ redirectTo }: Props) {
         body: JSON.stringify({ username, password }),
       });
 
+      const data = await response.json().catch(() => ({}));
+
       if (!response.ok) {
-        const data = await response.json().catch(() => ({}));
         setError(data.error || "Login failed. Check credentials.");
         return;
       }
 
-      router.push(redirectTo || "/admin");
+      if (data.twoFactorRequired) {
+        setChallenge(data.challenge);
+        return;
+      }
+
+      router.push(redirectTo || nextPath || "/admin");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/login/two-factor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          useRecoveryCode ? { challenge, recoveryCode: code } : { challenge, code }
+        ),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Verification failed.");
+        if (data.restart) {
+          // Challenge expired - back to the password step
+          setChallenge(null);
+          setCode("");
+        }
+        return;
+      }
+
+      router.push(redirectTo || nextPath || "/admin");
       router.refresh();
     } catch {
       setError("Network error. Please try again.");
@@ -49,6 +99,75 @@ export default function AdminLoginForm({ redirectTo }: Props) {
     }
   };
 
+  const cancelTwoFactor = () => {
+    setChallenge(null);
+    setCode("");
+    setPassword("");
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
+  if (challenge) {
+    return (
+      <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold text-slate-900">
+            Two-Factor Authentication
+          </h1>
+          <p className="text-sm text-slate-500">
+            {useRecoveryCode
+              ? "Enter one of your recovery codes."
+              : "Enter the 6-digit code from your authenticator app."}
+          </p>
+        </div>
+
+        <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+          <input
+            type="text"
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+              setError(null);
+            }}
+            className="text-blue-600 hover:underline"
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+          <button
+            type="button"
+            onClick={cancelTwoFactor}
+            className="text-slate-500 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
       <div className="space-y-1">
@@ -61,6 +180,11 @@ export default function AdminLoginForm({ redirectTo }: Props) {
             Session expired. Please log in again.
           </p>
         )}
+        {searchParams.get("reset") === "done" && (
+          <p className="text-sm text-green-700">
+            Password set. Sign in with your new password.
+          </p>
+        )}
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
@@ -106,6 +230,12 @@ export default function AdminLoginForm({ redirectTo }: Props) {
           {loading ? "Signing in..." : "Sign in"}
         </Button>
       </form>
+
+      <div className="text-sm text-right">
+        <a href="/admin/forgot-password" className="text-blue-600 hover:underline">
+          Forgot password?
+        </a>
+      </div>
     </div>
   );
 }
@@ -4,9 +4,15 @@ import AdminLoginForm, { LogoutButton } from "./login-form";
 
 import { Button } from "@/components/ui/button";
 import { getSessionFromCookies } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
 
-export default async function AdminPage() {
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
   const session = await getSessionFromCookies();
+  const { error } = await searchParams;
 
   if (!session) {
     return (
@@ -18,6 +24,9 @@ export default async function AdminPage() {
     );
   }
 
+  const can = (permission: Parameters<typeof hasPermission>[1]) =>
+    hasPermission(session.role, permission);
+
   return (
     <main className="min-h-screen bg-slate-50 py-16 px-4">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -28,9 +37,20 @@ export default async function AdminPage() {
               {session.username}
             </h1>
           </div>
-          <LogoutButton />
+          <div className="flex gap-2">
+            <Link href="/admin/account">
+              <Button variant="outline">My Account</Button>
+            </Link>
+            <LogoutButton />
+          </div>
         </div>
 
+        {error === "forbidden" && (
+          <div className="bg-red-100 border border-red-300 text-red-800 rounded-lg px-4 py-3 text-sm">
+            Your role does not have access to that page.
+          </div>
+        )}
+
         {/* Products Section */}
         <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
           <div className="flex items-center gap-2">
@@ -38,9 +58,11 @@ export default async function AdminPage() {
             <h2 className="text-lg font-semibold text-slate-900">Products</h2>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <Link href="/admin/create-product" className="w-full">
-              <Button variant="outline" className="w-full">Create Product</Button>
-            </Link>
+            {can("catalog:write") && (
+              <Link href="/admin/create-product" className="w-full">
+                <Button variant="outline" className="w-full">Create Product</Button>
+              </Link>
+            )}
             <Link href="/admin/view-products" className="w-full">
               <Button variant="outline" className="w-full">View Products</Button>
             </Link>
@@ -54,9 +76,11 @@ export default async function AdminPage() {
             <h2 className="text-lg font-semibold text-slate-900">Product Selections</h2>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <Link href="/admin/product-selection" className="w-full">
-              <Button className="w-full bg-amber-500 hover:bg-amber-600 text-white">Create Product Selection</Button>
-            </Link>
+            {can("selections:write") && (
+              <Link href="/admin/product-selection" className="w-full">
+                <Button className="w-full bg-amber-500 hover:bg-amber-600 text-white">Create Product Selection</Button>
+              </Link>
+            )}
             <Link href="/admin/saved-selections" className="w-full">
               <Button variant="outline" className="w-full">Saved Selections</Button>
             </Link>
@@ -64,23 +88,40 @@ export default async function AdminPage() {
         </div>
 
         {/* Manage Section */}
-        <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
-          <div className="flex items-center gap-2">
-            <span className="text-xl">⚙️</span>
-            <h2 className="text-lg font-semibold text-slate-900">Manage</h2>
+        {can("catalog:write") && (
+          <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="text-xl">⚙️</span>
+              <h2 className="text-lg font-semibold text-slate-900">Manage</h2>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+              <Link href="/admin/product-types" className="w-full">
+                <Button variant="outline" className="w-full">Product Types</Button>
+              </Link>
+              <Link href="/admin/areas" className="w-full">
+                <Button variant="outline" className="w-full">Areas</Button>
+              </Link>
+              <Link href="/admin/suppliers" className="w-full">
+                <Button variant="outline" className="w-full">Suppliers</Button>
+              </Link>
+              {can("users:manage") && (
+                <Link href="/admin/users" className="w-full">
+                  <Button variant="outline" className="w-full">Users</Button>
+                </Link>
+              )}
+              {can("audit:read") && (
+                <Link href="/admin/audit-log" className="w-full">
+                  <Button variant="outline" className="w-full">Audit Log</Button>
+                </Link>
+              )}
+              {can("users:manage") && (
+                <Link href="/admin/login-activity" className="w-full">
+                  <Button variant="outline" className="w-full">Sign-in Activity</Button>
+                </Link>
+              )}
+            </div>
           </div>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-            <Link href="/admin/product-types" className="w-full">
-              <Button variant="outline" className="w-full">Product Types</Button>
-            </Link>
-            <Link href="/admin/areas" className="w-full">
-              <Button variant="outline" className="w-full">Areas</Button>
-            </Link>
-            <Link href="/admin/suppliers" className="w-full">
-              <Button variant="outline" className="w-full">Suppliers</Button>
-            </Link>
-          </div>
-        </div>
+        )}
       </div>
     </main>
   );
@@ -1,21 +1,96 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import toast, { Toaster } from "react-hot-toast";
+import type { ImportJobStage, ImportJobStatus } from "@/lib/import-jobs";
+import type {
+  ImportDecision,
+  ImportField,
+  ImportFieldChange,
+  ImportRowStatus,
+} from "@/lib/product-import";
+import { describeMapping, type MappingUsed } from "@/lib/supplier-columns";
 
 type Row = {
   id: string;
+  rowIndex: number; // Into the job's file
   code: string;
+  supplierSku: string;
   name: string;
-  imageBase64: string | null;
+  imageUrl: string | null; // Stored when the file was read
   brand: string;
   keywords: string;
   link: string;
   productDetails: string;
   typeName: string;
   price: string;
+  status: ImportRowStatus;
+  productCode: string | null; // The product an existing row matched
+  ambiguousWith: string[]; // Products a row could be; it must be skipped
+  changes: ImportFieldChange[];
+  decision: ImportDecision;
 };
 
+const FIELD_LABELS: Record<ImportField, string> = {
+  description: "Description",
+  productDetails: "Details",
+  link: "Link",
+  brand: "Brand",
+  keywords: "Keywords",
+  costPrice: "Cost",
+  supplierSku: "Supplier SKU",
+  image: "Image",
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: "bg-green-100 text-green-700",
+  changed: "bg-amber-100 text-amber-700",
+  unchanged: "bg-slate-100 text-slate-500",
+};
+
+type ImportJobResult = {
+  rowIndex: number;
+  code: string;
+  result: "created" | "updated" | "unchanged" | "skipped" | "failed";
+  productId: string | null;
+  error: string | null;
+};
+
+type ImportJob = {
+  id: string;
+  createdAt: string;
+  stage: ImportJobStage;
+  status: ImportJobStatus;
+  progress: string | null;
+  fileName: string | null;
+  supplier: { id: string; name: string } | null;
+  mappingUsed: MappingUsed[] | null;
+  totalRows: number;
+  nextRow: number;
+  error: string | null;
+  stale?: boolean; // Stopped without finishing; can be resumed
+  results?: ImportJobResult[];
+};
+
+const JOB_STATUS_STYLES: Record<ImportJobStatus, string> = {
+  queued: "bg-slate-100 text-slate-600",
+  running: "bg-blue-100 text-blue-700",
+  failed: "bg-red-100 text-red-700",
+  completed: "bg-green-100 text-green-700",
+};
+
+// A read file waits for review before anything is imported
+function jobLabel(job: ImportJob) {
+  if (job.stale) return "stalled";
+  if (job.stage === "extract" && job.status === "completed") return "review";
+  return job.status;
+}
+
+// New rows are created and changed ones updated unless chosen otherwise
+function defaultDecision(status: ImportRowStatus): ImportDecision {
+  return status === "new" ? "create" : status === "changed" ? "update" : "skip";
+}
+
 type ProductType = {
   id: string;
   name: string;
@@ -32,7 +107,7 @@ type Supplier = {
 export default function ProductImportPage() {
   const [rows, setRows] = useState<Row[]>([]);
   const [saving, setSaving] = useState(false);
-  const [extracting, setExtracting] = useState(false);
+  const [uploading, setUploading] = useState(false);
   const [productTypes, setProductTypes] = useState<ProductType[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loadingSuppliers, setLoadingSuppliers] = useState(true);
@@ -40,6 +115,104 @@ export default function ProductImportPage() {
   const [selectedSupplierId, setSelectedSupplierId] = useState<string>("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [bulkType, setBulkType] = useState<string>("");
+  const [mappingUsed, setMappingUsed] = useState<MappingUsed[]>([]);
+  const [rowsJobId, setRowsJobId] = useState<string | null>(null); // The job the rows came from
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [recentJobs, setRecentJobs] = useState<ImportJob[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  const loadRecentJobs = useCallback(() => {
+    fetch("/api/admin/product-import/jobs")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.jobs) setRecentJobs(data.jobs);
+      })
+      .catch(() => toast.error("Failed to load recent imports"));
+  }, []);
+
+  // Fetches the rows read from a job's file for review
+  const loadRows = useCallback(
+    async (readJob: ImportJob) => {
+      try {
+        const res = await fetch(`/api/admin/product-import/jobs/${readJob.id}/rows`);
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data?.error || "Failed to load the file's products");
+          return;
+        }
+        const defaultType = bulkType || productTypes[0]?.name || "Other";
+        setRows(
+          (data.rows || []).map((r: any) => ({
+            id: crypto.randomUUID(),
+            rowIndex: r.rowIndex,
+            code: r.code || "",
+            supplierSku: r.supplierSku || r.code || "",
+            name: r.description || "",
+            imageUrl: r.imageUrl || null,
+            brand: r.brand || "",
+            keywords: r.keywords || "",
+            link: r.link || "",
+            productDetails: r.productDetails || "",
+            typeName: r.typeName || defaultType,
+            price: r.price || "",
+            status: r.status || "new",
+            productCode: r.productCode || null,
+            changes: r.changes || [],
+            ambiguousWith: r.ambiguousWith || [],
+            decision: r.ambiguousWith?.length ? "skip" : defaultDecision(r.status || "new"),
+          }))
+        );
+        setRowsJobId(readJob.id);
+        setMappingUsed(readJob.mappingUsed || []);
+      } catch {
+        toast.error("Failed to load the file's products");
+      }
+    },
+    [bulkType, productTypes]
+  );
+
+  // Fetches a job's progress, and its rows once its file has been read.
+  // `announce` reports a finish seen while polling.
+  const loadJob = useCallback(
+    async (id: string, announce = false) => {
+      try {
+        const res = await fetch(`/api/admin/product-import/jobs/${id}`);
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data?.error || "Failed to load import");
+          return;
+        }
+        const loaded: ImportJob = data.job;
+        setJob(loaded);
+        if (loaded.stage === "extract") {
+          if (loaded.status === "completed") {
+            await loadRows(loaded);
+            if (announce) toast.success(`Read ${loaded.totalRows} products from file`);
+          } else if (announce && loaded.status === "failed") {
+            toast.error(loaded.error || "Failed to extract");
+          }
+        } else if (announce && loaded.status === "completed") {
+          toast.success(`Import finished: ${loaded.totalRows} rows`);
+        } else if (announce && loaded.status === "failed") {
+          toast.error(`Import stopped at row ${loaded.nextRow + 1}`);
+        }
+        if (announce && (loaded.status === "completed" || loaded.status === "failed")) {
+          loadRecentJobs();
+        }
+      } catch {
+        toast.error("Failed to load import");
+      }
+    },
+    [loadRecentJobs, loadRows]
+  );
+
+  // The job runs on the server; the page only watches it
+  useEffect(() => {
+    if (!job || job.status === "completed" || job.status === "failed") return;
+
+    const interval = setInterval(() => loadJob(job.id, true), 2000);
+    return () => clearInterval(interval);
+  }, [job?.id, job?.status, loadJob]);
 
   useEffect(() => {
     setLoadingTypes(true);
@@ -66,7 +239,9 @@ export default function ProductImportPage() {
       })
       .catch(() => toast.error("Failed to load suppliers"))
       .finally(() => setLoadingSuppliers(false));
-  }, []);
+
+    loadRecentJobs();
+  }, [loadRecentJobs]);
 
   const handleFile = async (file: File) => {
     if (!selectedSupplierId) {
@@ -74,13 +249,15 @@ export default function ProductImportPage() {
       return;
     }
 
-    setExtracting(true);
+    setUploading(true);
     try {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("supplierId", selectedSupplierId);
       
-      const res = await fetch("/api/admin/product-import/extract", {
+      // The file is converted and read on the server; the page watches the
+      // job and shows its rows once they're ready
+      const res = await fetch("/api/admin/product-import/jobs", {
         method: "POST",
         body: formData,
       });
@@ -88,34 +265,20 @@ export default function ProductImportPage() {
       if (!res.ok) {
         toast.error(data?.error || "Failed to extract");
       } else {
-        const defaultType = bulkType || productTypes[0]?.name || "Other";
-        const imported = (data.rows || []).map((r: any) => ({
-          id: crypto.randomUUID(),
-          code: r.code || "",
-          name: r.name || r.description || "",
-          imageBase64: r.imageBase64 || null,
-          brand: r.brand || "",
-          keywords: r.keywords || "",
-          link: r.link || "",
-          productDetails: r.productDetails || "",
-          typeName: r.type || defaultType,
-          price: r.price || "",
-        }));
-        if (imported.length === 0) {
-          toast.error("No products detected in file.");
-        } else {
-          setRows(imported);
-          toast.success(`Imported ${imported.length} products from file`);
-        }
+        setRows([]);
+        setRowsJobId(null);
+        setMappingUsed([]);
+        setJob(data.job);
+        loadRecentJobs();
       }
     } catch {
       toast.error("Failed to extract");
     } finally {
-      setExtracting(false);
+      setUploading(false);
     }
   };
 
-  const update = (id: string, field: keyof Row, value: string | null) => {
+  const update = <K extends keyof Row>(id: string, field: K, value: Row[K]) => {
     setRows((prev) => prev.map((r) => (r.id === id ? { ...r, [field]: value } : r)));
   };
 
@@ -130,85 +293,89 @@ export default function ProductImportPage() {
   };
 
   const handleImport = async () => {
-    const validRows = rows.filter((r) => r.code.trim());
-    if (validRows.length === 0) {
-      toast.error("No valid products to import");
+    const chosen = rows.filter((r) => r.code.trim() && r.decision !== "skip");
+    if (!rowsJobId) return;
+    if (chosen.length === 0) {
+      toast.error("No products chosen to create or update");
       return;
     }
 
     setSaving(true);
-    let successCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
-
-    const batchSize = 15;
-    for (let i = 0; i < validRows.length; i += batchSize) {
-      const batch = validRows.slice(i, i + batchSize);
-      
-      const results = await Promise.all(
-        batch.map(async (r) => {
-          try {
-            const formData = new FormData();
-            formData.append("code", r.code.trim());
-            formData.append("description", r.name.trim() || r.code.trim());
-            formData.append("productDetails", r.productDetails.trim());
-            formData.append("link", r.link.trim());
-            formData.append("brand", r.brand.trim());
-            formData.append("keywords", r.keywords.trim());
-            formData.append("typeName", r.typeName);
-
-            if (r.imageBase64) {
-              const byteString = atob(r.imageBase64);
-              const ab = new ArrayBuffer(byteString.length);
-              const ia = new Uint8Array(ab);
-              for (let j = 0; j < byteString.length; j++) {
-                ia[j] = byteString.charCodeAt(j);
-              }
-              const blob = new Blob([ab], { type: "image/png" });
-              formData.append("image", blob, `${r.code}.png`);
-            }
-
-            const res = await fetch("/api/admin/products/import", {
-              method: "POST",
-              body: formData,
-            });
-
-            if (!res.ok) {
-              const data = await res.json();
-              if (data?.error?.includes("already exists")) {
-                return "skipped";
-              }
-              return "error";
-            }
-            return "success";
-          } catch {
-            return "error";
-          }
-        })
-      );
+    try {
+      const res = await fetch(`/api/admin/product-import/jobs/${rowsJobId}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: chosen.map((r) => ({
+            rowIndex: r.rowIndex,
+            code: r.code.trim(),
+            supplierSku: r.supplierSku.trim(),
+            description: r.name.trim() || r.code.trim(),
+            productDetails: r.productDetails,
+            link: r.link,
+            brand: r.brand,
+            keywords: r.keywords,
+            typeName: r.typeName,
+            price: r.price,
+            decision: r.decision,
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to import");
+        return;
+      }
 
-      successCount += results.filter((r) => r === "success").length;
-      errorCount += results.filter((r) => r === "error").length;
-      skippedCount += results.filter((r) => r === "skipped").length;
+      // The job carries on even if this page is closed; rows left out are
+      // skipped
+      setRows([]);
+      setRowsJobId(null);
+      setJob(data.job);
+      loadRecentJobs();
+      toast.success(`Importing ${data.job.totalRows} products on the server`);
+    } catch {
+      toast.error("Failed to import");
+    } finally {
+      setSaving(false);
     }
+  };
 
-    setSaving(false);
-
-    const messages = [];
-    if (successCount > 0) messages.push(`✓ ${successCount} imported`);
-    if (skippedCount > 0) messages.push(`⊘ ${skippedCount} duplicates`);
-    if (errorCount > 0) messages.push(`✗ ${errorCount} failed`);
-
-    if (messages.length > 0) {
-      if (errorCount > 0) {
-        toast.error(messages.join(" | "));
-      } else {
-        toast.success(messages.join(" | "));
+  const retryJob = async (skipFailedRow: boolean) => {
+    if (!job) return;
+    setRetrying(true);
+    try {
+      const res = await fetch(`/api/admin/product-import/jobs/${job.id}/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ skipFailedRow }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to retry import");
+        return;
       }
+      setJob(data.job);
+      loadRecentJobs();
+    } catch {
+      toast.error("Failed to retry import");
+    } finally {
+      setRetrying(false);
     }
   };
 
   const selectedSupplier = suppliers.find((s) => s.id === selectedSupplierId);
+  const extracting =
+    uploading ||
+    (job?.stage === "extract" && (job.status === "queued" || job.status === "running") && !job.stale);
+  // The latest attempt at each row
+  const jobResults = Array.from(
+    new Map((job?.results ?? []).map((result) => [result.rowIndex, result])).values()
+  );
+  const resultCount = (result: ImportJobResult["result"]) =>
+    jobResults.filter((r) => r.result === result).length;
+  const statusCount = (status: ImportRowStatus) => rows.filter((r) => r.status === status).length;
+  const chosenCount = rows.filter((r) => r.decision !== "skip").length;
 
   return (
     <main className="min-h-screen bg-slate-50 py-8 px-4">
@@ -251,7 +418,7 @@ export default function ProductImportPage() {
             <label className="block text-xs font-medium text-slate-600 mb-1">Upload File</label>
             <input
               type="file"
-              accept="application/pdf,.docx"
+              accept="application/pdf,.docx,.csv,.xlsx"
               disabled={!selectedSupplierId || extracting}
               onChange={(e) => {
                 const file = e.target.files?.[0];
@@ -267,9 +434,115 @@ export default function ProductImportPage() {
         {selectedSupplier && (
           <p className="text-xs text-slate-400">
             Columns: {selectedSupplier.columnMappings.map((m) => `${m.column}→${m.field}`).join(", ")}
+            {selectedSupplier.hasHeaderRow && " (used when no header row matches)"}
           </p>
         )}
 
+        {/* How the last file's columns were read, per table */}
+        {mappingUsed.length > 0 && (
+          <div className="text-xs text-slate-500 space-y-0.5">
+            {mappingUsed.map((mapping, index) => (
+              <p key={index}>
+                {mappingUsed.length > 1 && `Table ${index + 1}: `}
+                {describeMapping(mapping)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Import job progress */}
+        {job && (
+          <div className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className={`px-2 py-0.5 text-xs font-medium uppercase rounded ${JOB_STATUS_STYLES[job.status]}`}>
+                {jobLabel(job)}
+              </span>
+              <span className="text-sm text-slate-700 truncate">
+                {job.fileName || "Import"}
+                {job.supplier && ` · ${job.supplier.name}`}
+              </span>
+              <div className="flex-1" />
+              <span className="text-sm text-slate-600">
+                {job.stage === "import"
+                  ? `${job.nextRow} / ${job.totalRows} rows`
+                  : job.status === "completed"
+                  ? `${job.totalRows} products to review`
+                  : job.progress || "Waiting to read the file"}
+              </span>
+              {(job.status === "failed" || job.stale) && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => retryJob(false)}
+                    disabled={retrying}
+                    className="px-3 py-1 bg-amber-500 text-white text-sm rounded hover:bg-amber-600 disabled:opacity-50"
+                  >
+                    {job.stage === "import" ? `Retry from row ${job.nextRow + 1}` : "Retry"}
+                  </button>
+                  {job.stage === "import" && job.status === "failed" && (
+                    <button
+                      type="button"
+                      onClick={() => retryJob(true)}
+                      disabled={retrying}
+                      className="px-3 py-1 bg-slate-100 text-slate-700 text-sm rounded hover:bg-slate-200 disabled:opacity-50"
+                    >
+                      Skip row and continue
+                    </button>
+                  )}
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => setJob(null)}
+                className="px-2 py-1 text-xs rounded bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                ✕
+              </button>
+            </div>
+
+            {job.stage === "import" && (
+              <div className="h-2 bg-slate-100 rounded overflow-hidden">
+                <div
+                  className={`h-full ${job.status === "failed" ? "bg-red-500" : "bg-green-500"}`}
+                  style={{ width: `${job.totalRows ? (job.nextRow / job.totalRows) * 100 : 0}%` }}
+                />
+              </div>
+            )}
+
+            {job.error && (
+              <p className="text-sm text-red-600">
+                {job.stage === "import" && `Row ${job.nextRow + 1}: `}
+                {job.error}
+              </p>
+            )}
+
+            {jobResults.length > 0 && (
+              <>
+                <p className="text-xs text-slate-500">
+                  {resultCount("created")} created · {resultCount("updated")} updated ·{" "}
+                  {resultCount("unchanged")} unchanged · {resultCount("skipped")} skipped ·{" "}
+                  {resultCount("failed")} failed
+                </p>
+                <div className="max-h-48 overflow-y-auto border border-slate-100 rounded text-xs divide-y divide-slate-100">
+                  {jobResults.map((result) => (
+                    <div
+                      key={result.rowIndex}
+                      className={`flex gap-3 px-2 py-1 ${result.result === "failed" ? "bg-red-50 text-red-700" : "text-slate-600"}`}
+                    >
+                      <span className="w-12 text-slate-400">Row {result.rowIndex + 1}</span>
+                      <span className="w-40 font-medium truncate">{result.code}</span>
+                      <span className="flex-1 truncate">
+                        {result.result}
+                        {result.error && `: ${result.error}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Products List */}
         {rows.length > 0 && (
           <div className="space-y-3">
@@ -301,14 +574,16 @@ export default function ProductImportPage() {
                 </>
               )}
               <div className="flex-1" />
-              <span className="text-sm text-slate-600">{rows.length} products</span>
+              <span className="text-sm text-slate-600">
+                {statusCount("new")} new · {statusCount("changed")} changed · {statusCount("unchanged")} unchanged
+              </span>
               <button
                 type="button"
                 onClick={handleImport}
-                disabled={saving || productTypes.length === 0}
+                disabled={saving || productTypes.length === 0 || chosenCount === 0}
                 className="px-4 py-1.5 bg-green-600 text-white text-sm font-medium rounded hover:bg-green-700 disabled:opacity-50"
               >
-                {saving ? "Importing..." : "Import All"}
+                {saving ? "Importing..." : `Import ${chosenCount}`}
               </button>
             </div>
 
@@ -326,7 +601,7 @@ export default function ProductImportPage() {
                       {/* Image */}
                       <div className="w-14 h-14 flex-shrink-0 bg-slate-100 border border-slate-200 rounded overflow-hidden">
                         <img
-                          src={r.imageBase64 ? `data:image/png;base64,${r.imageBase64}` : "/no-image.png"}
+                          src={r.imageUrl || "/no-image.png"}
                           alt={r.code}
                           className="w-full h-full object-contain"
                         />
@@ -342,7 +617,25 @@ export default function ProductImportPage() {
                             placeholder="Code"
                           />
                         ) : (
-                          <div className="font-semibold text-slate-800 truncate">{r.code}</div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-slate-800 truncate">{r.code}</span>
+                            <span className={`px-1.5 py-0.5 text-[10px] font-medium uppercase rounded ${STATUS_STYLES[r.status]}`}>
+                              {r.status}
+                            </span>
+                          </div>
+                        )}
+                        {r.productCode && r.productCode !== r.code && (
+                          <div className="text-xs text-slate-500 truncate">Matches {r.productCode}</div>
+                        )}
+                        {r.ambiguousWith.length > 0 && (
+                          <div className="text-xs text-amber-600 truncate">
+                            Could be any of {r.ambiguousWith.join(", ")}, so it is skipped
+                          </div>
+                        )}
+                        {r.supplierSku && r.supplierSku !== r.code && (
+                          <div className="text-xs text-slate-500 truncate mb-1">
+                            Supplier SKU: {r.supplierSku}
+                          </div>
                         )}
                         {isEditing ? (
                           <input
@@ -367,6 +660,20 @@ export default function ProductImportPage() {
                         ))}
                       </select>
 
+                      {/* Create, update or skip */}
+                      <select
+                        value={r.decision}
+                        onChange={(e) => update(r.id, "decision", e.target.value as ImportDecision)}
+                        className="px-2 py-1.5 border border-slate-300 rounded bg-white text-sm"
+                      >
+                        {r.ambiguousWith.length > 0 ? null : r.status === "new" ? (
+                          <option value="create">Create</option>
+                        ) : (
+                          <option value="update">Update</option>
+                        )}
+                        <option value="skip">Skip</option>
+                      </select>
+
                       {/* Actions */}
                       <div className="flex items-center gap-1">
                         <button
@@ -390,6 +697,26 @@ export default function ProductImportPage() {
                       </div>
                     </div>
 
+                    {/* What an update would change */}
+                    {r.changes.length > 0 && (
+                      <div className={`border-t border-slate-100 px-3 py-2 text-xs space-y-0.5 ${r.decision === "skip" ? "text-slate-400" : "text-slate-600"}`}>
+                        {r.changes.map((change) => (
+                          <div key={change.field} className="truncate">
+                            <span className="font-medium">{FIELD_LABELS[change.field]}:</span>{" "}
+                            {change.field === "image" ? (
+                              change.before ? "replaced with the file's image" : "added from the file"
+                            ) : (
+                              <>
+                                <span className="line-through text-red-500">{change.before || "—"}</span>
+                                {" → "}
+                                <span className="text-green-700">{change.after}</span>
+                              </>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Expanded Edit */}
                     {isEditing && (
                       <div className="border-t border-slate-100 bg-slate-50 p-3 grid grid-cols-2 md:grid-cols-4 gap-2">
@@ -453,6 +780,43 @@ export default function ProductImportPage() {
             )}
           </div>
         )}
+
+        {/* Recent Imports */}
+        {recentJobs.length > 0 && (
+          <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 border-b border-slate-100 text-sm font-medium text-slate-700">
+              Recent Imports
+            </div>
+            <div className="divide-y divide-slate-100">
+              {recentJobs.map((recent) => (
+                <div key={recent.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <span className={`px-1.5 py-0.5 text-[10px] font-medium uppercase rounded ${JOB_STATUS_STYLES[recent.status]}`}>
+                    {jobLabel(recent)}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-slate-700">
+                    {recent.fileName || "Import"}
+                    {recent.supplier && ` · ${recent.supplier.name}`}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {recent.stage === "import"
+                      ? `${recent.nextRow} / ${recent.totalRows} rows`
+                      : `${recent.totalRows} read`}
+                  </span>
+                  <span className="text-xs text-slate-400">
+                    {new Date(recent.createdAt).toLocaleString()}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => loadJob(recent.id)}
+                    className="px-2 py-1 text-xs rounded bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  >
+                    View
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </main>
   );
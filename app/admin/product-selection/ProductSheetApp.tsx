@@ -4,6 +4,7 @@ import { useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { SearchableDropdown } from "@/components/ui/searchable-dropdown";
 import { SearchableDropdownCreatable } from "@/components/ui/searchable-dropdown-creatable";
+import { variantLabel } from "@/lib/product-variants";
 
 type ApiProduct = {
   id: string;
@@ -15,6 +16,41 @@ type ApiProduct = {
   link: string | null;
   brand: string | null;
   keywords: string | null;
+  images?: ProductImage[];
+  parentId?: string | null;
+  parent?: { id: string; code: string; description: string } | null;
+  variants?: ProductVariant[];
+  finish?: string | null;
+  colour?: string | null;
+  size?: string | null;
+};
+
+// A product that can stand in for its parent on a selection line
+type ProductVariant = {
+  id: string;
+  code: string;
+  description: string;
+  productDetails: string | null;
+  imageUrl: string;
+  link: string | null;
+  images?: ProductImage[];
+  finish?: string | null;
+  colour?: string | null;
+  size?: string | null;
+};
+
+type ProductImage = {
+  id: string;
+  url: string;
+  thumbnailUrl?: string | null;
+  altText: string | null;
+  isPrimary?: boolean;
+};
+
+type SearchFacets = {
+  types: Array<{ id: string | null; name: string; count: number }>;
+  brands: Array<{ value: string; count: number }>;
+  suppliers: Array<{ id: string | null; name: string; count: number }>;
 };
 
 type Area = {
@@ -39,11 +75,60 @@ type SelectedProduct = {
   link: string | null;
   areaId: string;
   areaName: string;
+  images?: ProductImage[]; // All of the product's images, in catalog order
+  imageUrls?: string[]; // The ones chosen for the document
+  // For products with variants: the parent itself first, then its variants.
+  // The fields above are the chosen one's; `id` stays the parent's.
+  variants?: ProductVariant[];
+  variantId?: string | null;
+  finish?: string | null;
+  colour?: string | null;
+  size?: string | null;
 };
 
 type Message = { type: "success" | "error" | "info"; text: string };
 
 const API_BASE = "/api/admin/product-selection";
+const SEARCH_PAGE_SIZE = 60;
+// Matches MAX_IMAGES_PER_LINE in the generate route
+const MAX_DOCUMENT_IMAGES = 4;
+
+function toVariant(p: ProductVariant): ProductVariant {
+  return {
+    id: p.id,
+    code: p.code,
+    description: p.description,
+    productDetails: p.productDetails,
+    imageUrl: p.imageUrl,
+    link: p.link,
+    images: p.images?.map(({ id, url, thumbnailUrl, altText }) => ({ id, url, thumbnailUrl, altText })),
+    finish: p.finish ?? null,
+    colour: p.colour ?? null,
+    size: p.size ?? null,
+  };
+}
+
+// Puts a variant's code, details and images on a selection line. Variants
+// without their own images or link use the parent's.
+function withVariant(item: SelectedProduct, variant: ProductVariant): SelectedProduct {
+  const parent = item.variants?.[0];
+  const ownImages = Boolean(variant.images?.length) || !parent;
+  const imageUrl = ownImages ? variant.imageUrl : parent.imageUrl;
+  return {
+    ...item,
+    code: variant.code,
+    description: variant.description,
+    productDetails: variant.productDetails,
+    imageUrl,
+    link: variant.link || parent?.link || null,
+    images: ownImages ? variant.images : parent.images,
+    imageUrls: imageUrl && imageUrl !== "/no-image.png" ? [imageUrl] : [],
+    variantId: item.variants ? variant.id : undefined,
+    finish: variant.finish,
+    colour: variant.colour,
+    size: variant.size,
+  };
+}
 
 export default function ProductSheetApp() {
   const searchParams = useSearchParams();
@@ -71,7 +156,11 @@ export default function ProductSheetApp() {
   const [phoneNumber, setPhoneNumber] = useState("");
   const [email, setEmail] = useState("");
 
-  const [allProducts, setAllProducts] = useState<ApiProduct[]>([]);
+  const [products, setProducts] = useState<ApiProduct[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<SearchFacets>({ types: [], brands: [], suppliers: [] });
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selected, setSelected] = useState<SelectedProduct[]>([]);
   const [downloadAsWord, setDownloadAsWord] = useState(false);
   const [expandedAreas, setExpandedAreas] = useState<Set<string>>(new Set());
@@ -83,37 +172,87 @@ export default function ProductSheetApp() {
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const [selectedTypeFilter, setSelectedTypeFilter] = useState<string>("all");
   const [selectedBrandFilter, setSelectedBrandFilter] = useState<string>("all");
+  const [selectedSupplierFilter, setSelectedSupplierFilter] = useState<string>("all");
 
   // Auto-save debounce ref
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Ignores responses to searches that have since been replaced
+  const searchRequestRef = useRef(0);
 
-  // Load all products and areas on mount
   useEffect(() => {
-    const loadAllProducts = async () => {
-      setLoadingProducts(true);
-      try {
-        const resp = await fetch("/api/admin/products?all=true");
-        if (!resp.ok) {
-          const errBody = await resp.json().catch(() => ({}));
-          throw new Error(
-            errBody?.error || errBody?.details || `Failed to fetch products (${resp.status})`
-          );
-        }
-        const data = await resp.json();
-        setAllProducts(data.products || []);
-      } catch (err) {
-          setMessage({
-            type: "error",
-            text: err instanceof Error ? err.message : "Failed to fetch products",
-          });
-      } finally {
-        setLoadingProducts(false);
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchProductPage = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams({ limit: String(SEARCH_PAGE_SIZE) });
+      if (debouncedQuery) params.set("q", debouncedQuery);
+      if (selectedTypeFilter !== "all") params.set("typeId", selectedTypeFilter);
+      if (selectedBrandFilter !== "all") params.set("brand", selectedBrandFilter);
+      if (selectedSupplierFilter !== "all") params.set("supplierId", selectedSupplierFilter);
+      if (cursor) params.set("cursor", cursor);
+
+      const resp = await fetch(`/api/admin/products/search?${params}`);
+      if (!resp.ok) {
+        const errBody = await resp.json().catch(() => ({}));
+        throw new Error(
+          errBody?.error || errBody?.details || `Failed to fetch products (${resp.status})`
+        );
       }
-    };
-    loadAllProducts();
+      return resp.json();
+    },
+    [debouncedQuery, selectedTypeFilter, selectedBrandFilter, selectedSupplierFilter]
+  );
+
+  // Search products whenever the query or filters change
+  useEffect(() => {
+    const requestId = ++searchRequestRef.current;
+    setLoadingProducts(true);
+    fetchProductPage(null)
+      .then((data) => {
+        if (requestId !== searchRequestRef.current) return;
+        setProducts(data.products || []);
+        setTotalProducts(data.total || 0);
+        setNextCursor(data.nextCursor || null);
+        if (data.facets) setFacets(data.facets);
+      })
+      .catch((err) => {
+        if (requestId !== searchRequestRef.current) return;
+        setMessage({
+          type: "error",
+          text: err instanceof Error ? err.message : "Failed to fetch products",
+        });
+      })
+      .finally(() => {
+        if (requestId === searchRequestRef.current) setLoadingProducts(false);
+      });
+  }, [fetchProductPage]);
+
+  const loadMoreProducts = async () => {
+    if (!nextCursor) return;
+    const requestId = searchRequestRef.current;
+    setLoadingMore(true);
+    try {
+      const data = await fetchProductPage(nextCursor);
+      if (requestId !== searchRequestRef.current) return;
+      setProducts((prev) => [...prev, ...(data.products || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to fetch products",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
+  // Load areas and suppliers on mount
+  useEffect(() => {
     // Load areas for selection
     const loadAreas = async () => {
       try {
@@ -255,64 +394,23 @@ export default function ProductSheetApp() {
     };
   }, [address, date, contactName, company, phoneNumber, email, selected, saveSelection]);
 
-  // Get unique type names for filter
-  const typeNames = useMemo(() => {
-    const types = new Set<string>();
-    allProducts.forEach((p) => types.add(p.type?.name || "Other"));
-    return Array.from(types).sort();
-  }, [allProducts]);
-
-  // Get unique brand names for filter
-  const brandNames = useMemo(() => {
-    const brands = new Set<string>();
-    allProducts.forEach((p) => {
-      if (p.brand) brands.add(p.brand);
-    });
-    return Array.from(brands).sort();
-  }, [allProducts]);
-
-  // Filter and search products
-  const filteredProducts = useMemo(() => {
-    let products = allProducts;
-
-    // Apply type filter
-    if (selectedTypeFilter !== "all") {
-      products = products.filter((p) => (p.type?.name || "Other") === selectedTypeFilter);
-    }
-
-    // Apply brand filter
-    if (selectedBrandFilter !== "all") {
-      products = products.filter((p) => p.brand === selectedBrandFilter);
-    }
-
-    // Apply search across ALL fields
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase().trim();
-      products = products.filter((p) => {
-        const codeMatch = p.code.toLowerCase().includes(q);
-        const descMatch = p.description.toLowerCase().includes(q);
-        const brandMatch = p.brand?.toLowerCase().includes(q) || false;
-        const keywordsMatch = p.keywords?.toLowerCase().includes(q) || false;
-        const detailsMatch = p.productDetails?.toLowerCase().includes(q) || false;
-        const typeMatch = p.type?.name.toLowerCase().includes(q) || false;
-        return codeMatch || descMatch || brandMatch || keywordsMatch || detailsMatch || typeMatch;
-      });
-    }
-
-    return products;
-  }, [allProducts, searchQuery, selectedTypeFilter, selectedBrandFilter]);
-
-  // Group filtered products by type
+  // Group loaded search results by type
   const productsByType = useMemo(() => {
-    return filteredProducts.reduce<Record<string, ApiProduct[]>>((acc, p) => {
+    return products.reduce<Record<string, ApiProduct[]>>((acc, p) => {
       const key = p.type?.name || "Other";
       acc[key] = acc[key] ? [...acc[key], p] : [p];
       return acc;
     }, {});
-  }, [filteredProducts]);
+  }, [products]);
 
   const filteredTypeNames = useMemo(() => Object.keys(productsByType).sort(), [productsByType]);
 
+  // Total matches per type, including results not loaded yet
+  const typeMatchCounts = useMemo(
+    () => new Map(facets.types.map((t) => [t.name, t.count])),
+    [facets.types]
+  );
+
   const toggleType = (typeName: string) => {
     setExpandedAreas((prev) => {
       const newSet = new Set(prev);
@@ -325,31 +423,56 @@ export default function ProductSheetApp() {
     });
   };
 
-  const addProductToSelected = useCallback((p: ApiProduct) => {
+  const addProductToSelected = useCallback((p: ApiProduct, variantId?: string) => {
     setSelected((prev) => {
       const exists = prev.find((s) => s.id === p.id);
       if (exists) return prev;
-      return [
-        ...prev,
-        {
-          id: p.id,
-          code: p.code,
-          description: p.description,
-          productDetails: p.productDetails,
-          imageUrl: p.imageUrl,
-          typeName: p.type?.name || "Other",
-          quantity: "",
-          notes: "",
-          link: p.link,
-          areaId: "",
-          areaName: "",
-        },
-      ];
+      const variants = p.variants?.length ? [p, ...p.variants] : undefined;
+      const base: SelectedProduct = {
+        id: p.id,
+        code: p.code,
+        description: p.description,
+        productDetails: p.productDetails,
+        imageUrl: p.imageUrl,
+        typeName: p.type?.name || "Other",
+        quantity: "",
+        notes: "",
+        link: p.link,
+        areaId: "",
+        areaName: "",
+        variants: variants?.map(toVariant),
+      };
+      const chosen = variants?.find((v) => v.id === variantId) ?? p;
+      return [...prev, withVariant(base, toVariant(chosen))];
     });
   }, []);
 
+  // A variant found on its own is added as its parent, with it chosen
+  const addToSelected = useCallback(
+    async (p: ApiProduct) => {
+      if (!p.parentId) return addProductToSelected(p);
+      const resp = await fetch(`/api/admin/products/${p.parentId}`);
+      const data = await resp.json().catch(() => ({}));
+      if (resp.ok && data.product) {
+        addProductToSelected(data.product, p.id);
+      } else {
+        addProductToSelected(p);
+      }
+    },
+    [addProductToSelected]
+  );
+
+  const chooseVariant = (id: string, variantId: string) => {
+    setSelected((prev) =>
+      prev.map((s) => {
+        const variant = s.variants?.find((v) => v.id === variantId);
+        return s.id === id && variant ? withVariant(s, variant) : s;
+      })
+    );
+  };
+
   const removeFromSelected = (id: string) => {
-    setSelected((prev) => prev.filter((s) => s.id !== id));
+    setSelected((prev) => prev.filter((s) => s.id !== id && s.variantId !== id));
   };
 
   const updateSelected = (
@@ -360,6 +483,24 @@ export default function ProductSheetApp() {
     setSelected((prev) => prev.map((s) => (s.id === id ? { ...s, [field]: value } : s)));
   };
 
+  // Adds or removes one of the product's images from its document line,
+  // keeping the catalog order
+  const toggleSelectedImage = (id: string, url: string) => {
+    setSelected((prev) =>
+      prev.map((s) => {
+        if (s.id !== id) return s;
+        const chosen = s.imageUrls ?? [s.imageUrl];
+        if (!chosen.includes(url) && chosen.length >= MAX_DOCUMENT_IMAGES) return s;
+        const next = chosen.includes(url) ? chosen.filter((u) => u !== url) : [...chosen, url];
+        const order = (s.images ?? []).map((image) => image.url);
+        return {
+          ...s,
+          imageUrls: next.sort((a, b) => order.indexOf(a) - order.indexOf(b)),
+        };
+      })
+    );
+  };
+
   const updateSelectedArea = (id: string, areaName: string, areaId?: string) => {
     setSelected((prev) =>
       prev.map((s) =>
@@ -422,7 +563,7 @@ export default function ProductSheetApp() {
 
         // Add matching products to selection
         for (const product of data.products) {
-          addProductToSelected(product);
+          await addToSelected(product);
         }
 
         const hasSuggestions = Object.keys(data.suggestedMatches || {}).length > 0;
@@ -439,7 +580,7 @@ export default function ProductSheetApp() {
         setParsingPdf(false);
       }
     },
-    [addProductToSelected, selectedSupplierId]
+    [addToSelected, selectedSupplierId]
   );
 
   const handleDrop = useCallback(
@@ -482,6 +623,7 @@ export default function ProductSheetApp() {
     setSearchQuery("");
     setSelectedTypeFilter("all");
     setSelectedBrandFilter("all");
+    setSelectedSupplierFilter("all");
   };
 
   const validate = () => {
@@ -501,8 +643,12 @@ export default function ProductSheetApp() {
       quantity: p.quantity,
       notes: p.notes,
       image: null,
-      imageUrl: p.imageUrl,
+      imageUrl: p.imageUrls ? p.imageUrls[0] ?? "" : p.imageUrl,
+      imageUrls: p.imageUrls,
       link: p.link || "",
+      finish: p.finish,
+      colour: p.colour,
+      size: p.size,
     }));
 
   const generateDocument = async () => {
@@ -576,7 +722,11 @@ export default function ProductSheetApp() {
     }
   };
 
-  const hasActiveFilters = searchQuery.trim() || selectedTypeFilter !== "all" || selectedBrandFilter !== "all";
+  const hasActiveFilters =
+    searchQuery.trim() ||
+    selectedTypeFilter !== "all" ||
+    selectedBrandFilter !== "all" ||
+    selectedSupplierFilter !== "all";
 
   return (
     <main className="min-h-screen bg-slate-50 py-16 px-4">
@@ -767,10 +917,11 @@ export default function ProductSheetApp() {
                               {availableSuggestions.map((suggestion) => (
                                 <button
                                   key={suggestion.id}
-                                  onClick={() => {
-                                    const product = allProducts.find((p) => p.id === suggestion.id);
-                                    if (product) {
-                                      addProductToSelected(product);
+                                  onClick={async () => {
+                                    const resp = await fetch(`/api/admin/products/${suggestion.id}`);
+                                    const data = await resp.json().catch(() => ({}));
+                                    if (resp.ok && data.product) {
+                                      addToSelected(data.product);
                                       // Remove this code from notFound list
                                       setPdfParseInfo((prev) =>
                                         prev
@@ -780,6 +931,11 @@ export default function ProductSheetApp() {
                                             }
                                           : null
                                       );
+                                    } else {
+                                      setMessage({
+                                        type: "error",
+                                        text: data?.error || "Failed to add product",
+                                      });
                                     }
                                   }}
                                   className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-amber-300 rounded text-xs hover:bg-amber-100 transition-colors"
@@ -888,11 +1044,11 @@ export default function ProductSheetApp() {
             )}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             {/* Search Input */}
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-slate-700 mb-1">
-                Search (code, description, brand, keywords)
+                Search (code, description, details, brand, keywords, type)
               </label>
             <input
               type="text"
@@ -912,9 +1068,9 @@ export default function ProductSheetApp() {
                 className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
               >
                 <option value="all">All Types</option>
-                {typeNames.map((typeName) => (
-                  <option key={typeName} value={typeName}>
-                    {typeName}
+                {facets.types.map((t) => (
+                  <option key={t.id ?? "none"} value={t.id ?? "none"}>
+                    {t.name} ({t.count})
                   </option>
                 ))}
               </select>
@@ -929,9 +1085,26 @@ export default function ProductSheetApp() {
                 className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
               >
                 <option value="all">All Brands</option>
-                {brandNames.map((brand) => (
-                  <option key={brand} value={brand}>
-                    {brand}
+                {facets.brands.map((b) => (
+                  <option key={b.value} value={b.value}>
+                    {b.value} ({b.count})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Supplier Filter */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Supplier</label>
+              <select
+                value={selectedSupplierFilter}
+                onChange={(e) => setSelectedSupplierFilter(e.target.value)}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+              >
+                <option value="all">All Suppliers</option>
+                {facets.suppliers.map((s) => (
+                  <option key={s.id ?? "none"} value={s.id ?? "none"}>
+                    {s.name} ({s.count})
                   </option>
                 ))}
               </select>
@@ -939,7 +1112,7 @@ export default function ProductSheetApp() {
           </div>
 
           <p className="text-xs text-slate-500 mt-2">
-            Showing {filteredProducts.length} of {allProducts.length} products
+            Showing {products.length} of {totalProducts} matching products
           </p>
               </div>
 
@@ -981,7 +1154,11 @@ export default function ProductSheetApp() {
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                         </svg>
                         <span className="text-slate-900 font-medium">{typeName}</span>
-                        <span className="text-sm text-slate-500">({typeProducts.length} products)</span>
+                        <span className="text-sm text-slate-500">
+                          ({typeProducts.length < (typeMatchCounts.get(typeName) ?? 0)
+                            ? `${typeProducts.length} of ${typeMatchCounts.get(typeName)} loaded`
+                            : `${typeProducts.length} products`})
+                        </span>
                       </div>
                       {selectedInTypeCount > 0 && (
                         <span className="bg-amber-500 text-white text-xs font-bold px-2 py-1 rounded">
@@ -994,7 +1171,9 @@ export default function ProductSheetApp() {
                     {isExpanded && (
                       <div className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 bg-white">
                         {typeProducts.map((product) => {
-                  const isSelected = selected.some((s) => s.id === product.id);
+                  const isSelected = selected.some(
+                    (s) => s.id === product.id || s.variantId === product.id
+                  );
                   return (
                     <div
                       key={product.id}
@@ -1039,6 +1218,16 @@ export default function ProductSheetApp() {
                           )}
                       </div>
                                 <p className="text-sm text-slate-800 mb-2 line-clamp-2">{product.description}</p>
+                                {product.parent ? (
+                                  <p className="text-xs text-amber-700 mb-2">
+                                    Variant of {product.parent.code}
+                                    {variantLabel(product) && ` - ${variantLabel(product)}`}
+                                  </p>
+                                ) : product.variants && product.variants.length > 0 ? (
+                                  <p className="text-xs text-amber-700 mb-2">
+                                    {product.variants.length} variants - choose one once added
+                                  </p>
+                                ) : null}
                                 {product.productDetails && (
                                   <p className="text-xs text-slate-500 mb-3 line-clamp-2">
                                     {product.productDetails}
@@ -1046,7 +1235,7 @@ export default function ProductSheetApp() {
                                 )}
                       <button
                                   onClick={() =>
-                                    isSelected ? removeFromSelected(product.id) : addProductToSelected(product)
+                                    isSelected ? removeFromSelected(product.id) : addToSelected(product)
                                   }
                                   className={`w-full py-2 rounded-md text-sm font-medium transition-colors ${
                                     isSelected
@@ -1067,6 +1256,18 @@ export default function ProductSheetApp() {
                 })}
               </div>
           )}
+
+          {nextCursor && !loadingProducts && (
+            <div className="text-center mt-4">
+              <button
+                onClick={loadMoreProducts}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50"
+              >
+                {loadingMore ? "Loading..." : `Load More (${totalProducts - products.length} remaining)`}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Selected Products - Organized by Area with Drag & Drop */}
@@ -1077,6 +1278,8 @@ export default function ProductSheetApp() {
             areas={areas}
             updateSelectedArea={updateSelectedArea}
             updateSelected={updateSelected}
+            toggleSelectedImage={toggleSelectedImage}
+            chooseVariant={chooseVariant}
             removeFromSelected={removeFromSelected}
           />
         )}
@@ -1127,6 +1330,8 @@ function SelectedProductsOrganizer({
   areas,
   updateSelectedArea,
   updateSelected,
+  toggleSelectedImage,
+  chooseVariant,
   removeFromSelected,
 }: {
   selected: SelectedProduct[];
@@ -1134,6 +1339,8 @@ function SelectedProductsOrganizer({
   areas: Area[];
   updateSelectedArea: (id: string, areaName: string, areaId?: string) => void;
   updateSelected: (id: string, field: "quantity" | "notes", value: string) => void;
+  toggleSelectedImage: (id: string, url: string) => void;
+  chooseVariant: (id: string, variantId: string) => void;
   removeFromSelected: (id: string) => void;
 }) {
   const [draggedId, setDraggedId] = useState<string | null>(null);
@@ -1246,6 +1453,9 @@ function SelectedProductsOrganizer({
             <span className="text-xs text-slate-400">{item.typeName}</span>
           </div>
           <p className="text-xs text-slate-600 truncate mt-0.5">{item.description}</p>
+          {variantLabel(item) && (
+            <p className="text-xs text-amber-700 truncate">{variantLabel(item)}</p>
+          )}
         </div>
 
         {/* Remove */}
@@ -1287,6 +1497,52 @@ function SelectedProductsOrganizer({
           className="flex-1 rounded border border-slate-300 px-2 py-1 text-xs focus:ring-1 focus:ring-amber-500"
         />
       </div>
+
+      {/* Variant, when the product comes in several */}
+      {item.variants && item.variants.length > 1 && (
+        <select
+          value={item.variantId ?? item.id}
+          onChange={(e) => chooseVariant(item.id, e.target.value)}
+          className="mt-2 w-full rounded border border-slate-300 px-2 py-1 text-xs bg-white focus:ring-1 focus:ring-amber-500"
+        >
+          {item.variants.map((variant) => (
+            <option key={variant.id} value={variant.id}>
+              {variant.code}
+              {variantLabel(variant) ? ` - ${variantLabel(variant)}` : ""}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Images for the document, when the product has a choice */}
+      {item.images && item.images.length > 1 && (
+        <div className="mt-2 flex items-center gap-1.5 flex-wrap">
+          <span className="text-xs text-slate-400 mr-1">In document:</span>
+          {item.images.map((image) => {
+            const chosen = (item.imageUrls ?? [item.imageUrl]).includes(image.url);
+            return (
+              <button
+                key={image.id}
+                type="button"
+                onClick={() => toggleSelectedImage(item.id, image.url)}
+                title={image.altText ?? undefined}
+                className={`w-9 h-9 rounded border-2 overflow-hidden bg-slate-50 ${
+                  chosen ? "border-amber-500" : "border-slate-200 opacity-50 hover:opacity-100"
+                }`}
+              >
+                <img
+                  src={image.thumbnailUrl ?? image.url}
+                  alt={image.altText ?? ""}
+                  className="w-full h-full object-contain"
+                />
+              </button>
+            );
+          })}
+          <span className="text-xs text-slate-400">
+            {(item.imageUrls ?? [item.imageUrl]).length}/{MAX_DOCUMENT_IMAGES} max
+          </span>
+        </div>
+      )}
     </div>
   );
 
@@ -2,7 +2,7 @@ import { requireAdmin } from "@/lib/auth";
 import ProductSheetApp from "./ProductSheetApp";
 
 export default async function ProductSelectionPage() {
-  await requireAdmin();
+  await requireAdmin("selections:write");
   return <ProductSheetApp />;
 }
 
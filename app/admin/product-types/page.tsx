@@ -3,7 +3,9 @@
 import { useEffect, useState } from "react";
 import toast, { Toaster } from "react-hot-toast";
 
-type ProductType = { id: string; name: string };
+import { ATTRIBUTE_TYPES, type AttributeField } from "@/lib/product-attributes";
+
+type ProductType = { id: string; name: string; attributeSchema: AttributeField[] };
 
 export default function ProductTypesPage() {
   const [types, setTypes] = useState<ProductType[]>([]);
@@ -11,6 +13,7 @@ export default function ProductTypesPage() {
   const [loading, setLoading] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
+  const [schemaId, setSchemaId] = useState<string | null>(null);
 
   const loadTypes = async () => {
     try {
@@ -145,48 +148,72 @@ export default function ProductTypesPage() {
           ) : (
             <ul className="divide-y divide-slate-100">
               {types.map((t) => (
-                <li key={t.id} className="px-4 py-3 flex items-center gap-3">
-                  {editingId === t.id ? (
-                    <>
-                      <input
-                        className="flex-1 rounded border border-slate-300 px-2 py-1 text-sm focus:ring-2 focus:ring-amber-500"
-                        value={editName}
-                        onChange={(e) => setEditName(e.target.value)}
-                        autoFocus
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") saveEdit(t.id);
-                          if (e.key === "Escape") cancelEdit();
-                        }}
-                      />
-                      <button
-                        onClick={() => saveEdit(t.id)}
-                        className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200"
-                      >
-                        Save
-                      </button>
-                      <button
-                        onClick={cancelEdit}
-                        className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
-                      >
-                        Cancel
-                      </button>
-                    </>
-                  ) : (
-                    <>
-                      <span className="flex-1 text-sm text-slate-800">{t.name}</span>
-                      <button
-                        onClick={() => startEdit(t)}
-                        className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDelete(t.id, t.name)}
-                        className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded hover:bg-red-100"
-                      >
-                        Delete
-                      </button>
-                    </>
+                <li key={t.id} className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    {editingId === t.id ? (
+                      <>
+                        <input
+                          className="flex-1 rounded border border-slate-300 px-2 py-1 text-sm focus:ring-2 focus:ring-amber-500"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          autoFocus
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") saveEdit(t.id);
+                            if (e.key === "Escape") cancelEdit();
+                          }}
+                        />
+                        <button
+                          onClick={() => saveEdit(t.id)}
+                          className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={cancelEdit}
+                          className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <span className="flex-1 text-sm text-slate-800">
+                          {t.name}
+                          {t.attributeSchema.length > 0 && (
+                            <span className="ml-2 text-xs text-slate-400">
+                              {t.attributeSchema.map((field) => field.label).join(", ")}
+                            </span>
+                          )}
+                        </span>
+                        <button
+                          onClick={() => setSchemaId(schemaId === t.id ? null : t.id)}
+                          className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                        >
+                          Attributes
+                        </button>
+                        <button
+                          onClick={() => startEdit(t)}
+                          className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(t.id, t.name)}
+                          className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded hover:bg-red-100"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {schemaId === t.id && (
+                    <SchemaEditor
+                      type={t}
+                      onSaved={() => {
+                        setSchemaId(null);
+                        loadTypes();
+                      }}
+                    />
                   )}
                 </li>
               ))}
@@ -202,3 +229,126 @@ export default function ProductTypesPage() {
   );
 }
 
+
+type DraftField = Omit<AttributeField, "options"> & { options: string };
+
+// Edits the attributes products of this type carry, e.g. width, height and
+// mounting type for basins. Product forms render their inputs from this.
+function SchemaEditor({ type, onSaved }: { type: ProductType; onSaved: () => void }) {
+  const [fields, setFields] = useState<DraftField[]>(
+    type.attributeSchema.map((field) => ({ ...field, options: (field.options ?? []).join(", ") }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const update = (index: number, changes: Partial<DraftField>) => {
+    setFields((prev) => prev.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/product-types/${type.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: type.name,
+          attributeSchema: fields.map((field) => ({
+            ...field,
+            options: field.options.split(",").map((option) => option.trim()),
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save attributes");
+      } else {
+        toast.success("Attributes saved");
+        onSaved();
+      }
+    } catch {
+      toast.error("Failed to save attributes");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "rounded border border-slate-300 px-2 py-1 text-xs";
+
+  return (
+    <div className="mt-3 bg-slate-50 border border-slate-200 rounded p-3 space-y-2">
+      {fields.length === 0 && (
+        <p className="text-xs text-slate-400">No attributes yet. Add fields like Width, Mounting type or Sheen.</p>
+      )}
+      {fields.map((field, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <input
+            className={`${inputClass} flex-1 min-w-[120px]`}
+            placeholder="Name (e.g. Width)"
+            value={field.label}
+            onChange={(e) => update(i, { label: e.target.value })}
+          />
+          <select
+            className={inputClass}
+            value={field.type}
+            onChange={(e) => update(i, { type: e.target.value as AttributeField["type"] })}
+          >
+            {ATTRIBUTE_TYPES.map((attributeType) => (
+              <option key={attributeType} value={attributeType}>
+                {attributeType}
+              </option>
+            ))}
+          </select>
+          {field.type === "select" ? (
+            <input
+              className={`${inputClass} flex-1 min-w-[120px]`}
+              placeholder="Options, comma-separated"
+              value={field.options}
+              onChange={(e) => update(i, { options: e.target.value })}
+            />
+          ) : (
+            <input
+              className={`${inputClass} w-20`}
+              placeholder="Unit"
+              value={field.unit ?? ""}
+              onChange={(e) => update(i, { unit: e.target.value })}
+            />
+          )}
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={!!field.required}
+              onChange={(e) => update(i, { required: e.target.checked })}
+            />
+            Required
+          </label>
+          <button
+            onClick={() => setFields((prev) => prev.filter((_, j) => j !== i))}
+            className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() =>
+            setFields((prev) => [...prev, { key: "", label: "", type: "text", options: "" }])
+          }
+          className="px-2 py-1 text-xs bg-white border border-slate-300 text-slate-600 rounded hover:bg-slate-100"
+        >
+          + Add field
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-2 py-1 text-xs bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save attributes"}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Changing a field&apos;s name keeps its stored values; removing a field hides them.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { findValidAccountToken } from "@/lib/account-tokens";
+import { MIN_PASSWORD_LENGTH } from "@/lib/passwords";
+import ResetPasswordForm from "./reset-password-form";
+
+export const dynamic = "force-dynamic";
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const record = await findValidAccountToken(token);
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
+        {record && token ? (
+          <>
+            <div className="space-y-1">
+              <h1 className="text-xl font-semibold text-slate-900">
+                {record.purpose === "invite" ? "Welcome to PdCon Admin" : "Choose a New Password"}
+              </h1>
+              <p className="text-sm text-slate-500">
+                Set a password for <strong>{record.user.username}</strong>. It must be at
+                least {MIN_PASSWORD_LENGTH} characters.
+              </p>
+            </div>
+            <ResetPasswordForm token={token} />
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold text-slate-900">Link Expired</h1>
+            <p className="text-sm text-slate-500">
+              This link is invalid, has already been used, or has expired.
+            </p>
+            <a href="/admin/forgot-password" className="text-sm text-blue-600 hover:underline">
+              Request a new link
+            </a>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
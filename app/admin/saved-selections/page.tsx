@@ -19,6 +19,7 @@ type SavedSelection = {
     description: string;
   }>;
   status: string;
+  createdBy: { username: string } | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -191,6 +192,9 @@ export default function SavedSelectionsPage() {
                   </div>
                   <div className="flex items-center gap-2 text-xs text-slate-400">
                     <span>Last updated: {formatDate(selection.updatedAt)}</span>
+                    {selection.createdBy && (
+                      <span>· Created by {selection.createdBy.username}</span>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,201 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+type ActiveSession = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  userId: string;
+  username: string;
+  current: boolean;
+};
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadSessions = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/sessions", { cache: "no-store" });
+      const data = await res.json();
+      setSessions(data.sessions || []);
+      setCanManage(Boolean(data.canManage));
+    } catch {
+      toast.error("Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const revoke = async (session: ActiveSession) => {
+    const label = session.current ? "your current session" : `this session for ${session.username}`;
+    if (!confirm(`Revoke ${label}?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/sessions/${encodeURIComponent(session.id)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to revoke session");
+        return;
+      }
+      if (session.current) {
+        router.push("/admin");
+        router.refresh();
+        return;
+      }
+      toast.success("Session revoked");
+      loadSessions();
+    } catch {
+      toast.error("Failed to revoke session");
+    }
+  };
+
+  const revokeAll = async (query: string, message: string, signsOut: boolean) => {
+    if (!confirm(message)) return;
+
+    try {
+      const res = await fetch(`/api/admin/sessions${query}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to revoke sessions");
+        return;
+      }
+      if (signsOut) {
+        router.push("/admin");
+        router.refresh();
+        return;
+      }
+      toast.success(`Revoked ${data.revoked} session(s)`);
+      loadSessions();
+    } catch {
+      toast.error("Failed to revoke sessions");
+    }
+  };
+
+  const currentUserId = sessions.find((s) => s.current)?.userId;
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-AU", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <Toaster />
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-slate-900">Active Sessions</h1>
+          <a href="/admin/account" className="text-sm text-blue-600 hover:underline">
+            ← Back to Account
+          </a>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() =>
+              revokeAll("", "Log out of every device, including this one?", true)
+            }
+            className="rounded bg-red-600 text-white px-4 py-2 text-sm font-medium hover:bg-red-700"
+          >
+            Log out everywhere
+          </button>
+          {canManage && (
+            <button
+              onClick={() =>
+                revokeAll(
+                  "?all=true",
+                  "Revoke every session for every user except this one?",
+                  false
+                )
+              }
+              className="rounded border border-red-200 text-red-600 px-4 py-2 text-sm font-medium hover:bg-red-50"
+            >
+              Revoke all other sessions
+            </button>
+          )}
+        </div>
+
+        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              Loading sessions...
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              No active sessions.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {sessions.map((s) => (
+                <li key={s.id} className="px-4 py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-slate-800">
+                        {s.username}
+                      </span>
+                      {s.current && (
+                        <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 truncate">
+                      {s.ipAddress || "Unknown IP"} · {s.userAgent || "Unknown browser"}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Signed in {formatDate(s.createdAt)} · Last active{" "}
+                      {formatDate(s.lastSeenAt)}
+                    </p>
+                  </div>
+                  {canManage && !s.current && (
+                    <button
+                      onClick={() =>
+                        revokeAll(
+                          `?userId=${encodeURIComponent(s.userId)}`,
+                          `Log ${s.username} out of every device?`,
+                          s.userId === currentUserId
+                        )
+                      }
+                      className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                    >
+                      Revoke all for user
+                    </button>
+                  )}
+                  <button
+                    onClick={() => revoke(s)}
+                    className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded hover:bg-red-100"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400">
+          Sessions end after 12 hours without activity, and after 7 days regardless.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import toast, { Toaster } from "react-hot-toast";
+import { DEFAULT_HEADER_ALIASES } from "@/lib/supplier-columns";
 
 type ColumnMapping = {
   column: number;
@@ -16,6 +17,7 @@ type Supplier = {
   columnMappings: ColumnMapping[];
   startRow: number;
   hasHeaderRow: boolean;
+  headerAliases: Record<string, string[]>;
   createdAt: string;
 };
 
@@ -45,6 +47,8 @@ export default function SuppliersPage() {
   const [mappings, setMappings] = useState<ColumnMapping[]>([]);
   const [startRow, setStartRow] = useState(2);
   const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  // Extra header names per field, comma-separated while editing
+  const [headerAliases, setHeaderAliases] = useState<Record<string, string>>({});
 
   useEffect(() => {
     fetchSuppliers();
@@ -80,6 +84,7 @@ export default function SuppliersPage() {
     setMappings([]);
     setStartRow(2);
     setHasHeaderRow(true);
+    setHeaderAliases({});
     setEditingSupplier(null);
     setShowForm(false);
   };
@@ -91,6 +96,11 @@ export default function SuppliersPage() {
     setColumnCount(supplier.columnMappings.length || 5);
     setStartRow(supplier.startRow);
     setHasHeaderRow(supplier.hasHeaderRow);
+    setHeaderAliases(
+      Object.fromEntries(
+        Object.entries(supplier.headerAliases || {}).map(([field, aliases]) => [field, aliases.join(", ")])
+      )
+    );
     setShowForm(true);
   };
 
@@ -140,6 +150,7 @@ export default function SuppliersPage() {
           columnMappings: mappings.filter((m) => m.field !== "skip"),
           startRow,
           hasHeaderRow,
+          headerAliases,
         }),
       });
 
@@ -297,11 +308,43 @@ export default function SuppliersPage() {
                     className="w-4 h-4 text-amber-500 border-stone-300 rounded focus:ring-amber-500"
                   />
                   <label htmlFor="hasHeader" className="text-sm text-stone-700">
-                    First row is a header (skip it)
+                    Tables have a header row (match columns by header text)
                   </label>
                 </div>
               </div>
 
+              {/* Header Aliases */}
+              {hasHeaderRow && (
+                <div>
+                  <label className="block text-sm font-medium text-stone-700 mb-1">
+                    Header Names
+                  </label>
+                  <p className="text-xs text-stone-500 mb-3">
+                    Columns are found by their header text, so reordered or added columns still
+                    import. Add this supplier&apos;s own header names, comma-separated. The column
+                    mappings above are used when no header row matches.
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {MAPPABLE_FIELDS.filter((field) => field.value in DEFAULT_HEADER_ALIASES).map(
+                      (field) => (
+                        <div key={field.value}>
+                          <label className="block text-xs text-stone-500 mb-1">{field.label}</label>
+                          <input
+                            type="text"
+                            value={headerAliases[field.value] || ""}
+                            onChange={(e) =>
+                              setHeaderAliases((prev) => ({ ...prev, [field.value]: e.target.value }))
+                            }
+                            placeholder={DEFAULT_HEADER_ALIASES[field.value].slice(0, 3).join(", ")}
+                            className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                          />
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex gap-3 pt-4 border-t border-stone-200">
                 <Button
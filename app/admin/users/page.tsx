@@ -0,0 +1,380 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { ROLES } from "@/lib/permissions";
+
+type AdminUser = {
+  id: string;
+  createdAt: string;
+  username: string;
+  email: string | null;
+  name: string | null;
+  role: string;
+  disabled: boolean;
+  totpEnabled: boolean;
+  lastLoginAt: string | null;
+};
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("viewer");
+  const [loading, setLoading] = useState(false);
+  const [issuedPassword, setIssuedPassword] = useState<{
+    username: string;
+    password: string;
+  } | null>(null);
+
+  const loadUsers = async () => {
+    try {
+      const res = await fetch("/api/admin/users", { cache: "no-store" });
+      const data = await res.json();
+      setUsers(data.users || []);
+    } catch {
+      toast.error("Failed to load users");
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          username: username.trim(),
+          email: email.trim(),
+          name: name.trim(),
+          role,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to invite user");
+      } else {
+        if (data.invited) {
+          toast.success(`Invite emailed to ${data.user.email}`);
+        } else if (data.inviteError) {
+          toast.error(`User created, but the invite email failed: ${data.inviteError}`);
+        } else {
+          toast.success("User invited");
+          setIssuedPassword({
+            username: data.user.username,
+            password: data.temporaryPassword,
+          });
+        }
+        setUsername("");
+        setEmail("");
+        setName("");
+        setRole("viewer");
+        loadUsers();
+      }
+    } catch {
+      toast.error("Failed to invite user");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleDisabled = async (user: AdminUser) => {
+    const action = user.disabled ? "Enable" : "Disable";
+    if (!confirm(`${action} "${user.username}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ disabled: !user.disabled }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || `Failed to ${action.toLowerCase()} user`);
+      } else {
+        toast.success(`User ${user.disabled ? "enabled" : "disabled"}`);
+        loadUsers();
+      }
+    } catch {
+      toast.error(`Failed to ${action.toLowerCase()} user`);
+    }
+  };
+
+  const updateRole = async (user: AdminUser, newRole: string) => {
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role: newRole }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update role");
+      } else {
+        toast.success("Role updated");
+      }
+      loadUsers();
+    } catch {
+      toast.error("Failed to update role");
+    }
+  };
+
+  const resetTwoFactor = async (user: AdminUser) => {
+    if (!confirm(`Turn off two-factor authentication for "${user.username}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resetTwoFactor: true }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to reset 2FA");
+      } else {
+        toast.success("Two-factor authentication turned off");
+        loadUsers();
+      }
+    } catch {
+      toast.error("Failed to reset 2FA");
+    }
+  };
+
+  const resetPassword = async (user: AdminUser) => {
+    if (!confirm(`Reset the password for "${user.username}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/reset-password`, {
+        method: "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to reset password");
+      } else {
+        setIssuedPassword({
+          username: user.username,
+          password: data.temporaryPassword,
+        });
+      }
+    } catch {
+      toast.error("Failed to reset password");
+    }
+  };
+
+  const sendLink = async (user: AdminUser) => {
+    const what = user.lastLoginAt ? "a password reset link" : "a new invite";
+    if (!confirm(`Email ${what} to ${user.email}?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/send-link`, {
+        method: "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to send email");
+      } else {
+        toast.success(data.purpose === "invite" ? "Invite sent" : "Reset link sent");
+      }
+    } catch {
+      toast.error("Failed to send email");
+    }
+  };
+
+  const formatDate = (dateStr: string | null) =>
+    dateStr
+      ? new Date(dateStr).toLocaleString("en-AU", {
+          day: "2-digit",
+          month: "short",
+          year: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : "Never";
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-8 px-4">
+      <Toaster />
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-slate-900">Manage Users</h1>
+          <a href="/admin" className="text-sm text-blue-600 hover:underline">
+            ← Back to Admin
+          </a>
+        </div>
+
+        {/* Invite User */}
+        <form
+          onSubmit={handleInvite}
+          className="bg-white border border-slate-200 rounded-lg p-3 grid grid-cols-1 sm:grid-cols-5 gap-2"
+        >
+          <input
+            className="rounded border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            placeholder="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <input
+            className="rounded border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            placeholder="Full name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            type="email"
+            className="rounded border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            placeholder="Email (sends an invite link)"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <select
+            className="rounded border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+          >
+            {ROLES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="rounded bg-amber-500 text-white px-4 py-2 text-sm font-medium hover:bg-amber-600 disabled:opacity-50"
+            disabled={loading || !username.trim()}
+          >
+            Invite
+          </button>
+        </form>
+
+        {/* One-time password notice */}
+        {issuedPassword && (
+          <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-amber-800">
+              Temporary password for <strong>{issuedPassword.username}</strong>.
+              Share it securely - it will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 bg-white border border-amber-200 rounded px-3 py-2 text-sm font-mono">
+                {issuedPassword.password}
+              </code>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(issuedPassword.password);
+                  toast.success("Copied");
+                }}
+                className="px-3 py-2 text-xs bg-white border border-amber-300 text-amber-700 rounded hover:bg-amber-100"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => setIssuedPassword(null)}
+                className="px-3 py-2 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Users List */}
+        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+          {users.length === 0 ? (
+            <div className="px-4 py-8 text-center text-slate-500 text-sm">
+              No users yet.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {users.map((u) => (
+                <li key={u.id} className="px-4 py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-slate-800">
+                        {u.username}
+                      </span>
+                      {u.totpEnabled && (
+                        <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                          2FA
+                        </span>
+                      )}
+                      {u.disabled && (
+                        <span className="text-xs bg-red-50 text-red-600 px-2 py-0.5 rounded">
+                          Disabled
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 truncate">
+                      {[u.name, u.email].filter(Boolean).join(" · ") || "—"}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Last login: {formatDate(u.lastLoginAt)}
+                    </p>
+                  </div>
+                  <select
+                    className="rounded border border-slate-300 px-2 py-1 text-xs focus:ring-2 focus:ring-amber-500"
+                    value={u.role}
+                    onChange={(e) => updateRole(u, e.target.value)}
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r.value} value={r.value}>
+                        {r.label}
+                      </option>
+                    ))}
+                  </select>
+                  {u.totpEnabled && (
+                    <button
+                      onClick={() => resetTwoFactor(u)}
+                      className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                    >
+                      Reset 2FA
+                    </button>
+                  )}
+                  {u.email && !u.disabled && (
+                    <button
+                      onClick={() => sendLink(u)}
+                      className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                    >
+                      {u.lastLoginAt ? "Email reset link" : "Resend invite"}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => resetPassword(u)}
+                    className="px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                  >
+                    Reset password
+                  </button>
+                  <button
+                    onClick={() => toggleDisabled(u)}
+                    className={`px-2 py-1 text-xs rounded ${
+                      u.disabled
+                        ? "bg-green-100 text-green-700 hover:bg-green-200"
+                        : "bg-red-50 text-red-600 hover:bg-red-100"
+                    }`}
+                  >
+                    {u.disabled ? "Enable" : "Disable"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400">
+          Viewers can browse the catalog and selections. Selectors can also build and
+          generate selections. Catalog admins can edit products, types, areas and
+          suppliers. Admins can also manage users. Users invited with an email address
+          get a link to choose their own password; without one, a temporary password
+          is shown here instead. Disabled users are signed out immediately and cannot
+          log in until re-enabled.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -1,12 +1,18 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import toast, { Toaster } from "react-hot-toast";
 import { SearchableDropdown } from "@/components/ui/searchable-dropdown";
+import { formatPrice, otherGstPrice } from "@/lib/pricing";
+import type { AttributeField } from "@/lib/product-attributes";
+import { variantLabel } from "@/lib/product-variants";
+
+import { AttributeFields } from "../attribute-fields";
 
 type ProductType = {
   id: string;
   name: string;
+  attributeSchema?: AttributeField[];
 };
 
 type Product = {
@@ -20,24 +26,105 @@ type Product = {
   keywords: string | null;
   typeId: string | null;
   type: ProductType | null;
+  suppliers?: SupplierListing[];
+  costPrice: string | null;
+  sellPrice: string | null;
+  gstInclusive: boolean;
+  gstFree: boolean;
+  prices?: Array<{ costPrice: string | null; sellPrice: string | null; createdAt: string }>;
+  images?: ProductImage[];
+  parent?: { id: string; code: string; description: string } | null;
+  variants?: Array<{ id: string; code: string; finish: string | null; colour: string | null; size: string | null }>;
+  finish: string | null;
+  colour: string | null;
+  size: string | null;
+  attributes: Record<string, unknown> | null;
+  createdBy?: { username: string } | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ProductImage = {
+  id: string;
+  url: string;
+  thumbnailUrl: string | null;
+  altText: string | null;
+  isPrimary: boolean;
+};
+
+type SupplierListing = {
+  id: string;
+  supplierSku: string;
+  costPrice: string | null;
+  leadTimeDays: number | null;
+  preferred: boolean;
+  supplier: { id: string; name: string };
+};
+
+type PriceEntry = {
+  id: string;
   createdAt: string;
+  costPrice: string | null;
+  sellPrice: string | null;
+  gstInclusive: boolean;
+  gstFree: boolean;
+  source: string;
+  supplier: { id: string; name: string } | null;
+  createdBy: { username: string } | null;
+};
+
+const PRICE_FIELDS = ["costPrice", "sellPrice", "gstInclusive", "gstFree"];
+
+type SearchFacets = {
+  types: Array<{ id: string | null; name: string; count: number }>;
+  brands: Array<{ value: string; count: number }>;
+  suppliers: Array<{ id: string | null; name: string; count: number }>;
 };
 
+const SORT_OPTIONS = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "code", label: "Code" },
+  { value: "description", label: "Description" },
+];
+
 export default function ViewProductsPage() {
   const [products, setProducts] = useState<Product[]>([]);
   const [productTypes, setProductTypes] = useState<ProductType[]>([]);
   const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<SearchFacets>({ types: [], brands: [], suppliers: [] });
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [savingField, setSavingField] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [brandFilter, setBrandFilter] = useState("");
+  const [supplierFilter, setSupplierFilter] = useState("");
+  const [sort, setSort] = useState("newest");
+  // Ignores responses to searches that have since been replaced
+  const requestRef = useRef(0);
 
   const pageSize = 50;
 
   useEffect(() => {
     loadProductTypes();
-    loadProducts();
-  }, [page]);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Best match only makes sense with a query, so switch sorts with it
+  useEffect(() => {
+    setSort((prev) =>
+      query && prev === "newest" ? "relevance" : !query && prev === "relevance" ? "newest" : prev
+    );
+  }, [query]);
 
   const loadProductTypes = async () => {
     try {
@@ -51,25 +138,62 @@ export default function ViewProductsPage() {
     }
   };
 
-  const loadProducts = async () => {
-    setLoading(true);
-    try {
-      const res = await fetch(`/api/admin/products/list?page=${page}&pageSize=${pageSize}`);
-      const data = await res.json();
-      
-      if (data.products) {
-        setProducts((prev) => (page === 1 ? data.products : [...prev, ...data.products]));
-        setHasMore(data.products.length === pageSize);
-      }
-    } catch (error) {
-      toast.error("Failed to load products");
-    } finally {
-      setLoading(false);
-    }
+  // The current search and filters, shared by the list and the export
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams({ sort });
+    if (query) params.set("q", query);
+    if (typeFilter) params.set("typeId", typeFilter);
+    if (brandFilter) params.set("brand", brandFilter);
+    if (supplierFilter) params.set("supplierId", supplierFilter);
+    return params;
+  }, [query, typeFilter, brandFilter, supplierFilter, sort]);
+
+  const exportUrl = (format: "csv" | "xlsx") => {
+    const params = filterParams();
+    params.set("format", format);
+    return `/api/admin/products/export?${params}`;
   };
 
+  const loadProducts = useCallback(
+    async (cursor: string | null) => {
+      const requestId = cursor ? requestRef.current : ++requestRef.current;
+      const params = filterParams();
+      params.set("limit", String(pageSize));
+      if (cursor) params.set("cursor", cursor);
+
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/admin/products/search?${params}`);
+        const data = await res.json();
+        if (requestId !== requestRef.current) return;
+
+        if (!res.ok) {
+          toast.error(data.error || "Failed to load products");
+          return;
+        }
+        setProducts((prev) => (cursor ? [...prev, ...data.products] : data.products));
+        setNextCursor(data.nextCursor);
+        setTotal(data.total);
+        setFacets(data.facets);
+      } catch (error) {
+        toast.error("Failed to load products");
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    },
+    [filterParams]
+  );
+
+  useEffect(() => {
+    loadProducts(null);
+  }, [loadProducts]);
+
   // Auto-save a single field
-  const saveField = async (productId: string, field: string, value: string | null) => {
+  const saveField = async (
+    productId: string,
+    field: string,
+    value: string | boolean | null | Record<string, string>
+  ) => {
     setSavingField(`${productId}-${field}`);
     try {
       const res = await fetch(`/api/admin/products/${productId}`, {
@@ -86,7 +210,21 @@ export default function ViewProductsPage() {
 
       const data = await res.json();
       setProducts((prev) =>
-        prev.map((p) => (p.id === productId ? { ...p, ...data.product } : p))
+        prev.map((p) => {
+          if (p.id !== productId) return p;
+          // The server recorded a history entry; mirror it for the trend arrow
+          const prices = PRICE_FIELDS.includes(field)
+            ? [
+                {
+                  costPrice: data.product.costPrice,
+                  sellPrice: data.product.sellPrice,
+                  createdAt: data.product.updatedAt,
+                },
+                ...(p.prices ?? []),
+              ].slice(0, 2)
+            : p.prices;
+          return { ...p, ...data.product, prices };
+        })
       );
       toast.success("Saved", { duration: 1500 });
       return true;
@@ -144,15 +282,130 @@ export default function ViewProductsPage() {
             <p className="text-sm text-slate-500">Admin</p>
             <h1 className="text-2xl font-semibold text-slate-900">View Products</h1>
             <p className="text-sm text-slate-500">
-              {products.length} products loaded{hasMore ? ", scroll to load more" : ""}.
+              Showing {products.length} of {total} products.
             </p>
           </div>
-          <a
-            href="/admin"
-            className="px-4 py-2 text-sm border border-slate-300 rounded hover:bg-white"
+          <div className="flex gap-2">
+            <a
+              href={exportUrl("csv")}
+              title="Export the products matching the current search and filters"
+              className="px-4 py-2 text-sm border border-slate-300 rounded hover:bg-white"
+            >
+              Export CSV
+            </a>
+            <a
+              href={exportUrl("xlsx")}
+              title="Export the products matching the current search and filters"
+              className="px-4 py-2 text-sm border border-slate-300 rounded hover:bg-white"
+            >
+              Export XLSX
+            </a>
+            <a
+              href="/admin"
+              className="px-4 py-2 text-sm border border-slate-300 rounded hover:bg-white"
+            >
+              Back to Admin
+            </a>
+          </div>
+        </div>
+
+        {/* Search and Filters */}
+        <div className="bg-white border border-slate-200 rounded-lg p-3 grid grid-cols-1 md:grid-cols-6 gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search code, description, brand, keywords, type..."
+            className="md:col-span-2 rounded border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="rounded border border-slate-300 px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-amber-500"
+          >
+            <option value="">All types</option>
+            {facets.types.map((t) => (
+              <option key={t.id ?? "none"} value={t.id ?? "none"}>
+                {t.name} ({t.count})
+              </option>
+            ))}
+          </select>
+          <select
+            value={brandFilter}
+            onChange={(e) => setBrandFilter(e.target.value)}
+            className="rounded border border-slate-300 px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-amber-500"
+          >
+            <option value="">All brands</option>
+            {facets.brands.map((b) => (
+              <option key={b.value} value={b.value}>
+                {b.value} ({b.count})
+              </option>
+            ))}
+          </select>
+          <select
+            value={supplierFilter}
+            onChange={(e) => setSupplierFilter(e.target.value)}
+            className="rounded border border-slate-300 px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-amber-500"
           >
-            Back to Admin
-          </a>
+            <option value="">All suppliers</option>
+            {facets.suppliers.map((s) => (
+              <option key={s.id ?? "none"} value={s.id ?? "none"}>
+                {s.name} ({s.count})
+              </option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+            className="rounded border border-slate-300 px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-amber-500"
+          >
+            {SORT_OPTIONS.filter((o) => o.value !== "relevance" || query).map((o) => (
+              <option key={o.value} value={o.value}>
+                Sort: {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Selection and bulk edit */}
+        <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center gap-3 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={products.length > 0 && products.every((p) => selectedIds.has(p.id))}
+                onChange={(e) =>
+                  setSelectedIds((prev) => {
+                    const next = new Set(prev);
+                    products.forEach((p) => (e.target.checked ? next.add(p.id) : next.delete(p.id)));
+                    return next;
+                  })
+                }
+              />
+              Select all shown
+            </label>
+            {selectedIds.size > 0 && (
+              <>
+                <span>{selectedIds.size} selected</span>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="text-xs text-slate-500 hover:text-slate-800 underline"
+                >
+                  Clear
+                </button>
+              </>
+            )}
+          </div>
+          {selectedIds.size > 0 && (
+            <BulkEditPanel
+              ids={Array.from(selectedIds)}
+              productTypes={productTypes}
+              onApplied={() => {
+                setSelectedIds(new Set());
+                loadProducts(null);
+              }}
+            />
+          )}
         </div>
 
         {/* Product Cards */}
@@ -170,6 +423,20 @@ export default function ViewProductsPage() {
               >
                 {/* Compact Row */}
                 <div className="flex items-center gap-4 p-3">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${p.code}`}
+                    checked={selectedIds.has(p.id)}
+                    onChange={(e) =>
+                      setSelectedIds((prev) => {
+                        const next = new Set(prev);
+                        if (e.target.checked) next.add(p.id);
+                        else next.delete(p.id);
+                        return next;
+                      })
+                    }
+                  />
+
                   {/* Image */}
                   <img
                     src={p.imageUrl || "/no-image.png"}
@@ -186,10 +453,40 @@ export default function ViewProductsPage() {
                           {p.brand}
                         </span>
                       )}
+                      {p.suppliers?.[0] && (
+                        <span className="text-xs text-slate-400">
+                          {p.suppliers[0].supplier.name}
+                          {p.suppliers[0].supplierSku !== p.code && ` · ${p.suppliers[0].supplierSku}`}
+                          {p.suppliers.length > 1 && ` +${p.suppliers.length - 1}`}
+                        </span>
+                      )}
+                      {p.parent ? (
+                        <span className="text-xs text-amber-700">
+                          Variant of {p.parent.code}
+                          {variantLabel(p) && ` (${variantLabel(p)})`}
+                        </span>
+                      ) : p.variants && p.variants.length > 0 ? (
+                        <span
+                          className="text-xs text-amber-700"
+                          title={p.variants
+                            .map((v) => [v.code, variantLabel(v)].filter(Boolean).join(" - "))
+                            .join("\n")}
+                        >
+                          {p.variants.length} variants
+                        </span>
+                      ) : null}
                     </div>
                     <p className="text-sm text-slate-600 truncate">{p.description}</p>
                   </div>
 
+                  {/* Prices */}
+                  <div className="w-28 flex-shrink-0 text-right">
+                    <div className="text-sm font-medium text-slate-900">
+                      {formatPrice(p.sellPrice)} <PriceTrend prices={p.prices} />
+                    </div>
+                    <div className="text-xs text-slate-400">Cost {formatPrice(p.costPrice)}</div>
+                  </div>
+
                   {/* Type Dropdown - Always Visible */}
                   <div className="w-36 flex-shrink-0">
                     <SearchableDropdown
@@ -274,10 +571,114 @@ export default function ViewProductsPage() {
                         isSaving={savingField === `${p.id}-productDetails`}
                         multiline
                       />
+
+                      {/* Cost Price */}
+                      <EditableField
+                        label="Cost Price"
+                        value={p.costPrice ?? ""}
+                        onSave={(v) => saveField(p.id, "costPrice", v || null)}
+                        isSaving={savingField === `${p.id}-costPrice`}
+                      />
+
+                      {/* Sell Price */}
+                      <EditableField
+                        label="Sell Price (RRP)"
+                        value={p.sellPrice ?? ""}
+                        onSave={(v) => saveField(p.id, "sellPrice", v || null)}
+                        isSaving={savingField === `${p.id}-sellPrice`}
+                      />
+
+                      {/* Variant */}
+                      <EditableField
+                        label="Variant of (parent code)"
+                        value={p.parent?.code ?? ""}
+                        onSave={(v) => saveField(p.id, "parentCode", v.toUpperCase())}
+                        isSaving={savingField === `${p.id}-parentCode`}
+                      />
+
+                      <EditableField
+                        label="Finish"
+                        value={p.finish ?? ""}
+                        onSave={(v) => saveField(p.id, "finish", v || null)}
+                        isSaving={savingField === `${p.id}-finish`}
+                      />
+
+                      <EditableField
+                        label="Colour"
+                        value={p.colour ?? ""}
+                        onSave={(v) => saveField(p.id, "colour", v || null)}
+                        isSaving={savingField === `${p.id}-colour`}
+                      />
+
+                      <EditableField
+                        label="Size"
+                        value={p.size ?? ""}
+                        onSave={(v) => saveField(p.id, "size", v || null)}
+                        isSaving={savingField === `${p.id}-size`}
+                      />
+
+                      {/* GST */}
+                      <div>
+                        <label className="block text-xs text-slate-500 mb-1">GST</label>
+                        <div className="flex items-center gap-4 min-h-[32px] text-sm text-slate-700">
+                          <label className="flex items-center gap-1.5">
+                            <input
+                              type="checkbox"
+                              checked={p.gstInclusive}
+                              disabled={p.gstFree}
+                              onChange={(e) => saveField(p.id, "gstInclusive", e.target.checked)}
+                            />
+                            Prices include GST
+                          </label>
+                          <label className="flex items-center gap-1.5">
+                            <input
+                              type="checkbox"
+                              checked={p.gstFree}
+                              onChange={(e) => saveField(p.id, "gstFree", e.target.checked)}
+                            />
+                            GST-free
+                          </label>
+                        </div>
+                        {p.sellPrice && !p.gstFree && (
+                          <p className="text-xs text-slate-400">
+                            Sell {formatPrice(otherGstPrice(Number(p.sellPrice), p))}{" "}
+                            {p.gstInclusive ? "ex GST" : "inc GST"}
+                          </p>
+                        )}
+                      </div>
                     </div>
 
+                    <AttributesEditor
+                      key={`${p.typeId}-${p.updatedAt}`}
+                      schema={productTypes.find((t) => t.id === p.typeId)?.attributeSchema ?? []}
+                      attributes={p.attributes}
+                      isSaving={savingField === `${p.id}-attributes`}
+                      onSave={(attributes) => saveField(p.id, "attributes", attributes)}
+                    />
+
+                    <ImageManager
+                      product={p}
+                      onChange={(imageUrl, images) =>
+                        setProducts((prev) =>
+                          prev.map((x) => (x.id === p.id ? { ...x, imageUrl, images } : x))
+                        )
+                      }
+                    />
+
+                    <SupplierListings
+                      product={p}
+                      onChange={(suppliers) =>
+                        setProducts((prev) =>
+                          prev.map((x) => (x.id === p.id ? { ...x, suppliers } : x))
+                        )
+                      }
+                    />
+
+                    <PriceHistory key={p.updatedAt} productId={p.id} />
+
                     <div className="mt-3 text-xs text-slate-400">
                       Created: {new Date(p.createdAt).toLocaleDateString()}
+                      {p.createdBy && ` by ${p.createdBy.username}`}
                     </div>
                   </div>
                 )}
@@ -292,10 +693,10 @@ export default function ViewProductsPage() {
           )}
         </div>
 
-        {hasMore && !loading && (
+        {nextCursor && !loading && (
           <div className="text-center">
             <button
-              onClick={() => setPage((p) => p + 1)}
+              onClick={() => loadProducts(nextCursor)}
               className="px-4 py-2 text-sm bg-amber-500 text-white rounded hover:bg-amber-600"
             >
               Load More
@@ -311,6 +712,738 @@ export default function ViewProductsPage() {
   );
 }
 
+type BulkPreviewRow = {
+  id: string;
+  code: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  attributeError?: string; // The new type's attributes aren't satisfied
+};
+
+const BULK_FIELD_LABELS: Record<string, string> = {
+  typeId: "Type",
+  brand: "Brand",
+  keywords: "Keywords",
+  description: "Description",
+  attributes: "Attributes",
+};
+
+// Builds one change set for the selected products, previews it with a dry
+// run, then applies it in a single transaction.
+function BulkEditPanel({
+  ids,
+  productTypes,
+  onApplied,
+}: {
+  ids: string[];
+  productTypes: ProductType[];
+  onApplied: () => void;
+}) {
+  const [form, setForm] = useState({
+    typeId: "",
+    setBrand: false,
+    brand: "",
+    addKeywords: "",
+    removeKeywords: "",
+    find: "",
+    replace: "",
+    matchCase: false,
+  });
+  const [preview, setPreview] = useState<BulkPreviewRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // A preview only holds for the selection it was made for
+  const selectionKey = ids.join(",");
+  useEffect(() => setPreview(null), [selectionKey]);
+
+  const update = (changes: Partial<typeof form>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const changes = () => ({
+    ...(form.typeId && { typeId: form.typeId }),
+    ...(form.setBrand && { brand: form.brand }),
+    ...(form.addKeywords.trim() && { addKeywords: form.addKeywords }),
+    ...(form.removeKeywords.trim() && { removeKeywords: form.removeKeywords }),
+    ...(form.find && {
+      replaceDescription: { find: form.find, replace: form.replace, matchCase: form.matchCase },
+    }),
+  });
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/admin/products/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, changes: changes(), dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Bulk edit failed");
+        return;
+      }
+      if (dryRun) {
+        setPreview(data.rows);
+      } else {
+        toast.success(`Updated ${data.changed} of ${data.matched} products`);
+        setPreview(null);
+        onApplied();
+      }
+    } catch {
+      toast.error("Bulk edit failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const show = (field: string, value: unknown) =>
+    field === "typeId"
+      ? productTypes.find((t) => t.id === value)?.name ?? "—"
+      : field === "attributes"
+        ? Object.entries((value ?? {}) as Record<string, unknown>)
+            .map(([key, v]) => `${key}: ${v}`)
+            .join(", ") || "—"
+        : String(value ?? "") || "—";
+  const blocked = preview?.filter((row) => row.attributeError) ?? [];
+
+  const inputClass = "rounded border border-slate-300 px-2 py-1 text-sm";
+
+  return (
+    <div className="space-y-3 border-t border-slate-100 pt-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+        <select
+          value={form.typeId}
+          onChange={(e) => update({ typeId: e.target.value })}
+          className={`${inputClass} bg-white`}
+        >
+          <option value="">Type: leave as is</option>
+          {productTypes.map((t) => (
+            <option key={t.id} value={t.id}>
+              Type: {t.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-slate-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={form.setBrand}
+              onChange={(e) => update({ setBrand: e.target.checked })}
+            />
+            Set brand
+          </label>
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Brand (blank clears it)"
+            value={form.brand}
+            disabled={!form.setBrand}
+            onChange={(e) => update({ brand: e.target.value })}
+          />
+        </div>
+        <div />
+        <input
+          className={inputClass}
+          placeholder="Add keywords (comma-separated)"
+          value={form.addKeywords}
+          onChange={(e) => update({ addKeywords: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Remove keywords (comma-separated)"
+          value={form.removeKeywords}
+          onChange={(e) => update({ removeKeywords: e.target.value })}
+        />
+        <div />
+        <input
+          className={inputClass}
+          placeholder="Find in description"
+          value={form.find}
+          onChange={(e) => update({ find: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Replace with"
+          value={form.replace}
+          onChange={(e) => update({ replace: e.target.value })}
+        />
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={form.matchCase}
+            onChange={(e) => update({ matchCase: e.target.checked })}
+          />
+          Match case
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => run(true)}
+          disabled={busy || Object.keys(changes()).length === 0}
+          className="px-3 py-1 text-sm border border-slate-300 rounded hover:bg-slate-50 disabled:opacity-50"
+        >
+          Preview changes
+        </button>
+        {preview && preview.length > 0 && (
+          <button
+            onClick={() => run(false)}
+            disabled={busy || blocked.length > 0}
+            className="px-3 py-1 text-sm bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50"
+          >
+            Apply to {preview.length} product{preview.length === 1 ? "" : "s"}
+          </button>
+        )}
+      </div>
+
+      {blocked.length > 0 && (
+        <div className="text-xs text-red-600 space-y-0.5">
+          {blocked.map((row) => (
+            <p key={row.id}>
+              {row.code} can&apos;t change type: {row.attributeError}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        preview.length === 0 ? (
+          <p className="text-xs text-slate-400">None of the selected products would change.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-normal pb-1">Code</th>
+                <th className="font-normal pb-1">Field</th>
+                <th className="font-normal pb-1">Before</th>
+                <th className="font-normal pb-1">After</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {preview.flatMap((row) =>
+                Object.keys(row.after).map((field) => (
+                  <tr key={`${row.id}-${field}`} className="align-top">
+                    <td className="py-0.5 pr-2 font-medium">{row.code}</td>
+                    <td className="pr-2">{BULK_FIELD_LABELS[field] ?? field}</td>
+                    <td className="pr-2 text-slate-400 line-through">{show(field, row.before[field])}</td>
+                    <td>{show(field, row.after[field])}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )
+      )}
+    </div>
+  );
+}
+
+// The product type's structured attributes, saved together
+function AttributesEditor({
+  schema,
+  attributes,
+  isSaving,
+  onSave,
+}: {
+  schema: AttributeField[];
+  attributes: Record<string, unknown> | null;
+  isSaving: boolean;
+  onSave: (attributes: Record<string, string>) => void;
+}) {
+  const initial = Object.fromEntries(
+    Object.entries(attributes ?? {}).map(([key, value]) => [key, String(value)])
+  );
+  const [draft, setDraft] = useState<Record<string, string>>(initial);
+  const dirty = schema.some((field) => (draft[field.key] ?? "") !== (initial[field.key] ?? ""));
+
+  if (schema.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-slate-500">
+          Attributes {isSaving && <span className="text-amber-500">(saving...)</span>}
+        </p>
+        {dirty && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(initial)}
+              className="text-xs px-3 py-1 rounded border border-slate-300 text-slate-600 hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={isSaving}
+              className="text-xs px-3 py-1 rounded bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+            >
+              Save attributes
+            </button>
+          </div>
+        )}
+      </div>
+      <AttributeFields
+        schema={schema}
+        values={draft}
+        onChange={(key, value) => setDraft((prev) => ({ ...prev, [key]: value }))}
+      />
+    </div>
+  );
+}
+
+// Upload, reorder, caption and pick the primary image. The primary image is
+// the one shown in lists and used by default in selection documents.
+function ImageManager({
+  product,
+  onChange,
+}: {
+  product: Product;
+  onChange: (imageUrl: string, images: ProductImage[]) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const images = product.images ?? [];
+  const base = `/api/admin/products/${product.id}/images`;
+
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || failure);
+        return;
+      }
+      onChange(data.product.imageUrl, data.images);
+      if (data.skipped) {
+        toast(`Skipped ${data.skipped} image(s) already on this product`);
+      }
+    } catch {
+      toast.error(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upload = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append("images", file));
+    send(base, { method: "POST", body: formData }, "Failed to upload images");
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const order = images.map((image) => image.id);
+    const target = index + direction;
+    [order[index], order[target]] = [order[target], order[index]];
+    send(
+      base,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order }),
+      },
+      "Failed to reorder images"
+    );
+  };
+
+  const update = (imageId: string, changes: { altText?: string; isPrimary?: boolean }) =>
+    send(
+      `${base}/${imageId}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      },
+      "Failed to update image"
+    );
+
+  const remove = (imageId: string) => {
+    if (!confirm("Delete this image?")) return;
+    send(`${base}/${imageId}`, { method: "DELETE" }, "Failed to delete image");
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-slate-500">
+          Images {busy && <span className="text-amber-500">(saving...)</span>}
+        </p>
+        <label className="text-xs px-3 py-1 rounded border border-slate-300 text-slate-600 hover:bg-white cursor-pointer">
+          + Upload
+          <input
+            type="file"
+            accept="image/*,.emf,.wmf"
+            multiple
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              upload(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {images.length === 0 ? (
+        <p className="text-xs text-slate-400">No images yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {images.map((image, i) => (
+            <div
+              key={image.id}
+              className={`w-36 bg-white border rounded overflow-hidden ${
+                image.isPrimary ? "border-amber-400" : "border-slate-200"
+              }`}
+            >
+              <div className="relative">
+                <img
+                  src={image.thumbnailUrl ?? image.url}
+                  alt={image.altText ?? ""}
+                  className="w-full h-24 object-contain"
+                />
+                {image.isPrimary && (
+                  <span className="absolute top-0 left-0 bg-amber-500 text-white text-[10px] px-1 rounded-br">
+                    Primary
+                  </span>
+                )}
+              </div>
+              <input
+                type="text"
+                defaultValue={image.altText ?? ""}
+                placeholder="Alt text"
+                onBlur={(e) => {
+                  if (e.target.value.trim() !== (image.altText ?? "")) {
+                    update(image.id, { altText: e.target.value });
+                  }
+                }}
+                className="w-full border-t border-slate-100 px-2 py-1 text-xs focus:outline-none focus:bg-amber-50"
+              />
+              <div className="flex items-center justify-between border-t border-slate-100 text-xs text-slate-500">
+                <button
+                  onClick={() => move(i, -1)}
+                  disabled={busy || i === 0}
+                  className="px-2 py-1 hover:text-slate-800 disabled:opacity-30"
+                >
+                  ◀
+                </button>
+                {!image.isPrimary && (
+                  <button
+                    onClick={() => update(image.id, { isPrimary: true })}
+                    disabled={busy}
+                    className="px-1 py-1 hover:text-amber-600"
+                  >
+                    Make primary
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(image.id)}
+                  disabled={busy}
+                  className="px-1 py-1 hover:text-red-600"
+                >
+                  ✕
+                </button>
+                <button
+                  onClick={() => move(i, 1)}
+                  disabled={busy || i === images.length - 1}
+                  className="px-2 py-1 hover:text-slate-800 disabled:opacity-30"
+                >
+                  ▶
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Who supplies the product, under which of their SKUs, at what cost. The
+// preferred supplier is listed first and shown in the product list.
+function SupplierListings({
+  product,
+  onChange,
+}: {
+  product: Product;
+  onChange: (suppliers: SupplierListing[]) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [allSuppliers, setAllSuppliers] = useState<Array<{ id: string; name: string }>>([]);
+  const [draft, setDraft] = useState({ supplierId: "", supplierSku: "", costPrice: "", leadTimeDays: "" });
+  const listings = product.suppliers ?? [];
+  const base = `/api/admin/products/${product.id}/suppliers`;
+
+  useEffect(() => {
+    fetch("/api/admin/suppliers")
+      .then((res) => res.json())
+      .then((data) => setAllSuppliers(data.suppliers || []))
+      .catch(() => setAllSuppliers([]));
+  }, []);
+
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || failure);
+        return false;
+      }
+      onChange(data.suppliers);
+      return true;
+    } catch {
+      toast.error(failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = async () => {
+    if (!draft.supplierId || !draft.supplierSku.trim()) {
+      toast.error("Pick a supplier and enter their SKU");
+      return;
+    }
+    const added = await send(
+      base,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      },
+      "Failed to add supplier"
+    );
+    if (added) setDraft({ supplierId: "", supplierSku: "", costPrice: "", leadTimeDays: "" });
+  };
+
+  const update = (listingId: string, changes: Record<string, unknown>) =>
+    send(
+      `${base}/${listingId}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      },
+      "Failed to update supplier"
+    );
+
+  const remove = (listingId: string) => {
+    if (!confirm("Remove this supplier from the product?")) return;
+    send(`${base}/${listingId}`, { method: "DELETE" }, "Failed to remove supplier");
+  };
+
+  // Saves a listing field on blur when it has changed
+  const field = (
+    listing: SupplierListing,
+    name: "supplierSku" | "costPrice" | "leadTimeDays",
+    placeholder: string
+  ) => (
+    <input
+      type="text"
+      defaultValue={listing[name] ?? ""}
+      placeholder={placeholder}
+      onBlur={(e) => {
+        if (e.target.value.trim() !== String(listing[name] ?? "")) {
+          update(listing.id, { [name]: e.target.value });
+        }
+      }}
+      className="w-full border border-slate-200 rounded px-2 py-1 text-xs focus:outline-none focus:bg-amber-50"
+    />
+  );
+
+  return (
+    <div className="mt-4">
+      <p className="text-xs text-slate-500 mb-2">
+        Suppliers {busy && <span className="text-amber-500">(saving...)</span>}
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="font-normal pb-1">Supplier</th>
+            <th className="font-normal pb-1">Supplier SKU</th>
+            <th className="font-normal pb-1">Cost</th>
+            <th className="font-normal pb-1">Lead time (days)</th>
+            <th className="font-normal pb-1"></th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-700">
+          {listings.map((listing) => (
+            // Remount after saves so the inputs show what was stored
+            <tr key={`${listing.id}-${listing.supplierSku}-${listing.costPrice}-${listing.leadTimeDays}`}>
+              <td className="py-0.5 pr-2">
+                {listing.supplier.name}
+                {listing.preferred && (
+                  <span className="ml-1 text-[10px] bg-amber-500 text-white px-1 rounded">Preferred</span>
+                )}
+              </td>
+              <td className="pr-2">{field(listing, "supplierSku", "SKU")}</td>
+              <td className="pr-2">{field(listing, "costPrice", "Cost")}</td>
+              <td className="pr-2">{field(listing, "leadTimeDays", "Days")}</td>
+              <td className="whitespace-nowrap text-slate-500">
+                {!listing.preferred && (
+                  <button
+                    onClick={() => update(listing.id, { preferred: true })}
+                    disabled={busy}
+                    className="px-1 hover:text-amber-600"
+                  >
+                    Make preferred
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(listing.id)}
+                  disabled={busy}
+                  className="px-1 hover:text-red-600"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="pt-1 pr-2">
+              <select
+                value={draft.supplierId}
+                onChange={(e) => setDraft({ ...draft, supplierId: e.target.value })}
+                className="w-full border border-slate-200 rounded px-1 py-1 text-xs"
+              >
+                <option value="">Add supplier...</option>
+                {allSuppliers
+                  .filter((s) => !listings.some((listing) => listing.supplier.id === s.id))
+                  .map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+              </select>
+            </td>
+            {(["supplierSku", "costPrice", "leadTimeDays"] as const).map((name) => (
+              <td key={name} className="pt-1 pr-2">
+                <input
+                  type="text"
+                  value={draft[name]}
+                  onChange={(e) => setDraft({ ...draft, [name]: e.target.value })}
+                  placeholder={name === "supplierSku" ? product.code : ""}
+                  className="w-full border border-slate-200 rounded px-2 py-1 text-xs"
+                />
+              </td>
+            ))}
+            <td className="pt-1">
+              <button
+                onClick={add}
+                disabled={busy}
+                className="text-xs px-3 py-1 rounded border border-slate-300 text-slate-600 hover:bg-white"
+              >
+                Add
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Arrow showing whether the latest price change went up or down
+function PriceTrend({ prices }: { prices?: Product["prices"] }) {
+  if (!prices || prices.length < 2) return null;
+  const [latest, previous] = prices;
+  const key = latest.sellPrice !== null && previous.sellPrice !== null ? "sellPrice" : "costPrice";
+  if (latest[key] === null || previous[key] === null) return null;
+
+  const change = Number(latest[key]) - Number(previous[key]);
+  if (change === 0) return null;
+  return (
+    <span
+      className={change > 0 ? "text-red-500" : "text-green-600"}
+      title={`${key === "sellPrice" ? "Sell" : "Cost"} price was ${formatPrice(previous[key])}`}
+    >
+      {change > 0 ? "▲" : "▼"}
+    </span>
+  );
+}
+
+// Price history chart and table for the expanded panel
+function PriceHistory({ productId }: { productId: string }) {
+  const [prices, setPrices] = useState<PriceEntry[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/products/${productId}/prices`)
+      .then((res) => res.json())
+      .then((data) => setPrices(data.prices || []))
+      .catch(() => setPrices([]));
+  }, [productId]);
+
+  if (prices === null) {
+    return <div className="mt-4 text-xs text-slate-400">Loading price history...</div>;
+  }
+  if (prices.length === 0) {
+    return <div className="mt-4 text-xs text-slate-400">No price history yet.</div>;
+  }
+
+  // Oldest first for the chart
+  const points = [...prices].reverse();
+  const values = points.flatMap((e) => [e.costPrice, e.sellPrice]).filter((v) => v !== null).map(Number);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = 240;
+  const height = 48;
+  const line = (field: "costPrice" | "sellPrice") =>
+    points
+      .map((e, i) => {
+        if (e[field] === null) return null;
+        const x = points.length === 1 ? width / 2 : (i / (points.length - 1)) * width;
+        const y = max === min ? height / 2 : height - ((Number(e[field]) - min) / (max - min)) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .filter(Boolean)
+      .join(" ");
+
+  return (
+    <div className="mt-4 flex flex-col md:flex-row gap-4">
+      <div>
+        <p className="text-xs text-slate-500 mb-1">Price trend</p>
+        <svg width={width} height={height} className="overflow-visible">
+          <polyline points={line("sellPrice")} fill="none" stroke="#f59e0b" strokeWidth={2} />
+          <polyline points={line("costPrice")} fill="none" stroke="#94a3b8" strokeWidth={2} />
+        </svg>
+        <p className="text-xs text-slate-400 mt-1">
+          <span className="text-amber-500">■</span> Sell{" "}
+          <span className="text-slate-400">■</span> Cost
+        </p>
+      </div>
+      <table className="flex-1 text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="font-normal pb-1">Date</th>
+            <th className="font-normal pb-1">Cost</th>
+            <th className="font-normal pb-1">Sell</th>
+            <th className="font-normal pb-1">Source</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-700">
+          {prices.slice(0, 8).map((e) => (
+            <tr key={e.id}>
+              <td className="py-0.5">{new Date(e.createdAt).toLocaleDateString()}</td>
+              <td>{formatPrice(e.costPrice)}</td>
+              <td>
+                {formatPrice(e.sellPrice)}
+                {e.gstFree ? " (GST-free)" : e.gstInclusive ? " inc GST" : ""}
+              </td>
+              <td className="text-slate-500">
+                {e.source === "import" ? "Import" : "Edit"}
+                {e.supplier && ` · ${e.supplier.name}`}
+                {e.createdBy && ` · ${e.createdBy.username}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // Inline editable field component
 function EditableField({
   label,
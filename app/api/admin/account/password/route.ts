@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { getSessionFromCookies, revokeUserSessions } from "@/lib/auth";
+import { hashPassword, validatePassword, verifyPassword } from "@/lib/passwords";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/account/password - Change the signed-in user's password
+export async function POST(req: Request) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { currentPassword?: string; newPassword?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const passwordError = validatePassword(body.newPassword);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.adminUser.findUnique({
+      where: { id: session.userId },
+    });
+
+    if (
+      !user ||
+      !(await verifyPassword(body.currentPassword ?? "", user.passwordHash))
+    ) {
+      return NextResponse.json(
+        { error: "Current password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(body.newPassword as string) },
+    });
+    // Sign out other devices that may have known the old password
+    await revokeUserSessions(user.id, { exceptSessionId: session.sessionId });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error changing password:", error);
+    return NextResponse.json(
+      { error: "Failed to change password", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+
+import { getSessionFromCookies } from "@/lib/auth";
+import { verifyPassword } from "@/lib/passwords";
+import { prisma } from "@/lib/prisma";
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "@/lib/totp";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/account/two-factor - Start enrolment with a fresh secret
+export async function POST() {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.adminUser.findUnique({
+      where: { id: session.userId },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (user.totpEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    // Stored but inactive until confirmed with a valid code
+    const secret = generateTotpSecret();
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    const otpauthUri = buildOtpAuthUri(secret, user.username);
+    const qrCode = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 });
+
+    return NextResponse.json({ secret, otpauthUri, qrCode });
+  } catch (error: any) {
+    console.error("Error starting two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/account/two-factor - Confirm enrolment and issue recovery codes
+export async function PUT(req: Request) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { code?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.adminUser.findUnique({
+      where: { id: session.userId },
+    });
+    if (!user?.totpSecret || user.totpEnabled) {
+      return NextResponse.json(
+        { error: "Start two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    const step = verifyTotp(user.totpSecret, body.code ?? "");
+    if (step === null) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: {
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error: any) {
+    console.error("Error confirming two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/account/two-factor - Turn off 2FA (requires the current password)
+export async function DELETE(req: Request) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { password?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.adminUser.findUnique({
+      where: { id: session.userId },
+    });
+    if (!user || !(await verifyPassword(body.password ?? "", user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: {
+        totpEnabled: false,
+        totpSecret: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error disabling two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
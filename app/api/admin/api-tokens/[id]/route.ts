@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+import { getSessionFromCookies } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// DELETE /api/admin/api-tokens/[id] - Revoke a token (your own, or anyone's for user managers)
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const target = await prisma.apiToken.findUnique({ where: { id } });
+    if (!target) {
+      return NextResponse.json({ error: "API token not found" }, { status: 404 });
+    }
+
+    if (
+      target.userId !== session.userId &&
+      !hasPermission(session.role, "users:manage")
+    ) {
+      return NextResponse.json(
+        { error: "You do not have permission to do this" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.apiToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error revoking API token:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API token", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
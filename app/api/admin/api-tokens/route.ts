@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+
+import {
+  API_TOKEN_MAX_TTL_DAYS,
+  API_TOKEN_SCOPES,
+  generateApiToken,
+  isApiTokenScope,
+} from "@/lib/api-tokens";
+import { getSessionFromCookies } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Token management is cookie-only: an API token cannot mint or list tokens.
+
+const apiTokenSelect = {
+  id: true,
+  createdAt: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  userId: true,
+  user: { select: { username: true } },
+} as const;
+
+// GET /api/admin/api-tokens - List API tokens (everyone's for user managers, otherwise your own)
+export async function GET() {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = hasPermission(session.role, "users:manage");
+
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: canManage ? {} : { userId: session.userId },
+      select: apiTokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      tokens,
+      canManage,
+      currentUserId: session.userId,
+      // Only offer scopes the caller's own role grants
+      scopes: API_TOKEN_SCOPES.filter((s) => hasPermission(session.role, s.value)),
+      maxTtlDays: API_TOKEN_MAX_TTL_DAYS,
+    });
+  } catch (error: any) {
+    console.error("Error fetching API tokens:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch API tokens", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/api-tokens - Create a token for yourself; the token is only returned here
+export async function POST(req: Request) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = body?.name?.toString().trim();
+  const scopes: unknown[] = Array.isArray(body?.scopes) ? body.scopes : [];
+  const expiresInDays = Number(body?.expiresInDays);
+
+  if (!name) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+
+  if (scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+    return NextResponse.json(
+      { error: "Choose at least one valid scope" },
+      { status: 400 }
+    );
+  }
+
+  if (!scopes.every((scope) => hasPermission(session.role, scope))) {
+    return NextResponse.json(
+      { error: "You cannot grant a scope your role does not have" },
+      { status: 403 }
+    );
+  }
+
+  if (
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > API_TOKEN_MAX_TTL_DAYS
+  ) {
+    return NextResponse.json(
+      { error: `Expiry must be between 1 and ${API_TOKEN_MAX_TTL_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { token, tokenHash, prefix } = generateApiToken();
+    const apiToken = await prisma.apiToken.create({
+      data: {
+        name,
+        tokenHash,
+        prefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        userId: session.userId,
+      },
+      select: apiTokenSelect,
+    });
+
+    return NextResponse.json({ apiToken, token }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating API token:", error);
+    return NextResponse.json(
+      { error: "Failed to create API token", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
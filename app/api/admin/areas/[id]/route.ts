@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
@@ -10,10 +11,8 @@ export async function PUT(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
@@ -44,9 +43,20 @@ export async function PUT(
       );
     }
 
-    const area = await prisma.area.update({
-      where: { id },
-      data: { name },
+    const area = await prisma.$transaction(async (tx) => {
+      const updated = await tx.area.update({
+        where: { id },
+        data: { name },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "area",
+        entityId: id,
+        entityLabel: updated.name,
+        before: existing,
+        after: updated,
+      });
+      return updated;
     });
 
     return NextResponse.json({ area });
@@ -64,10 +74,8 @@ export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
@@ -79,7 +87,16 @@ export async function DELETE(
     }
 
     // Areas are now only used in product selections (per-product), so we can delete freely
-    await prisma.area.delete({ where: { id } });
+    await prisma.$transaction(async (tx) => {
+      await tx.area.delete({ where: { id } });
+      await recordAuditEvent(tx, auth.session, {
+        action: "delete",
+        entityType: "area",
+        entityId: id,
+        entityLabel: existing.name,
+        before: existing,
+      });
+    });
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
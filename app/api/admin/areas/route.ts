@@ -1,12 +1,16 @@
 import { NextResponse } from "next/server";
 
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
   try {
     const areas = await prisma.area.findMany({
       orderBy: { name: "asc" },
@@ -22,10 +26,8 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   let body: any;
   try {
@@ -51,7 +53,17 @@ export async function POST(req: Request) {
       );
     }
 
-    const area = await prisma.area.create({ data: { name } });
+    const area = await prisma.$transaction(async (tx) => {
+      const created = await tx.area.create({ data: { name } });
+      await recordAuditEvent(tx, auth.session, {
+        action: "create",
+        entityType: "area",
+        entityId: created.id,
+        entityLabel: created.name,
+        after: created,
+      });
+      return created;
+    });
     return NextResponse.json({ area });
   } catch (error: any) {
     console.error("Error creating area:", error);
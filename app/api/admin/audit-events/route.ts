@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/audit-events - Audit log of catalog, supplier and selection changes, newest first
+//   ?entityType=  ?entityId=  ?actorId=  filter the list
+//   ?q=                                  search by code or name at the time
+//   ?page=  ?pageSize=                   paginate (default 50 per page)
+export async function GET(request: Request) {
+  const auth = await requirePermission("audit:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+    const pageSize = Math.min(200, parseInt(searchParams.get("pageSize") || "50"));
+    const entityType = searchParams.get("entityType")?.trim();
+    const entityId = searchParams.get("entityId")?.trim();
+    const actorId = searchParams.get("actorId")?.trim();
+    const q = searchParams.get("q")?.trim();
+
+    const where = {
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...(actorId && { actorId }),
+      ...(q && { entityLabel: { contains: q, mode: "insensitive" as const } }),
+    };
+
+    const [events, total, actors] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.auditEvent.count({ where }),
+      prisma.adminUser.findMany({
+        where: { auditEvents: { some: {} } },
+        select: { id: true, username: true },
+        orderBy: { username: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ events, total, page, pageSize, actors });
+  } catch (error: any) {
+    console.error("Error fetching audit events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch audit events",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
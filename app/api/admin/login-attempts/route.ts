@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/login-attempts - Sign-in audit trail, newest first
+//   ?username=  ?ipAddress=  ?outcome=  filter the list
+//   ?page=  ?pageSize=       paginate (default 50 per page)
+export async function GET(request: Request) {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+    const pageSize = Math.min(200, parseInt(searchParams.get("pageSize") || "50"));
+    const username = searchParams.get("username")?.trim();
+    const ipAddress = searchParams.get("ipAddress")?.trim();
+    const outcome = searchParams.get("outcome")?.trim();
+
+    const where = {
+      ...(username && { username: { contains: username, mode: "insensitive" as const } }),
+      ...(ipAddress && { ipAddress: { startsWith: ipAddress } }),
+      ...(outcome && { outcome }),
+    };
+
+    const [attempts, total] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.loginAttempt.count({ where }),
+    ]);
+
+    return NextResponse.json({ attempts, total, page, pageSize });
+  } catch (error: any) {
+    console.error("Error fetching login attempts:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch login attempts",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,37 @@
 import { NextResponse } from "next/server";
 
-import { createSession, setSessionCookie } from "@/lib/auth";
+import { getRequestMeta, signInResponse } from "@/lib/auth";
+import {
+  getLoginRetryAfterMs,
+  recordLoginAttempt,
+  tooManyAttemptsResponse,
+} from "@/lib/login-throttle";
+import { hashPassword, verifyPassword } from "@/lib/passwords";
+import { prisma } from "@/lib/prisma";
+import { createLoginChallenge } from "@/lib/totp";
 
-export async function POST(request: Request) {
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Until the first account exists, the legacy ADMIN_USERNAME / ADMIN_PASSWORD
+// pair is accepted once and turned into a real user.
+async function bootstrapFirstUser(username: string, password: string) {
   const adminUsername = process.env.ADMIN_USERNAME;
   const adminPassword = process.env.ADMIN_PASSWORD;
 
-  if (!adminUsername || !adminPassword) {
-    return NextResponse.json(
-      { error: "Admin credentials are not configured." },
-      { status: 500 }
-    );
-  }
+  if (!adminUsername || !adminPassword) return null;
+  if (username !== adminUsername || password !== adminPassword) return null;
+
+  return prisma.adminUser.create({
+    data: {
+      username: adminUsername,
+      role: "admin",
+      passwordHash: await hashPassword(adminPassword),
+    },
+  });
+}
 
+export async function POST(request: Request) {
   let body: { username?: string; password?: string } = {};
   try {
     body = await request.json();
@@ -20,17 +39,73 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
   }
 
-  const { username, password } = body;
+  const username = body.username?.toString().trim() ?? "";
+  const password = body.password?.toString() ?? "";
 
-  if (username !== adminUsername || password !== adminPassword) {
+  if (!username || !password) {
     return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
   }
 
-  const { token, payload } = createSession(adminUsername);
-  const response = NextResponse.json({ ok: true, exp: payload.exp });
+  const meta = getRequestMeta(request);
+  const record = (
+    outcome: Parameters<typeof recordLoginAttempt>[0]["outcome"],
+    userId?: string
+  ) => recordLoginAttempt({ username, ...meta, outcome, userId });
 
-  setSessionCookie(response, token, payload.exp - Date.now());
+  try {
+    const retryAfterMs = await getLoginRetryAfterMs({
+      username,
+      ipAddress: meta.ipAddress,
+    });
+    if (retryAfterMs > 0) {
+      await record("locked_out");
+      return tooManyAttemptsResponse(retryAfterMs);
+    }
 
-  return response;
-}
+    let user = await prisma.adminUser.findUnique({ where: { username } });
+
+    if (!user && (await prisma.adminUser.count()) === 0) {
+      if (!process.env.ADMIN_USERNAME || !process.env.ADMIN_PASSWORD) {
+        return NextResponse.json(
+          { error: "Admin credentials are not configured." },
+          { status: 500 }
+        );
+      }
+      user = await bootstrapFirstUser(username, password);
+      if (!user) {
+        await record("invalid_credentials");
+        return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
+      }
+    } else if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      await record("invalid_credentials", user?.id);
+      return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
+    }
+
+    if (user.disabled) {
+      await record("disabled", user.id);
+      return NextResponse.json(
+        { error: "This account has been disabled." },
+        { status: 403 }
+      );
+    }
 
+    // The session is only created once the second factor verifies,
+    // see /api/admin/login/two-factor.
+    if (user.totpEnabled) {
+      await record("two_factor_required", user.id);
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challenge: createLoginChallenge(user.id),
+      });
+    }
+
+    await record("success", user.id);
+    return signInResponse(user, request);
+  } catch (error: any) {
+    console.error("Error signing in:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
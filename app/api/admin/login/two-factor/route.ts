@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import { getRequestMeta, signInResponse } from "@/lib/auth";
+import {
+  getLoginRetryAfterMs,
+  recordLoginAttempt,
+  tooManyAttemptsResponse,
+} from "@/lib/login-throttle";
+import { prisma } from "@/lib/prisma";
+import { hashRecoveryCode, verifyLoginChallenge, verifyTotp } from "@/lib/totp";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/login/two-factor - Second login step for users with 2FA enabled
+export async function POST(request: Request) {
+  let body: { challenge?: string; code?: string; recoveryCode?: string } = {};
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  const userId = verifyLoginChallenge(body.challenge);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Your sign-in attempt expired. Please start again.", restart: true },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const user = await prisma.adminUser.findUnique({ where: { id: userId } });
+    if (!user || user.disabled || !user.totpEnabled || !user.totpSecret) {
+      return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
+    }
+
+    const meta = getRequestMeta(request);
+    const record = (outcome: "success" | "two_factor_failed" | "locked_out") =>
+      recordLoginAttempt({ username: user.username, ...meta, outcome, userId: user.id });
+
+    const retryAfterMs = await getLoginRetryAfterMs({
+      username: user.username,
+      ipAddress: meta.ipAddress,
+    });
+    if (retryAfterMs > 0) {
+      await record("locked_out");
+      return tooManyAttemptsResponse(retryAfterMs);
+    }
+
+    if (body.recoveryCode) {
+      const hash = hashRecoveryCode(body.recoveryCode);
+      if (!user.totpRecoveryCodes.includes(hash)) {
+        await record("two_factor_failed");
+        return NextResponse.json({ error: "Invalid recovery code." }, { status: 401 });
+      }
+
+      // Recovery codes are single use. Only write if the codes are still as
+      // read, so two requests racing with the same code can't both redeem it
+      const redeemed = await prisma.adminUser.updateMany({
+        where: { id: user.id, totpRecoveryCodes: { equals: user.totpRecoveryCodes } },
+        data: {
+          totpRecoveryCodes: user.totpRecoveryCodes.filter((c) => c !== hash),
+        },
+      });
+      if (redeemed.count !== 1) {
+        await record("two_factor_failed");
+        return NextResponse.json({ error: "Invalid recovery code." }, { status: 401 });
+      }
+    } else {
+      const step = verifyTotp(user.totpSecret, body.code ?? "");
+      // Claim the step in the same write that checks it, so a code can't be
+      // replayed by a concurrent request
+      const claimed =
+        step === null
+          ? { count: 0 }
+          : await prisma.adminUser.updateMany({
+              where: {
+                id: user.id,
+                OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+              },
+              data: { totpLastUsedStep: step },
+            });
+      if (claimed.count !== 1) {
+        await record("two_factor_failed");
+        return NextResponse.json(
+          { error: "Invalid authentication code." },
+          { status: 401 }
+        );
+      }
+    }
+
+    await record("success");
+    return signInResponse(user, request);
+  } catch (error: any) {
+    console.error("Error verifying two-factor code:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,21 @@
+import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
 
-import { clearSessionCookie } from "@/lib/auth";
+import {
+  SESSION_COOKIE_NAME,
+  clearSessionCookie,
+  revokeSession,
+  verifySessionToken,
+} from "@/lib/auth";
 
 export async function POST() {
+  const cookieStore = await cookies();
+  const session = verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+  if (session) {
+    await revokeSession(session.sessionId);
+  }
+
   const response = NextResponse.json({ ok: true });
   clearSessionCookie(response);
   return response;
 }
-
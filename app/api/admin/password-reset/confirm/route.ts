@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { findValidAccountToken } from "@/lib/account-tokens";
+import { revokeUserSessions } from "@/lib/auth";
+import { hashPassword, validatePassword } from "@/lib/passwords";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/password-reset/confirm - Set a password using an emailed invite or reset token
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const token = body?.token?.toString();
+  const password = body?.password?.toString() ?? "";
+
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  try {
+    const record = await findValidAccountToken(token);
+    if (!record) {
+      return NextResponse.json(
+        { error: "This link is invalid or has expired. Ask for a new one." },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+    const used = await prisma.$transaction(async (tx) => {
+      // Claiming the token first makes a second request with it fail
+      const claimed = await tx.accountToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (claimed.count === 0) return false;
+
+      await tx.adminUser.update({
+        where: { id: record.userId },
+        data: { passwordHash },
+      });
+
+      // Any other outstanding links for this user are now stale
+      await tx.accountToken.updateMany({
+        where: { userId: record.userId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return true;
+    });
+
+    if (!used) {
+      return NextResponse.json(
+        { error: "This link has already been used." },
+        { status: 400 }
+      );
+    }
+
+    await revokeUserSessions(record.userId);
+
+    return NextResponse.json({ ok: true, username: record.user.username });
+  } catch (error: any) {
+    console.error("Error setting password from link:", error);
+    return NextResponse.json(
+      { error: "Failed to set password", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
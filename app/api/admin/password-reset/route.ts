@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+
+import { getAppUrl, sendPasswordResetEmail } from "@/lib/account-tokens";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RESETS_PER_HOUR = 3;
+
+// POST /api/admin/password-reset - Email a reset link for a username or email address.
+// Always answers the same way so it cannot be used to discover accounts.
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const identifier = body?.identifier?.toString().trim();
+  if (!identifier) {
+    return NextResponse.json(
+      { error: "Enter your username or email address" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await prisma.adminUser.findFirst({
+      where: {
+        OR: [
+          { username: identifier },
+          { email: { equals: identifier, mode: "insensitive" } },
+        ],
+      },
+      select: { id: true, username: true, email: true, disabled: true },
+    });
+
+    if (user?.email && !user.disabled) {
+      const recentResets = await prisma.accountToken.count({
+        where: {
+          userId: user.id,
+          purpose: "reset",
+          createdAt: { gte: new Date(Date.now() - 1000 * 60 * 60) },
+        },
+      });
+
+      if (recentResets < MAX_RESETS_PER_HOUR) {
+        await sendPasswordResetEmail({
+          user: { id: user.id, username: user.username, email: user.email },
+          appUrl: getAppUrl(req),
+        });
+      }
+    }
+  } catch (error: any) {
+    // Logged only; the response must not reveal whether the account exists.
+    console.error("Error sending password reset:", error);
+  }
+
+  return NextResponse.json({
+    ok: true,
+    message: "If that account has an email address, a reset link is on its way.",
+  });
+}
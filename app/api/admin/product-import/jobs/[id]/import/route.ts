@@ -0,0 +1,59 @@
+import { after, NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  ImportJobStateError,
+  markImportJobFailed,
+  queueImportRows,
+  runImportJob,
+} from "@/lib/import-jobs";
+import { InvalidImportError } from "@/lib/product-import";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// POST /api/admin/product-import/jobs/[id]/import - Import the reviewed rows of a job's file on the server
+// ({ rows: [{ rowIndex, code, supplierSku, description, ..., decision }] })
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  try {
+    const { id } = await params;
+    const job = await queueImportRows(id, body?.rows);
+    if (!job) {
+      return NextResponse.json({ error: "Import job not found" }, { status: 404 });
+    }
+
+    after(() =>
+      runImportJob(job.id, auth.session).catch((error) => markImportJobFailed(job.id, error))
+    );
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error: any) {
+    if (error instanceof InvalidImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof ImportJobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error queueing import job rows:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start import",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { after, NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  ImportJobStateError,
+  markImportJobFailed,
+  retryImportJob,
+  runImportJob,
+} from "@/lib/import-jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// POST /api/admin/product-import/jobs/[id]/retry - Resume a failed or stalled job where it stopped
+// ({ skipFailedRow? })
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const job = await retryImportJob(id, { skipFailedRow: body?.skipFailedRow === true });
+    if (!job) {
+      return NextResponse.json({ error: "Import job not found" }, { status: 404 });
+    }
+
+    after(() =>
+      runImportJob(job.id, auth.session).catch((error) => markImportJobFailed(job.id, error))
+    );
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error: any) {
+    if (error instanceof ImportJobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error retrying import job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to retry import",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { IMPORT_JOB_SELECT, isStaleImportJob } from "@/lib/import-jobs";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/product-import/jobs/[id] - A job's progress and its row-by-row results
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      select: {
+        ...IMPORT_JOB_SELECT,
+        results: {
+          orderBy: [{ rowIndex: "asc" }, { createdAt: "asc" }],
+          select: { rowIndex: true, code: true, result: true, productId: true, error: true },
+        },
+      },
+    });
+    if (!job) {
+      return NextResponse.json({ error: "Import job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job: { ...job, stale: isStaleImportJob(job) } });
+  } catch (error: any) {
+    console.error("Error fetching import job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch import job",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { StoredProductImage } from "@/lib/product-images";
+import type { ImportComparison, ImportRow } from "@/lib/product-import";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/product-import/jobs/[id]/rows - The rows read from a job's file, compared with the catalogue
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      select: { rows: { orderBy: { rowIndex: "asc" } } },
+    });
+    if (!job) {
+      return NextResponse.json({ error: "Import job not found" }, { status: 404 });
+    }
+
+    const rows = job.rows.map((row) => {
+      const image = row.image as StoredProductImage | null;
+      return {
+        rowIndex: row.rowIndex,
+        ...(row.data as ImportRow),
+        imageUrl: image ? image.thumbnailUrl ?? image.url : null,
+        ...(row.comparison as ImportComparison),
+        decision: row.decision,
+      };
+    });
+    return NextResponse.json({ rows });
+  } catch (error: any) {
+    console.error("Error fetching import job rows:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch import job rows",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
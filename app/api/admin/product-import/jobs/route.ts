@@ -0,0 +1,98 @@
+import { after, NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  createImportJob,
+  IMPORT_JOB_SELECT,
+  markImportJobFailed,
+  runImportJob,
+} from "@/lib/import-jobs";
+import { prisma } from "@/lib/prisma";
+import { checkImportFile, UnsupportedImportFileError } from "@/lib/product-extraction";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+// The job runs after the response, within this limit; a job cut off by it
+// is resumed with a retry
+export const maxDuration = 300;
+
+// GET /api/admin/product-import/jobs - List recent import jobs, newest first
+export async function GET() {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const jobs = await prisma.importJob.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      select: IMPORT_JOB_SELECT,
+    });
+    return NextResponse.json({ jobs });
+  } catch (error: any) {
+    console.error("Error fetching import jobs:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch import jobs",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/product-import/jobs - Upload a supplier file to be read on the server for review
+// (multipart: file, supplierId?)
+export async function POST(request: Request) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  try {
+    const file = formData.get("file");
+    const supplierId = formData.get("supplierId") ? String(formData.get("supplierId")) : null;
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    let supplier = null;
+    if (supplierId) {
+      supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+      if (!supplier) {
+        return NextResponse.json({ error: "Supplier not found." }, { status: 400 });
+      }
+    }
+    checkImportFile({ fileName: file.name, contentType: file.type }, supplier);
+
+    const job = await createImportJob(auth.session, {
+      supplierId,
+      file: {
+        buffer: Buffer.from(await file.arrayBuffer()),
+        fileName: file.name,
+        contentType: file.type,
+      },
+    });
+    after(() =>
+      runImportJob(job.id, auth.session).catch((error) => markImportJobFailed(job.id, error))
+    );
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error: any) {
+    if (error instanceof UnsupportedImportFileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error creating import job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start import",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
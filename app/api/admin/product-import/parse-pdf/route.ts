@@ -1,4 +1,4 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { requirePermission } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import pdfParse from "pdf-parse";
 
@@ -131,10 +131,8 @@ function parseBWAProducts(text: string): ParsedProduct[] {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   try {
     const formData = await req.formData();
@@ -1,4 +1,13 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { requirePermission } from "@/lib/auth";
+import { convertDocument } from "@/lib/document-conversion";
+import {
+  combineSideBySide,
+  renderDocumentImage,
+  type RenderedImage,
+} from "@/lib/image-processing";
+import { prisma } from "@/lib/prisma";
+import { attributeSchemaOf, formatAttributes } from "@/lib/product-attributes";
+import { variantDetails } from "@/lib/product-variants";
 import Docxtemplater from "docxtemplater";
 import ImageModule from "docxtemplater-image-module-free";
 import { NextResponse } from "next/server";
@@ -18,7 +27,11 @@ type IncomingProduct = {
   notes?: string;
   image?: string | null; // base64
   imageUrl?: string | null; // public URL to fetch
+  imageUrls?: string[] | null; // several images chosen for this line, shown side by side
   link?: string | null; // product link for hyperlink
+  finish?: string | null; // attributes of the chosen variant, listed before the details
+  colour?: string | null;
+  size?: string | null;
 };
 
 // Priority order for categories - categories not in this list will be sorted alphabetically after
@@ -33,8 +46,10 @@ const CATEGORY_PRIORITY = [
   "Other",
 ];
 
-// Will be loaded from /public/no-image.png
-let PLACEHOLDER_BASE64: string = "";
+// The template has one image slot per line; more images get too small to see
+const MAX_IMAGES_PER_LINE = 4;
+
+type DocumentImage = Pick<RenderedImage, "body" | "width" | "height">;
 
 function formatDate(input?: string) {
   const parsed = input ? new Date(input) : new Date();
@@ -47,10 +62,8 @@ function formatDate(input?: string) {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:generate");
+  if (auth.error) return auth.error;
 
   let payload: any;
   try {
@@ -89,10 +102,15 @@ export async function POST(req: Request) {
     );
   }
 
+  const MAX_WIDTH = 132;
+  const MAX_HEIGHT = 113;
+
   // Load placeholder image
+  let placeholder: DocumentImage = { body: Buffer.alloc(0), width: MAX_WIDTH, height: MAX_HEIGHT };
   const placeholderPath = path.join(process.cwd(), "public", "no-image.png");
   if (fs.existsSync(placeholderPath)) {
-    PLACEHOLDER_BASE64 = fs.readFileSync(placeholderPath).toString("base64");
+    const body = fs.readFileSync(placeholderPath);
+    placeholder = await renderDocumentImage(body).catch(() => ({ ...placeholder, body }));
   }
 
   const content = fs.readFileSync(templatePath, "binary");
@@ -107,71 +125,17 @@ export async function POST(req: Request) {
     );
   }
 
-  // Always load ImageModule (needed for placeholder images too)
-  // Helper to get image dimensions from base64
-  const getImageDimensions = (base64: string): { width: number; height: number } | null => {
-    try {
-      const buffer = Buffer.from(base64, "base64");
-      // Check for PNG
-      if (buffer[0] === 0x89 && buffer[1] === 0x50) {
-        const width = buffer.readUInt32BE(16);
-        const height = buffer.readUInt32BE(20);
-        return { width, height };
-      }
-      // Check for JPEG
-      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
-        let offset = 2;
-        while (offset < buffer.length) {
-          if (buffer[offset] !== 0xff) break;
-          const marker = buffer[offset + 1];
-          if (marker === 0xc0 || marker === 0xc2) {
-            const height = buffer.readUInt16BE(offset + 5);
-            const width = buffer.readUInt16BE(offset + 7);
-            return { width, height };
-          }
-          const segmentLength = buffer.readUInt16BE(offset + 2);
-          offset += 2 + segmentLength;
-        }
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
-  const MAX_WIDTH = 132;
-  const MAX_HEIGHT = 113;
+  // Line images are rendered before doc.render(); image tags hold a key into this map
+  const lineImages = new Map<string, DocumentImage>();
 
+  // Always load ImageModule (needed for placeholder images too)
   const imageModule = new ImageModule({
     centered: false,
-    getImage: (value: string) => {
-      if (!value || value.length < 10) {
-        // Return placeholder if no valid image
-        return PLACEHOLDER_BASE64 ? Buffer.from(PLACEHOLDER_BASE64, "base64") : Buffer.alloc(0);
-      }
-      return Buffer.from(value, "base64");
-    },
-    getSize: (imgData: ArrayBuffer | Uint8Array | Buffer, _tagValue: string, _tagName?: string) => {
-      // Try to get actual dimensions and scale proportionally
-      let buffer: Buffer;
-      if (Buffer.isBuffer(imgData)) {
-        buffer = imgData;
-      } else if (imgData instanceof Uint8Array) {
-        buffer = Buffer.from(imgData);
-      } else {
-        // ArrayBuffer
-        buffer = Buffer.from(new Uint8Array(imgData));
-      }
-      const base64 = buffer.toString("base64");
-      const dims = getImageDimensions(base64);
-      
-      if (!dims || dims.width === 0 || dims.height === 0) {
-        // Fallback to max size if we can't read dimensions
-        return [MAX_WIDTH, MAX_HEIGHT];
-      }
+    getImage: (value: string) => (lineImages.get(value) ?? placeholder).body,
+    getSize: (_img: ArrayBuffer | Uint8Array | Buffer, value: string) => {
+      const { width, height } = lineImages.get(value) ?? placeholder;
+      if (!width || !height) return [MAX_WIDTH, MAX_HEIGHT];
 
-      const { width, height } = dims;
-      
       // Calculate scale to fit within max bounds while maintaining aspect ratio
       const scaleW = MAX_WIDTH / width;
       const scaleH = MAX_HEIGHT / height;
@@ -198,27 +162,90 @@ export async function POST(req: Request) {
 
   const productsByCategory: Record<string, any[]> = {};
 
-  const fetchImageAsBase64 = async (url?: string | null): Promise<string> => {
-    if (!url) return "";
+  const fetchImage = async (url?: string | null): Promise<Buffer | null> => {
+    if (!url) return null;
     try {
       const resp = await fetch(url);
-      if (!resp.ok) return "";
-      const arrayBuffer = await resp.arrayBuffer();
-      return Buffer.from(arrayBuffer).toString("base64");
+      if (!resp.ok) return null;
+      return Buffer.from(await resp.arrayBuffer());
     } catch {
-      return "";
+      return null;
     }
   };
 
-  // Fetch all images in PARALLEL for speed
   const productList = products as IncomingProduct[];
-  const imagePromises = productList.map(async (raw) => {
+  const lineUrls = productList.map((raw) => {
+    const urls = Array.isArray(raw?.imageUrls)
+      ? raw.imageUrls.filter((u): u is string => typeof u === "string" && u.length > 0)
+      : [];
+    return (urls.length > 0 ? urls : raw?.imageUrl ? [raw.imageUrl] : []).slice(
+      0,
+      MAX_IMAGES_PER_LINE
+    );
+  });
+
+  // Catalog images uploaded since processing was added have a stored
+  // document-size rendition with known dimensions
+  const processed = new Map(
+    (
+      await prisma.productImage.findMany({
+        where: { url: { in: lineUrls.flat() }, documentUrl: { not: null } },
+        select: { url: true, documentUrl: true, documentWidth: true, documentHeight: true },
+      })
+    ).map((image) => [image.url, image])
+  );
+
+  // Structured attributes are formatted from the catalog, in the order the
+  // product's type lists them
+  const catalogAttributes = new Map(
+    (
+      await prisma.product.findMany({
+        where: { code: { in: productList.map((raw) => raw?.code || "").filter(Boolean) } },
+        select: { code: true, attributes: true, type: { select: { attributeSchema: true } } },
+      })
+    ).map((product) => [
+      product.code,
+      formatAttributes(attributeSchemaOf(product.type), product.attributes),
+    ])
+  );
+
+  // Anything else (older uploads, outside URLs, base64 from the PDF
+  // extractor) is resized and converted here
+  const documentImage = async (url: string): Promise<DocumentImage | null> => {
+    const stored = processed.get(url);
+    if (stored?.documentUrl && stored.documentWidth && stored.documentHeight) {
+      const body = await fetchImage(stored.documentUrl);
+      if (body) return { body, width: stored.documentWidth, height: stored.documentHeight };
+    }
+    const body = await fetchImage(url);
+    return body ? renderDocumentImage(body).catch(() => null) : null;
+  };
+
+  const lineImage = async (raw: IncomingProduct, urls: string[]): Promise<DocumentImage | null> => {
     if (raw?.image && raw.image.length > 10) {
-      return raw.image;
+      return renderDocumentImage(Buffer.from(raw.image, "base64")).catch(() => null);
     }
-    return await fetchImageAsBase64(raw?.imageUrl) || PLACEHOLDER_BASE64;
+
+    const images = (await Promise.all(urls.map(documentImage))).filter(
+      (image): image is DocumentImage => image !== null
+    );
+    if (images.length > 1) {
+      try {
+        return await combineSideBySide(images);
+      } catch (err) {
+        console.error("Failed to combine images, using the first:", err);
+      }
+    }
+    return images[0] ?? null;
+  };
+
+  // Fetch all images in PARALLEL for speed
+  const images = await Promise.all(
+    productList.map((raw, index) => lineImage(raw, lineUrls[index]))
+  );
+  images.forEach((image, index) => {
+    if (image) lineImages.set(`line-${index}`, image);
   });
-  const images = await Promise.all(imagePromises);
 
   // Build products with pre-fetched images
   productList.forEach((raw, index) => {
@@ -232,10 +259,16 @@ export async function POST(req: Request) {
     productsByCategory[category].push({
       code: raw?.code || "",
       description: raw?.description || "",
-      "product-details": raw?.productDetails || "",
+      "product-details": [
+        variantDetails(raw ?? {}),
+        catalogAttributes.get(raw?.code || ""),
+        raw?.productDetails,
+      ]
+        .filter(Boolean)
+        .join("\n"),
       quantity: raw?.quantity || "",
       notes: raw?.notes || "",
-      image: images[index] || "",
+      image: `line-${index}`, // Missing images fall back to the placeholder
       link: hasLink ? linkTrimmed : "",
       // Use markers so we can find and convert to hyperlinks after rendering
       linkText: hasLink ? `HYPERLINKSTART${linkTrimmed}HYPERLINKMIDProduct SheetHYPERLINKEND` : "",
@@ -385,54 +418,9 @@ export async function POST(req: Request) {
     });
   }
 
-  // For PDF, use CloudConvert API
+  // For PDF, use the configured document converter
   try {
-    const CloudConvert = (await import("cloudconvert")).default;
-    const cloudConvert = new CloudConvert(process.env.CLOUDCONVERT_API_KEY!);
-
-    // Create a job that uploads, converts, and exports
-    const job = await cloudConvert.jobs.create({
-      tasks: {
-        "upload-docx": {
-          operation: "import/upload",
-        },
-        "convert-to-pdf": {
-          operation: "convert",
-          input: "upload-docx",
-          output_format: "pdf",
-        },
-        "export-pdf": {
-          operation: "export/url",
-          input: "convert-to-pdf",
-        },
-      },
-    });
-
-    // Find the upload task and upload the docx
-    const uploadTask = job.tasks.find((t: any) => t.name === "upload-docx");
-    if (!uploadTask) {
-      throw new Error("Upload task not found");
-    }
-
-    await cloudConvert.tasks.upload(uploadTask, docxBuffer, "document.docx");
-
-    // Wait for the job to complete
-    const completedJob = await cloudConvert.jobs.wait(job.id);
-
-    // Find the export task and get the file URL
-    const exportTask = completedJob.tasks.find((t: any) => t.name === "export-pdf");
-    if (!exportTask?.result?.files?.[0]?.url) {
-      throw new Error("Export task failed or no file URL");
-    }
-
-    // Download the PDF
-    const pdfUrl = exportTask.result.files[0].url;
-    const pdfResponse = await fetch(pdfUrl);
-    if (!pdfResponse.ok) {
-      throw new Error("Failed to download converted PDF");
-    }
-
-    const pdfBuffer = Buffer.from(await pdfResponse.arrayBuffer());
+    const pdfBuffer = await convertDocument(docxBuffer, "docx", "pdf");
 
     return new NextResponse(pdfBuffer, {
       status: 200,
@@ -1,5 +1,14 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { requirePermission } from "@/lib/auth";
+import { canConvertDocument, convertDocument } from "@/lib/document-conversion";
+import { readPdfTables } from "@/lib/pdf-tables";
 import { prisma } from "@/lib/prisma";
+import { matchSupplierCodes } from "@/lib/product-suppliers";
+import {
+  resolveColumnMapping,
+  type ColumnMapping,
+  type MappingUsed,
+  type SupplierTableSettings,
+} from "@/lib/supplier-columns";
 import { NextResponse } from "next/server";
 import PizZip from "pizzip";
 import { parseStringPromise } from "xml2js";
@@ -7,68 +16,11 @@ import { parseStringPromise } from "xml2js";
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type ColumnMapping = {
-  column: number;
-  field: string;
-};
-
-/**
- * Convert PDF to DOCX using CloudConvert (same as import)
- */
-async function convertPdfToDocx(pdfBuffer: Buffer): Promise<Buffer> {
-  const CloudConvert = (await import("cloudconvert")).default;
-  const cloudConvert = new CloudConvert(process.env.CLOUDCONVERT_API_KEY!);
-
-  const job = await cloudConvert.jobs.create({
-    tasks: {
-      "upload-pdf": {
-        operation: "import/upload",
-      },
-      "convert-to-docx": {
-        operation: "convert",
-        input: "upload-pdf",
-        output_format: "docx",
-      },
-      "export-docx": {
-        operation: "export/url",
-        input: "convert-to-docx",
-      },
-    },
-  });
-
-  const uploadTask = job.tasks.find((t: any) => t.name === "upload-pdf");
-  if (!uploadTask) {
-    throw new Error("Upload task not found");
-  }
-
-  await cloudConvert.tasks.upload(uploadTask, pdfBuffer, "document.pdf");
-
-  const completedJob = await cloudConvert.jobs.wait(job.id);
-
-  const exportTask = completedJob.tasks.find((t: any) => t.name === "export-docx");
-  if (!exportTask?.result?.files?.[0]?.url) {
-    throw new Error("Export task failed or no file URL");
-  }
-
-  const docxUrl = exportTask.result.files[0].url;
-  const docxResponse = await fetch(docxUrl);
-  if (!docxResponse.ok) {
-    throw new Error("Failed to download converted DOCX");
-  }
-
-  return Buffer.from(await docxResponse.arrayBuffer());
-}
-
 /**
- * Extract product codes from DOCX using supplier's column mappings (same logic as import)
+ * Read the text of every table in a DOCX, row by row
  */
-async function extractCodesFromDocx(
-  docxBuffer: Buffer,
-  columnMappings: ColumnMapping[],
-  startRow: number = 2
-): Promise<string[]> {
+async function readDocxTables(docxBuffer: Buffer): Promise<string[][][]> {
   const zip = new PizZip(docxBuffer);
-  const codes: string[] = [];
 
   const docFile = zip.file("word/document.xml");
   if (!docFile) {
@@ -100,12 +52,6 @@ async function extractCodesFromDocx(
     return "";
   };
 
-  // Find which column has the code field
-  const codeColumn = columnMappings.find(m => m.field === "code")?.column;
-  if (!codeColumn) {
-    throw new Error("Supplier has no 'code' column mapped");
-  }
-
   const body = docData?.["w:document"]?.["w:body"];
   if (!body) {
     throw new Error("No body found in document");
@@ -114,97 +60,66 @@ async function extractCodesFromDocx(
   const tables = body["w:tbl"];
   const tableList = tables ? (Array.isArray(tables) ? tables : [tables]) : [];
 
-  for (const table of tableList) {
+  return tableList.map((table: any) => {
     const rows = table["w:tr"];
     const rowList = rows ? (Array.isArray(rows) ? rows : [rows]) : [];
-
-    for (let i = startRow - 1; i < rowList.length; i++) {
-      const row = rowList[i];
+    return rowList.map((row: any) => {
       const cells = row["w:tc"];
       const cellList = cells ? (Array.isArray(cells) ? cells : [cells]) : [];
+      return cellList.map((cell: any) => extractText(cell).trim());
+    });
+  });
+}
 
+/**
+ * Extract product codes from tables using supplier's headers or column mappings (same logic as import)
+ */
+function extractCodesFromTables(
+  tables: string[][][],
+  supplier: SupplierTableSettings
+): { codes: string[]; mappingUsed: MappingUsed[] } {
+  const codes: string[] = [];
+  const mappingUsed: MappingUsed[] = [];
+
+  for (const rows of tables) {
+    // Find which column has the code field, by header or saved mapping
+    const { mapping, firstDataRow } = resolveColumnMapping(rows, supplier);
+    const codeColumn = mapping.columns.find(m => m.field === "code")?.column;
+    if (!codeColumn) {
+      throw new Error("Supplier has no 'code' column mapped");
+    }
+    if (rows.length > firstDataRow) mappingUsed.push(mapping);
+
+    for (let i = firstDataRow; i < rows.length; i++) {
       // Get the code from the configured column
-      const codeCell = cellList[codeColumn - 1]; // 1-indexed to 0-indexed
-      if (codeCell) {
-        let code = extractText(codeCell).trim();
-        
-        // Clean up the code - remove BWA prefix if present
-        if (code.toUpperCase().startsWith("BWA")) {
-          code = code.substring(3).trim();
-          code = code.replace(/^[-\s]+/, "");
-        }
-        
-        // Skip empty or too short codes
-        if (code && code.length >= 3 && !shouldSkip(code)) {
-          codes.push(code);
-        }
+      const code = rows[i][codeColumn - 1] ?? ""; // 1-indexed to 0-indexed
+
+      // Skip empty or too short codes
+      if (code && code.length >= 3 && !shouldSkip(code)) {
+        codes.push(code);
       }
     }
   }
 
-  return codes;
+  return { codes, mappingUsed };
 }
 
 /**
- * Legacy extraction for BWA format (no supplier configured)
- * This looks for BWA codes in table cells and tries to match any alphanumeric codes
+ * Legacy extraction for suppliers without a code column configured
+ * This looks for cells starting with a code, such as BWA's "BWA CWH66-900WM"
+ * or "A8 CWH66-900WM", and keeps the code words. Codes are returned as printed;
+ * supplier SKUs map them to our products.
  */
-async function extractCodesFromDocxLegacy(docxBuffer: Buffer): Promise<string[]> {
-  const zip = new PizZip(docxBuffer);
+function extractCodesFromTablesLegacy(tables: string[][][]): string[] {
   const codes: string[] = [];
 
-  const docFile = zip.file("word/document.xml");
-  if (!docFile) {
-    throw new Error("No document.xml found in DOCX");
-  }
-
-  const docXml = docFile.asText();
-  const docData = await parseStringPromise(docXml, { explicitArray: false });
-
-  const extractText = (node: any): string => {
-    if (!node) return "";
-    if (typeof node === "string") return node;
-    if (node["w:t"]) {
-      const t = node["w:t"];
-      if (typeof t === "string") return t;
-      if (typeof t === "object" && t._) return t._;
-      if (Array.isArray(t)) return t.map(extractText).join("");
-      return "";
-    }
-    if (node["w:r"]) {
-      const runs = Array.isArray(node["w:r"]) ? node["w:r"] : [node["w:r"]];
-      return runs.map(extractText).join("");
-    }
-    if (node["w:p"]) {
-      const paras = Array.isArray(node["w:p"]) ? node["w:p"] : [node["w:p"]];
-      return paras.map(extractText).join(" ");
-    }
-    return "";
-  };
-
-  const body = docData?.["w:document"]?.["w:body"];
-  if (!body) return codes;
-
-  const tables = body["w:tbl"];
-  const tableList = tables ? (Array.isArray(tables) ? tables : [tables]) : [];
-
-  for (const table of tableList) {
-    const rows = table["w:tr"];
-    const rowList = rows ? (Array.isArray(rows) ? rows : [rows]) : [];
-
-    for (let i = 1; i < rowList.length; i++) {
-      const row = rowList[i];
-      const cells = row["w:tc"];
-      const cellList = cells ? (Array.isArray(cells) ? cells : [cells]) : [];
-
-      for (const cell of cellList) {
-        const cellText = extractText(cell).trim();
-        
-        // Look for BWA codes (BWA prefix followed by code)
-        if (cellText.match(/^BWA\s+/i)) {
-          let code = cellText.replace(/^BWA\s+/i, "").trim();
-          // Remove trailing description words
-          const parts = code.split(/\s+/);
+  for (const rows of tables) {
+    for (let i = 1; i < rows.length; i++) {
+      for (const cellText of rows[i]) {
+        // Prefixed codes like "BWA CWH66-900WM" or "A8 CWH66-900WM"
+        if (cellText.match(/^BWA\s+/i) || cellText.match(/^[A-Z]\d+\s+[A-Z0-9]/i)) {
+          // Stop at descriptive words
+          const parts = cellText.split(/\s+/);
           const codeWords: string[] = [];
           for (const part of parts) {
             // Keep alphanumeric code parts, stop at descriptive words
@@ -216,28 +131,8 @@ async function extractCodesFromDocxLegacy(docxBuffer: Buffer): Promise<string[]>
               break;
             }
           }
-          code = codeWords.join(" ").replace(/\s*-\s*/g, "-").trim();
-          
-          if (code && code.length >= 3 && !shouldSkip(code)) {
-            codes.push(code);
-          }
-        }
-        // Also look for standalone alphanumeric codes like "A8 CWH66-900WM"
-        else if (cellText.match(/^[A-Z]\d+\s+[A-Z0-9]/i)) {
-          let code = cellText;
-          // Stop at descriptive words
-          const parts = code.split(/\s+/);
-          const codeWords: string[] = [];
-          for (const part of parts) {
-            if (/^[A-Z0-9][A-Z0-9\-_.]*$/i.test(part) && part.length <= 20) {
-              codeWords.push(part);
-              if (/^\d{3,4}$/.test(part)) break;
-            } else {
-              break;
-            }
-          }
-          code = codeWords.join(" ").replace(/\s*-\s*/g, "-").trim();
-          
+          const code = codeWords.join(" ").replace(/\s*-\s*/g, "-").trim();
+
           if (code && code.length >= 3 && !shouldSkip(code)) {
             codes.push(code);
           }
@@ -248,7 +143,6 @@ async function extractCodesFromDocxLegacy(docxBuffer: Buffer): Promise<string[]>
 
   return codes;
 }
-
 /**
  * Check if text should be skipped (headers, categories, etc.)
  */
@@ -330,10 +224,8 @@ function findFuzzyMatches(
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:write");
+  if (auth.error) return auth.error;
 
   try {
     const formData = await req.formData();
@@ -353,21 +245,36 @@ export async function POST(req: Request) {
     const buffer = Buffer.from(await file.arrayBuffer());
     const fileName = file.name.toLowerCase();
     
-    // Convert PDF to DOCX using CloudConvert (same as import)
-    let docxBuffer: Buffer;
-    
-    if (fileName.endsWith(".pdf") || file.type.includes("pdf")) {
-      console.log("Converting PDF to DOCX...");
-      docxBuffer = await convertPdfToDocx(buffer);
-      console.log("Conversion complete");
+    // Convert PDF to DOCX when the document converter can, or read its
+    // tables locally (same as import)
+    let tables: string[][][];
+    let docxBuffer: Buffer | null = null;
+    const isPdf = fileName.endsWith(".pdf") || file.type.includes("pdf");
+
+    if (isPdf && canConvertDocument("pdf", "docx")) {
+      try {
+        console.log("Converting PDF to DOCX...");
+        docxBuffer = await convertDocument(buffer, "pdf", "docx");
+        console.log("Conversion complete");
+      } catch (err) {
+        console.log(`PDF conversion failed, reading it locally: ${err}`);
+      }
     } else if (fileName.endsWith(".docx")) {
       docxBuffer = buffer;
-    } else {
+    } else if (!isPdf) {
       return NextResponse.json({ error: "File must be a PDF or DOCX" }, { status: 400 });
     }
 
+    if (docxBuffer) {
+      tables = await readDocxTables(docxBuffer);
+    } else {
+      console.log("Reading PDF tables...");
+      tables = (await readPdfTables(buffer)).map((table) => table.rows);
+    }
+
     // Extract codes using the same logic as import
     let extractedCodes: string[] = [];
+    let mappingUsed: MappingUsed[] | null = null;
     
     if (supplier && supplier.columnMappings) {
       const mappings = supplier.columnMappings as ColumnMapping[];
@@ -376,18 +283,18 @@ export async function POST(req: Request) {
       
       if (hasCodeColumn) {
         try {
-          extractedCodes = await extractCodesFromDocx(docxBuffer, mappings, supplier.startRow || 2);
+          ({ codes: extractedCodes, mappingUsed } = extractCodesFromTables(tables, supplier));
           console.log(`Extracted ${extractedCodes.length} codes using supplier "${supplier.name}" config`);
         } catch (err) {
           console.log(`Supplier extraction failed, falling back to legacy: ${err}`);
-          extractedCodes = await extractCodesFromDocxLegacy(docxBuffer);
+          extractedCodes = extractCodesFromTablesLegacy(tables);
         }
       } else {
         console.log(`Supplier has no 'code' column mapped, using legacy parser`);
-        extractedCodes = await extractCodesFromDocxLegacy(docxBuffer);
+        extractedCodes = extractCodesFromTablesLegacy(tables);
       }
     } else {
-      extractedCodes = await extractCodesFromDocxLegacy(docxBuffer);
+      extractedCodes = extractCodesFromTablesLegacy(tables);
       console.log(`Extracted ${extractedCodes.length} codes using legacy parser`);
     }
 
@@ -401,32 +308,30 @@ export async function POST(req: Request) {
         extractedCodes: [],
         suggestedMatches: {},
         message: "No product codes found. Check that the supplier format is configured correctly.",
+        mappingUsed,
       });
     }
 
-    // Find matching products in database
-    const normalizedCodes = extractedCodes.map(c => c.toUpperCase().replace(/[\s\-_.]/g, ""));
-    
-    // Get all products and match by normalized code
-    const allDbProducts = await prisma.product.findMany({
+    // Match through the supplier's SKUs, then our own codes
+    const { matches: codeMatches, ambiguous } = await matchSupplierCodes(
+      prisma,
+      extractedCodes,
+      supplier?.id
+    );
+
+    const dbProducts = await prisma.product.findMany({
+      where: { id: { in: [...new Set([...codeMatches.values(), ...[...ambiguous.values()].flat()])] } },
       include: { type: true },
     });
+    const productsById = new Map(dbProducts.map((p) => [p.id, p]));
 
-    // Create a normalized lookup map
-    const normalizedProductMap = new Map<string, typeof allDbProducts[0]>();
-    for (const product of allDbProducts) {
-      const normalized = product.code.toUpperCase().replace(/[\s\-_.]/g, "");
-      normalizedProductMap.set(normalized, product);
-    }
-
-    const exactMatches: typeof allDbProducts = [];
+    const exactMatches: typeof dbProducts = [];
     const notFoundCodes: string[] = [];
     const matchedIds = new Set<string>();
     
-    for (let i = 0; i < extractedCodes.length; i++) {
-      const code = extractedCodes[i];
-      const normalized = normalizedCodes[i];
-      const product = normalizedProductMap.get(normalized);
+    for (const code of extractedCodes) {
+      const productId = codeMatches.get(code);
+      const product = productId ? productsById.get(productId) : undefined;
       
       if (product && !matchedIds.has(product.id)) {
         exactMatches.push(product);
@@ -436,17 +341,23 @@ export async function POST(req: Request) {
       }
     }
 
-    // For not found codes, get fuzzy matches
+    // Codes that match several products are offered as suggestions to pick from
     let suggestedMatches: Record<string, Array<{ id: string; code: string; description: string; matchType: string }>> = {};
-    
-    if (notFoundCodes.length > 0 && notFoundCodes.length <= 20) {
-      const productsForFuzzy = allDbProducts.map(p => ({
-        id: p.id,
-        code: p.code,
-        description: p.description,
-      }));
+    for (const [code, ids] of ambiguous) {
+      suggestedMatches[code] = ids.flatMap((id) => {
+        const p = productsById.get(id);
+        return p ? [{ id: p.id, code: p.code, description: p.description, matchType: "ambiguous" }] : [];
+      });
+    }
+
+    // For other not found codes, get fuzzy matches
+    const unmatchedCodes = notFoundCodes.filter((code) => !ambiguous.has(code));
+    if (unmatchedCodes.length > 0 && unmatchedCodes.length <= 20) {
+      const productsForFuzzy = await prisma.product.findMany({
+        select: { id: true, code: true, description: true },
+      });
       
-      for (const code of notFoundCodes) {
+      for (const code of unmatchedCodes) {
         const fuzzy = findFuzzyMatches(code, productsForFuzzy);
         if (fuzzy.length > 0) {
           suggestedMatches[code] = fuzzy;
@@ -466,12 +377,14 @@ export async function POST(req: Request) {
         brand: p.brand,
         keywords: p.keywords,
         type: p.type,
+        parentId: p.parentId,
       })),
       extractedCodes,
       foundCodes: exactMatches.map((p) => p.code),
       notFoundCodes,
       suggestedMatches,
       supplierUsed: supplier?.name || "auto-detect",
+      mappingUsed,
     });
   } catch (error: unknown) {
     console.error("Error parsing PDF:", error);
@@ -1,6 +1,7 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { getPublicUrl, uploadToR2 } from "@/lib/r2";
+import { storeProductImage, type StoredProductImage } from "@/lib/product-images";
 import { NextResponse } from "next/server";
 
 export const runtime = "nodejs";
@@ -27,10 +28,8 @@ function buildProductDetails(p: IncomingProduct) {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   let payload: any;
   try {
@@ -62,31 +61,40 @@ export async function POST(req: Request) {
       const link = raw?.link?.trim() || null;
 
       let imageUrl = raw?.imageUrl?.trim() || "";
+      let storedImage: StoredProductImage | null = null;
 
       if (raw?.image && raw.image.length > 10) {
-        const buffer = Buffer.from(raw.image, "base64");
-        const key = `product-sheet/${code}-${Date.now()}.jpg`;
-        await uploadToR2({
-          key,
-          body: buffer,
-          contentType: "image/jpeg",
-        });
-        imageUrl = getPublicUrl(key);
+        storedImage = await storeProductImage(Buffer.from(raw.image, "base64"));
+        imageUrl = storedImage.url;
       }
 
+      const hasImage = Boolean(imageUrl);
       if (!imageUrl) {
         imageUrl = "https://placehold.co/600x600?text=No+Image";
       }
 
       // Products are created without a type - can be categorized later
-      const product = await prisma.product.create({
-        data: {
-          code,
-          description,
-          productDetails,
-          imageUrl,
-          link,
-        },
+      const product = await prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            code,
+            description,
+            productDetails,
+            imageUrl,
+            link,
+            ...(hasImage && {
+              images: { create: { ...storedImage, url: imageUrl, isPrimary: true } },
+            }),
+          },
+        });
+        await recordAuditEvent(tx, auth.session, {
+          action: "create",
+          entityType: "product",
+          entityId: created.id,
+          entityLabel: created.code,
+          after: created,
+        });
+        return created;
       });
 
       saved.push(product);
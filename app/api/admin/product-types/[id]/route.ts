@@ -1,19 +1,20 @@
 import { NextResponse } from "next/server";
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { InvalidAttributeSchemaError, parseAttributeSchema } from "@/lib/product-attributes";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// PUT /api/admin/product-types/[id] - Update a product type
+// PUT /api/admin/product-types/[id] - Rename a product type or replace its attribute schema.
+// Products keep their stored values; they are checked against the new schema when next edited.
 export async function PUT(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
@@ -27,6 +28,17 @@ export async function PUT(
       );
     }
 
+    let attributeSchema;
+    try {
+      attributeSchema =
+        body?.attributeSchema === undefined ? undefined : parseAttributeSchema(body.attributeSchema);
+    } catch (error) {
+      if (error instanceof InvalidAttributeSchemaError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     // Check if product type exists
     const existing = await prisma.productType.findUnique({ where: { id } });
     if (!existing) {
@@ -44,9 +56,20 @@ export async function PUT(
       );
     }
 
-    const productType = await prisma.productType.update({
-      where: { id },
-      data: { name },
+    const productType = await prisma.$transaction(async (tx) => {
+      const updated = await tx.productType.update({
+        where: { id },
+        data: { name, ...(attributeSchema && { attributeSchema }) },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "productType",
+        entityId: id,
+        entityLabel: updated.name,
+        before: existing,
+        after: updated,
+      });
+      return updated;
     });
 
     return NextResponse.json({ productType });
@@ -64,10 +87,8 @@ export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
@@ -90,7 +111,16 @@ export async function DELETE(
       );
     }
 
-    await prisma.productType.delete({ where: { id } });
+    await prisma.$transaction(async (tx) => {
+      await tx.productType.delete({ where: { id } });
+      await recordAuditEvent(tx, auth.session, {
+        action: "delete",
+        entityType: "productType",
+        entityId: id,
+        entityLabel: existing.name,
+        before: existing,
+      });
+    });
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
@@ -1,12 +1,17 @@
 import { NextResponse } from "next/server";
 
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { InvalidAttributeSchemaError, parseAttributeSchema } from "@/lib/product-attributes";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
   try {
     const productTypes = await prisma.productType.findMany({
       orderBy: { name: "asc" },
@@ -22,10 +27,8 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
   let body: any;
   try {
@@ -42,6 +45,16 @@ export async function POST(req: Request) {
     );
   }
 
+  let attributeSchema;
+  try {
+    attributeSchema = parseAttributeSchema(body?.attributeSchema);
+  } catch (error) {
+    if (error instanceof InvalidAttributeSchemaError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
   try {
     const existing = await prisma.productType.findUnique({ where: { name } });
     if (existing) {
@@ -51,7 +64,17 @@ export async function POST(req: Request) {
       );
     }
 
-    const productType = await prisma.productType.create({ data: { name } });
+    const productType = await prisma.$transaction(async (tx) => {
+      const created = await tx.productType.create({ data: { name, attributeSchema } });
+      await recordAuditEvent(tx, auth.session, {
+        action: "create",
+        entityType: "productType",
+        entityId: created.id,
+        entityLabel: created.name,
+        after: created,
+      });
+      return created;
+    });
     return NextResponse.json({ productType });
   } catch (error: any) {
     console.error("Error creating product type:", error);
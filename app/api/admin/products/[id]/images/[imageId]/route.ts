@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { imageAuditSnapshot, syncPrimaryImage } from "@/lib/product-images";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function loadProduct(id: string) {
+  return prisma.product.findUnique({
+    where: { id },
+    include: { images: { orderBy: { sortOrder: "asc" } } },
+  });
+}
+
+// PATCH /api/admin/products/[id]/images/[imageId] - Update alt text or make primary
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id, imageId } = await params;
+    const body = await request.json();
+    const { altText, isPrimary } = body ?? {};
+
+    const product = await loadProduct(id);
+    if (!product || !product.images.some((image) => image.id === imageId)) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (isPrimary === true) {
+        await tx.productImage.updateMany({
+          where: { productId: id, id: { not: imageId } },
+          data: { isPrimary: false },
+        });
+      }
+      await tx.productImage.update({
+        where: { id: imageId },
+        data: {
+          ...(altText !== undefined && { altText: String(altText ?? "").trim() || null }),
+          ...(isPrimary === true && { isPrimary: true }),
+        },
+      });
+      const synced = await syncPrimaryImage(tx, id);
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: imageAuditSnapshot(product, product.images),
+        after: imageAuditSnapshot(synced, synced.images),
+      });
+      return synced;
+    });
+
+    return NextResponse.json({ product: updated, images: updated.images });
+  } catch (error: any) {
+    console.error("Error updating product image:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update product image",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/products/[id]/images/[imageId] - Remove an image
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id, imageId } = await params;
+
+    const product = await loadProduct(id);
+    if (!product || !product.images.some((image) => image.id === imageId)) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.productImage.delete({ where: { id: imageId } });
+      const synced = await syncPrimaryImage(tx, id);
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: imageAuditSnapshot(product, product.images),
+        after: imageAuditSnapshot(synced, synced.images),
+      });
+      return synced;
+    });
+
+    return NextResponse.json({ product: updated, images: updated.images });
+  } catch (error: any) {
+    console.error("Error deleting product image:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete product image",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
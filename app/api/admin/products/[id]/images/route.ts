@@ -0,0 +1,195 @@
+import { NextResponse } from "next/server";
+
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { UnsupportedImageError } from "@/lib/image-processing";
+import { prisma } from "@/lib/prisma";
+import {
+  imageAuditSnapshot,
+  imageFilesFromForm,
+  MAX_PRODUCT_IMAGES,
+  storeProductImageFiles,
+  syncPrimaryImage,
+} from "@/lib/product-images";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/products/[id]/images - List a product's images in order
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const images = await prisma.productImage.findMany({
+      where: { productId: id },
+      orderBy: { sortOrder: "asc" },
+    });
+    return NextResponse.json({ images });
+  } catch (error: any) {
+    console.error("Error fetching product images:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch product images",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/products/[id]/images - Upload images, added after the existing ones.
+// Files identical to an image the product already has are skipped.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const formData = await request.formData();
+    const files = imageFilesFromForm(formData, "images", "image");
+    const altText = formData.get("altText")?.toString().trim() || null;
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: "No images uploaded." }, { status: 400 });
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: { images: { orderBy: { sortOrder: "asc" } } },
+    });
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    if (product.images.length + files.length > MAX_PRODUCT_IMAGES) {
+      return NextResponse.json(
+        { error: `A product can have at most ${MAX_PRODUCT_IMAGES} images.` },
+        { status: 400 }
+      );
+    }
+
+    // Upload before the transaction so it isn't held open during network calls
+    let stored;
+    try {
+      stored = await storeProductImageFiles(
+        files,
+        product.images.map((image) => image.contentHash)
+      );
+    } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const skipped = files.length - stored.length;
+    if (stored.length === 0) {
+      return NextResponse.json(
+        { error: "These images are already on this product.", skipped },
+        { status: 400 }
+      );
+    }
+
+    const nextSortOrder = (product.images.at(-1)?.sortOrder ?? -1) + 1;
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.productImage.createMany({
+        data: stored.map((image, index) => ({
+          ...image,
+          productId: id,
+          altText,
+          sortOrder: nextSortOrder + index,
+        })),
+      });
+      const synced = await syncPrimaryImage(tx, id);
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: imageAuditSnapshot(product, product.images),
+        after: imageAuditSnapshot(synced, synced.images),
+      });
+      return synced;
+    });
+
+    return NextResponse.json({ product: updated, images: updated.images, skipped });
+  } catch (error: any) {
+    console.error("Error uploading product images:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to upload product images",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/products/[id]/images - Reorder images ({ order: imageId[] })
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const order: unknown = body?.order;
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: { images: { orderBy: { sortOrder: "asc" } } },
+    });
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    const currentIds = new Set(product.images.map((image) => image.id));
+    if (
+      !Array.isArray(order) ||
+      order.length !== currentIds.size ||
+      new Set(order).size !== order.length ||
+      !order.every((imageId) => currentIds.has(imageId))
+    ) {
+      return NextResponse.json(
+        { error: "order must list each of the product's image ids once." },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      for (const [index, imageId] of (order as string[]).entries()) {
+        await tx.productImage.update({ where: { id: imageId }, data: { sortOrder: index } });
+      }
+      const synced = await syncPrimaryImage(tx, id);
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: imageAuditSnapshot(product, product.images),
+        after: imageAuditSnapshot(synced, synced.images),
+      });
+      return synced;
+    });
+
+    return NextResponse.json({ product: updated, images: updated.images });
+  } catch (error: any) {
+    console.error("Error reordering product images:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to reorder product images",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/products/[id]/prices - Price history, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 500);
+
+    const prices = await prisma.productPrice.findMany({
+      where: { productId: id },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: {
+        supplier: { select: { id: true, name: true } },
+        createdBy: { select: { username: true } },
+      },
+    });
+
+    return NextResponse.json({ prices });
+  } catch (error: any) {
+    console.error("Error fetching price history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch price history",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,88 @@
 import { NextResponse } from "next/server";
 
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { InvalidPriceError, parsePrice, recordPriceHistory } from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
+import {
+  attributeSchemaOf,
+  type AttributeValues,
+  InvalidAttributesError,
+  parseAttributeValues,
+} from "@/lib/product-attributes";
+import { SUPPLIER_LISTINGS_INCLUDE } from "@/lib/product-suppliers";
+import {
+  InvalidVariantError,
+  resolveVariantParent,
+  VARIANTS_INCLUDE,
+} from "@/lib/product-variants";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// GET /api/admin/products/[id] - Get a single product with its parent or variants
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: {
+        type: true,
+        suppliers: SUPPLIER_LISTINGS_INCLUDE,
+        images: { orderBy: { sortOrder: "asc" } },
+        parent: { select: { id: true, code: true, description: true } },
+        variants: VARIANTS_INCLUDE,
+      },
+    });
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    return NextResponse.json({ product });
+  } catch (error: any) {
+    console.error("Error fetching product:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch product",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
   try {
     const { id } = await params;
     const body = await request.json();
 
     const { code, description, productDetails, link, brand, keywords, typeId } = body;
+    const { gstInclusive, gstFree } = body;
+    // parentCode makes this a variant of that product; blank detaches it
+    const { parentCode, finish, colour, size } = body;
+
+    let costPrice: string | null | undefined;
+    let sellPrice: string | null | undefined;
+    try {
+      costPrice = body.costPrice === undefined ? undefined : parsePrice(body.costPrice);
+      sellPrice = body.sellPrice === undefined ? undefined : parsePrice(body.sellPrice);
+    } catch (error) {
+      if (error instanceof InvalidPriceError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
 
     // Check if product exists
     const existing = await prisma.product.findUnique({ where: { id } });
@@ -21,6 +90,28 @@ export async function PATCH(
       return NextResponse.json({ error: "Product not found" }, { status: 404 });
     }
 
+    // Attributes are replaced as a whole and checked against the product's
+    // type, or the type it is changing to. A type change without attributes
+    // checks the ones the product has against the new type.
+    let attributes: AttributeValues | undefined;
+    const typeChanged = !!typeId && typeId !== existing.typeId;
+    if (body.attributes !== undefined || typeChanged) {
+      const type = await prisma.productType.findUnique({
+        where: { id: typeId || existing.typeId || "" },
+      });
+      try {
+        attributes = parseAttributeValues(
+          attributeSchemaOf(type),
+          body.attributes !== undefined ? body.attributes : existing.attributes
+        );
+      } catch (error) {
+        if (error instanceof InvalidAttributesError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
     // If code is being changed, check for duplicates
     if (code && code !== existing.code) {
       const duplicate = await prisma.product.findUnique({ where: { code } });
@@ -32,19 +123,58 @@ export async function PATCH(
       }
     }
 
+    let parentId: string | null | undefined;
+    try {
+      parentId =
+        parentCode === undefined
+          ? undefined
+          : await resolveVariantParent(prisma, id, String(parentCode ?? ""));
+    } catch (error) {
+      if (error instanceof InvalidVariantError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     // Update product
-    const product = await prisma.product.update({
-      where: { id },
-      data: {
-        ...(code && { code }),
-        ...(description && { description }),
-        ...(productDetails !== undefined && { productDetails }),
-        ...(link !== undefined && { link: link || null }),
-        ...(brand !== undefined && { brand: brand || null }),
-        ...(keywords !== undefined && { keywords: keywords || null }),
-        ...(typeId && { typeId }),
-      },
-      include: { type: true },
+    const product = await prisma.$transaction(async (tx) => {
+      const updated = await tx.product.update({
+        where: { id },
+        data: {
+          ...(code && { code }),
+          ...(description && { description }),
+          ...(productDetails !== undefined && { productDetails }),
+          ...(link !== undefined && { link: link || null }),
+          ...(brand !== undefined && { brand: brand || null }),
+          ...(keywords !== undefined && { keywords: keywords || null }),
+          ...(typeId && { typeId }),
+          ...(costPrice !== undefined && { costPrice }),
+          ...(sellPrice !== undefined && { sellPrice }),
+          ...(typeof gstInclusive === "boolean" && { gstInclusive }),
+          ...(typeof gstFree === "boolean" && { gstFree }),
+          ...(parentId !== undefined && { parentId }),
+          ...(finish !== undefined && { finish: finish || null }),
+          ...(colour !== undefined && { colour: colour || null }),
+          ...(size !== undefined && { size: size || null }),
+          ...(attributes !== undefined && { attributes }),
+        },
+        include: { type: true, parent: { select: { id: true, code: true, description: true } } },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: updated.code,
+        before: existing,
+        after: updated,
+      });
+      await recordPriceHistory(tx, auth.session, {
+        productId: id,
+        source: "edit",
+        before: existing,
+        after: updated,
+      });
+      return updated;
     });
 
     return NextResponse.json({ product });
@@ -64,6 +194,9 @@ export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
   try {
     const { id } = await params;
 
@@ -74,7 +207,16 @@ export async function DELETE(
     }
 
     // Delete product
-    await prisma.product.delete({ where: { id } });
+    await prisma.$transaction(async (tx) => {
+      await tx.product.delete({ where: { id } });
+      await recordAuditEvent(tx, auth.session, {
+        action: "delete",
+        entityType: "product",
+        entityId: id,
+        entityLabel: existing.code,
+        before: existing,
+      });
+    });
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
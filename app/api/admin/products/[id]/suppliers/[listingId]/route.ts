@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  clearOtherPreferredSuppliers,
+  InvalidSupplierListingError,
+  parseSupplierListing,
+  supplierAuditSnapshot,
+  SUPPLIER_LISTINGS_INCLUDE,
+} from "@/lib/product-suppliers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function loadProduct(id: string) {
+  return prisma.product.findUnique({
+    where: { id },
+    include: { suppliers: SUPPLIER_LISTINGS_INCLUDE },
+  });
+}
+
+// PATCH /api/admin/products/[id]/suppliers/[listingId] - Update SKU, cost, lead time or preferred
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; listingId: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id, listingId } = await params;
+    const body = await request.json();
+
+    let fields;
+    try {
+      fields = parseSupplierListing(body ?? {});
+    } catch (error) {
+      if (error instanceof InvalidSupplierListingError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const product = await loadProduct(id);
+    if (!product || !product.suppliers.some((listing) => listing.id === listingId)) {
+      return NextResponse.json({ error: "Supplier listing not found" }, { status: 404 });
+    }
+
+    const suppliers = await prisma.$transaction(async (tx) => {
+      const updated = await tx.productSupplier.update({ where: { id: listingId }, data: fields });
+      if (updated.preferred) {
+        await clearOtherPreferredSuppliers(tx, id, listingId);
+      }
+      const after = await tx.productSupplier.findMany({
+        where: { productId: id },
+        ...SUPPLIER_LISTINGS_INCLUDE,
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: supplierAuditSnapshot(product.suppliers),
+        after: supplierAuditSnapshot(after),
+      });
+      return after;
+    });
+
+    return NextResponse.json({ suppliers });
+  } catch (error: any) {
+    console.error("Error updating product supplier:", error);
+    if (error?.code === "P2002") {
+      return NextResponse.json(
+        { error: "This supplier already uses that SKU for another product." },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to update product supplier",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/products/[id]/suppliers/[listingId] - Stop listing a supplier for the product
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; listingId: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id, listingId } = await params;
+
+    const product = await loadProduct(id);
+    if (!product || !product.suppliers.some((listing) => listing.id === listingId)) {
+      return NextResponse.json({ error: "Supplier listing not found" }, { status: 404 });
+    }
+
+    const suppliers = await prisma.$transaction(async (tx) => {
+      await tx.productSupplier.delete({ where: { id: listingId } });
+      const after = await tx.productSupplier.findMany({
+        where: { productId: id },
+        ...SUPPLIER_LISTINGS_INCLUDE,
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: supplierAuditSnapshot(product.suppliers),
+        after: supplierAuditSnapshot(after),
+      });
+      return after;
+    });
+
+    return NextResponse.json({ suppliers });
+  } catch (error: any) {
+    console.error("Error deleting product supplier:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete product supplier",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
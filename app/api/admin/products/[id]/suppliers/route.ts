@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  clearOtherPreferredSuppliers,
+  InvalidSupplierListingError,
+  parseSupplierListing,
+  supplierAuditSnapshot,
+  SUPPLIER_LISTINGS_INCLUDE,
+} from "@/lib/product-suppliers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/products/[id]/suppliers - List who supplies a product, preferred first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const suppliers = await prisma.productSupplier.findMany({
+      where: { productId: id },
+      ...SUPPLIER_LISTINGS_INCLUDE,
+    });
+    return NextResponse.json({ suppliers });
+  } catch (error: any) {
+    console.error("Error fetching product suppliers:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch product suppliers",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/products/[id]/suppliers - Add a supplier listing
+// ({ supplierId, supplierSku, costPrice?, leadTimeDays?, preferred? })
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const supplierId = String(body?.supplierId ?? "");
+
+    let fields;
+    try {
+      fields = parseSupplierListing({ ...body, supplierSku: body?.supplierSku ?? "" });
+    } catch (error) {
+      if (error instanceof InvalidSupplierListingError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: { suppliers: SUPPLIER_LISTINGS_INCLUDE },
+    });
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    const supplier = supplierId
+      ? await prisma.supplier.findUnique({ where: { id: supplierId } })
+      : null;
+    if (!supplier) {
+      return NextResponse.json({ error: "Supplier not found" }, { status: 400 });
+    }
+
+    const suppliers = await prisma.$transaction(async (tx) => {
+      const created = await tx.productSupplier.create({
+        data: {
+          productId: id,
+          supplierId,
+          supplierSku: fields.supplierSku!,
+          costPrice: fields.costPrice ?? null,
+          leadTimeDays: fields.leadTimeDays ?? null,
+          // The first supplier is preferred until someone picks another
+          preferred: fields.preferred ?? product.suppliers.length === 0,
+        },
+      });
+      if (created.preferred) {
+        await clearOtherPreferredSuppliers(tx, id, created.id);
+      }
+      const after = await tx.productSupplier.findMany({
+        where: { productId: id },
+        ...SUPPLIER_LISTINGS_INCLUDE,
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "product",
+        entityId: id,
+        entityLabel: product.code,
+        before: supplierAuditSnapshot(product.suppliers),
+        after: supplierAuditSnapshot(after),
+      });
+      return after;
+    });
+
+    return NextResponse.json({ suppliers });
+  } catch (error: any) {
+    console.error("Error adding product supplier:", error);
+    if (error?.code === "P2002") {
+      return NextResponse.json(
+        { error: "That supplier is already listed for this product, or uses this SKU for another product." },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to add product supplier",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
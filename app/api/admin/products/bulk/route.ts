@@ -0,0 +1,170 @@
+import type { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  attributeSchemaOf,
+  type AttributeValues,
+  InvalidAttributesError,
+  parseAttributeValues,
+} from "@/lib/product-attributes";
+import {
+  applyBulkEdit,
+  BULK_EDIT_MAX_PRODUCTS,
+  bulkEditChanges,
+  InvalidBulkEditError,
+  parseBulkEdit,
+} from "@/lib/product-bulk-edit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function sameAttributes(a: AttributeValues, b: unknown) {
+  const other = (b ?? {}) as Record<string, unknown>;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(other).length && keys.every((key) => a[key] === other[key]);
+}
+
+// POST /api/admin/products/bulk - Apply one change set to many products in a single transaction
+// ({ ids, changes: { typeId?, brand?, addKeywords?, removeKeywords?, replaceDescription? }, dryRun? })
+export async function POST(request: Request) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  try {
+    const dryRun = body?.dryRun === true;
+    const ids: string[] = Array.isArray(body?.ids)
+      ? Array.from(new Set(body.ids.map(String)))
+      : [];
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: "Select at least one product." }, { status: 400 });
+    }
+    if (ids.length > BULK_EDIT_MAX_PRODUCTS) {
+      return NextResponse.json(
+        { error: `Bulk edits are limited to ${BULK_EDIT_MAX_PRODUCTS} products at a time.` },
+        { status: 400 }
+      );
+    }
+
+    const edit = parseBulkEdit(body?.changes);
+
+    const type = edit.typeId
+      ? await prisma.productType.findUnique({ where: { id: edit.typeId } })
+      : null;
+    if (edit.typeId && !type) {
+      return NextResponse.json({ error: "Product type not found." }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const products = await tx.product.findMany({
+        where: { id: { in: ids } },
+        orderBy: { code: "asc" },
+      });
+      if (products.length !== ids.length) {
+        throw new InvalidBulkEditError(
+          `${ids.length - products.length} of the selected products no longer exist. Reload and try again.`
+        );
+      }
+
+      const rows = products.flatMap((product) => {
+        const after = applyBulkEdit(product, edit);
+        const fields = bulkEditChanges(product, after);
+        if (fields.length === 0) return [];
+        const row: {
+          id: string;
+          code: string;
+          before: Record<string, unknown>;
+          after: Record<string, unknown>;
+          attributeError?: string;
+        } = {
+          id: product.id,
+          code: product.code,
+          before: Object.fromEntries(fields.map((f) => [f, product[f]])),
+          after: Object.fromEntries(fields.map((f) => [f, after[f]])),
+        };
+
+        // A product changing type keeps only the attributes the new type
+        // knows, and they must satisfy its schema
+        if (fields.includes("typeId")) {
+          try {
+            const attributes = parseAttributeValues(attributeSchemaOf(type), product.attributes);
+            if (!sameAttributes(attributes, product.attributes)) {
+              row.before.attributes = product.attributes;
+              row.after.attributes = attributes;
+            }
+          } catch (error) {
+            if (!(error instanceof InvalidAttributesError)) throw error;
+            row.attributeError = error.message;
+          }
+        }
+        return [row];
+      });
+
+      const invalid = rows.filter((row) => row.attributeError);
+      if (invalid.length > 0 && !dryRun) {
+        throw new InvalidBulkEditError(
+          `${invalid.map((row) => row.code).join(", ")} can't change type: ${invalid[0].attributeError} Fill in their attributes first.`
+        );
+      }
+
+      const emptied = rows.filter(
+        (row) => typeof row.after.description === "string" && row.after.description.trim() === ""
+      );
+      if (emptied.length > 0) {
+        throw new InvalidBulkEditError(
+          `The replacement would leave ${emptied.map((row) => row.code).join(", ")} without a description.`
+        );
+      }
+
+      if (!dryRun) {
+        for (const row of rows) {
+          const updated = await tx.product.update({
+            where: { id: row.id },
+            data: row.after as Prisma.ProductUpdateInput,
+          });
+          await recordAuditEvent(tx, auth.session, {
+            action: "update",
+            entityType: "product",
+            entityId: row.id,
+            entityLabel: updated.code,
+            before: row.before,
+            after: row.after,
+          });
+        }
+      }
+
+      return { rows, matched: products.length, invalid: invalid.length };
+    });
+
+    return NextResponse.json({
+      dryRun,
+      matched: result.matched,
+      changed: result.rows.length,
+      invalid: result.invalid,
+      rows: result.rows,
+    });
+  } catch (error: any) {
+    // Invalid changes, or found inside the transaction so nothing is written
+    if (error instanceof InvalidBulkEditError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error bulk editing products:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update products",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  EXPORT_FORMATS,
+  EXPORT_HEADER,
+  EXPORT_PRODUCT_INCLUDE,
+  exportFileName,
+  exportRow,
+  type ExportFormat,
+} from "@/lib/catalog-export";
+import { prisma } from "@/lib/prisma";
+import { matchingProductIds, parseProductSearchParams } from "@/lib/product-search";
+import {
+  buildXlsx,
+  CSV_BOM,
+  CSV_CONTENT_TYPE,
+  csvRow,
+  type SheetCell,
+  XLSX_CONTENT_TYPE,
+} from "@/lib/spreadsheets";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Export rows for every product matching the filters, a page at a time, in
+// the search's sort order
+async function* exportRows(searchParams: URLSearchParams) {
+  const params = parseProductSearchParams(searchParams);
+  for await (const ids of matchingProductIds({ ...params, cursor: undefined })) {
+    const products = await prisma.product.findMany({
+      where: { id: { in: ids } },
+      include: EXPORT_PRODUCT_INCLUDE,
+    });
+    const byId = new Map(products.map((p) => [p.id, p]));
+    for (const id of ids) {
+      const product = byId.get(id);
+      if (product) yield exportRow(product);
+    }
+  }
+}
+
+// GET /api/admin/products/export?format=csv|xlsx - Download the catalog, or the
+// products matching the same filters as /api/admin/products/search
+export async function GET(request: Request) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format") || "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: "Format must be csv or xlsx" }, { status: 400 });
+  }
+  const headers = {
+    "Content-Type": format === "csv" ? CSV_CONTENT_TYPE : XLSX_CONTENT_TYPE,
+    "Content-Disposition": `attachment; filename="${exportFileName(format)}"`,
+  };
+
+  try {
+    // XLSX is a zip, so the workbook is built in full before sending
+    if (format === "xlsx") {
+      const rows: SheetCell[][] = [EXPORT_HEADER];
+      for await (const row of exportRows(searchParams)) rows.push(row);
+      return new NextResponse(new Uint8Array(buildXlsx("Catalog", rows)), { headers });
+    }
+
+    // CSV streams as pages load, so large catalogs start downloading at once
+    const encoder = new TextEncoder();
+    const rows = exportRows(searchParams);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(CSV_BOM + csvRow(EXPORT_HEADER)));
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await rows.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(csvRow(value)));
+        } catch (error) {
+          console.error("Error exporting products:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await rows.return(undefined);
+      },
+    });
+    return new NextResponse(stream, { headers });
+  } catch (error: any) {
+    console.error("Error exporting products:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export products",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,98 +1,76 @@
 import { NextResponse } from "next/server";
 
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { getPublicUrl, uploadToR2 } from "@/lib/r2";
+import {
+  applyImportRows,
+  InvalidImportError,
+  parseImportRows,
+  storeImportImages,
+} from "@/lib/product-import";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// POST /api/admin/products/import - Create, update or skip each reviewed row in a single transaction
+// ({ supplierId?, rows: [{ code, supplierSku, description, ..., imageBase64, decision }] })
 export async function POST(request: Request) {
-  try {
-    const formData = await request.formData();
-
-    const code = formData.get("code")?.toString() || "";
-    const description = formData.get("description")?.toString() || "";
-    const productDetails = formData.get("productDetails")?.toString() || "";
-    const link = formData.get("link")?.toString() || "";
-    const brand = formData.get("brand")?.toString() || "";
-    const keywords = formData.get("keywords")?.toString() || "";
-    const typeName = formData.get("typeName")?.toString() || "Other";
-    const image = formData.get("image") as File | null;
-
-    if (!code.trim()) {
-      return NextResponse.json(
-        { error: "Product code is required." },
-        { status: 400 }
-      );
-    }
-
-    // Find or create the product type
-    let productType = await prisma.productType.findFirst({ where: { name: typeName } });
-    if (!productType) {
-      productType = await prisma.productType.create({ data: { name: typeName } });
-    }
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
 
-    // Handle image upload - don't fail if R2 upload fails
-    let imageUrl = "/no-image.png";
-    
-    if (image && image.size > 0) {
-      try {
-        const buffer = Buffer.from(await image.arrayBuffer());
-        // Sanitize code for use in key (remove special chars)
-        const safeCode = code.replace(/[^a-zA-Z0-9-_]/g, "_");
-        const key = `products/import-${safeCode}-${Date.now()}.png`;
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
 
-        await uploadToR2({
-          key,
-          body: buffer,
-          contentType: image.type || "image/png",
-        });
+  try {
+    const supplierId = body?.supplierId ? String(body.supplierId) : null;
+    const rows = parseImportRows(body?.rows);
 
-        imageUrl = getPublicUrl(key);
-      } catch (uploadError) {
-        console.error("Image upload failed, using placeholder:", uploadError);
-        // Continue without image - don't fail the whole request
+    if (supplierId) {
+      const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+      if (!supplier) {
+        return NextResponse.json({ error: "Supplier not found." }, { status: 400 });
       }
     }
 
-    // Check if product with this code already exists
-    const existing = await prisma.product.findUnique({ where: { code } });
-    if (existing) {
-      return NextResponse.json(
-        { error: `Product with code ${code} already exists.` },
-        { status: 400 }
-      );
-    }
+    // Upload before the transaction so it isn't held open during network calls
+    const images = await storeImportImages(rows);
 
-    const product = await prisma.product.create({
-      data: {
-        code,
-        typeId: productType.id,
-        description: description || code,
-        productDetails: productDetails || null,
-        imageUrl,
-        link: link || null,
-        brand: brand || null,
-        keywords: keywords || null,
-      },
-      include: { type: true },
-    });
+    const outcomes = await prisma.$transaction(
+      (tx) => applyImportRows(tx, auth.session, { supplierId, rows, images }),
+      // A catalogue of a few hundred rows takes longer than the 5s default
+      { timeout: 60_000 }
+    );
 
-    return NextResponse.json({ product });
+    const count = (result: string) => outcomes.filter((o) => o.result === result).length;
+    return NextResponse.json({
+      created: count("created"),
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      skipped: count("skipped"),
+      rows: outcomes,
+    });
   } catch (error: any) {
-    console.error("Error creating product:", error);
-    
+    // Invalid rows, or decisions that no longer fit, so nothing is written
+    if (error instanceof InvalidImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error importing products:", error);
+
     // Check for specific Prisma errors
     if (error?.code === "P2002") {
       return NextResponse.json(
-        { error: `Product with this code already exists.` },
+        { error: `Product with this code or supplier SKU already exists.` },
         { status: 400 }
       );
     }
-    
+
     return NextResponse.json(
       {
-        error: "Failed to create product",
+        error: "Failed to import products",
         details: error?.message || "Unknown error",
         code: error?.code,
       },
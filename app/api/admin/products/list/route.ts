@@ -1,11 +1,15 @@
 import { NextResponse } from "next/server";
 
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(request: Request) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") || "1");
@@ -17,7 +21,7 @@ export async function GET(request: Request) {
       orderBy: { createdAt: "desc" },
       skip,
       take: pageSize,
-      include: { type: true },
+      include: { type: true, createdBy: { select: { username: true } } },
     });
 
     return NextResponse.json({ products });
@@ -1,12 +1,32 @@
 import { NextResponse } from "next/server";
 
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { UnsupportedImageError } from "@/lib/image-processing";
+import { InvalidPriceError, parsePrice, recordPriceHistory } from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
-import { getPublicUrl, uploadToR2 } from "@/lib/r2";
+import {
+  attributeSchemaOf,
+  attributesFromForm,
+  InvalidAttributesError,
+  parseAttributeValues,
+} from "@/lib/product-attributes";
+import {
+  imageFilesFromForm,
+  MAX_PRODUCT_IMAGES,
+  NO_IMAGE_URL,
+  storeProductImageFiles,
+} from "@/lib/product-images";
+import { parseProductSearchParams, searchProducts } from "@/lib/product-search";
+import { InvalidVariantError, resolveVariantParent } from "@/lib/product-variants";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(request: Request) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
   try {
     const { searchParams } = new URL(request.url);
     const q = searchParams.get("q") ?? "";
@@ -21,25 +41,11 @@ export async function GET(request: Request) {
       return NextResponse.json({ products });
     }
 
-    // Search by code, brand, or keywords
-    const where =
-      q.trim().length === 0
-        ? {}
-        : {
-            OR: [
-              { code: { contains: q, mode: "insensitive" as const } },
-              { brand: { contains: q, mode: "insensitive" as const } },
-              { keywords: { contains: q, mode: "insensitive" as const } },
-            ],
-          };
-
-    const products = await prisma.product.findMany({
-      where,
-      orderBy: { createdAt: "desc" },
-      take: 50,
-      include: { type: true },
-    });
-    
+    // Best 50 matches; /api/admin/products/search pages through the rest
+    const { products } = await searchProducts(
+      parseProductSearchParams(new URLSearchParams({ q }))
+    );
+
     return NextResponse.json({ products });
   } catch (error) {
     console.error("Error fetching products:", error);
@@ -54,6 +60,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requirePermission("catalog:write");
+  if (auth.error) return auth.error;
+
   try {
     const formData = await request.formData();
 
@@ -64,7 +73,13 @@ export async function POST(request: Request) {
     const link = formData.get("link")?.toString() || "";
     const brand = formData.get("brand")?.toString() || "";
     const keywords = formData.get("keywords")?.toString() || "";
-    const image = formData.get("image") as File | null;
+    const gstInclusive = formData.get("gstInclusive")?.toString() === "true";
+    const gstFree = formData.get("gstFree")?.toString() === "true";
+    const parentCode = formData.get("parentCode")?.toString() || "";
+    const finish = formData.get("finish")?.toString() || "";
+    const colour = formData.get("colour")?.toString() || "";
+    const size = formData.get("size")?.toString() || "";
+    const images = imageFilesFromForm(formData, "images", "image");
 
     if (!code.trim()) {
       return NextResponse.json(
@@ -73,6 +88,20 @@ export async function POST(request: Request) {
       );
     }
 
+    let costPrice: string | null;
+    let sellPrice: string | null;
+    let parentId: string | null;
+    try {
+      costPrice = parsePrice(formData.get("costPrice"));
+      sellPrice = parsePrice(formData.get("sellPrice"));
+      parentId = await resolveVariantParent(prisma, null, parentCode);
+    } catch (error) {
+      if (error instanceof InvalidPriceError || error instanceof InvalidVariantError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     if (!typeId) {
       return NextResponse.json({ error: "Product type is required." }, { status: 400 });
     }
@@ -82,6 +111,19 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Product type not found." }, { status: 400 });
     }
 
+    let attributes;
+    try {
+      attributes = parseAttributeValues(
+        attributeSchemaOf(productType),
+        attributesFromForm(formData.get("attributes"))
+      );
+    } catch (error) {
+      if (error instanceof InvalidAttributesError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     if (!description.trim()) {
       return NextResponse.json(
         { error: "Description is required." },
@@ -89,33 +131,68 @@ export async function POST(request: Request) {
       );
     }
 
-    let imageUrl = "/no-image.png"; // Default placeholder
-
-    if (image && image.size > 0) {
-      const buffer = Buffer.from(await image.arrayBuffer());
-      const key = `products/${code}-${Date.now()}-${image.name || "image"}`;
-
-      await uploadToR2({
-        key,
-        body: buffer,
-        contentType: image.type || "application/octet-stream",
-      });
+    if (images.length > MAX_PRODUCT_IMAGES) {
+      return NextResponse.json(
+        { error: `A product can have at most ${MAX_PRODUCT_IMAGES} images.` },
+        { status: 400 }
+      );
+    }
 
-      imageUrl = getPublicUrl(key);
+    // Images keep the order they were uploaded in; the first is primary
+    let storedImages;
+    try {
+      storedImages = await storeProductImageFiles(images);
+    } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
 
-    const product = await prisma.product.create({
-      data: {
-        code,
-        typeId: productType.id,
-        description,
-        productDetails: productDetails || null,
-        imageUrl,
-        link: link || null,
-        brand: brand || null,
-        keywords: keywords || null,
-      },
-      include: { type: true },
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          code,
+          typeId: productType.id,
+          description,
+          productDetails: productDetails || null,
+          imageUrl: storedImages[0]?.url ?? NO_IMAGE_URL,
+          images: {
+            create: storedImages.map((image, index) => ({
+              ...image,
+              sortOrder: index,
+              isPrimary: index === 0,
+            })),
+          },
+          link: link || null,
+          brand: brand || null,
+          keywords: keywords || null,
+          costPrice,
+          sellPrice,
+          gstInclusive,
+          gstFree,
+          parentId,
+          finish: finish || null,
+          colour: colour || null,
+          size: size || null,
+          attributes,
+          createdById: auth.session.userId,
+        },
+        include: { type: true },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "create",
+        entityType: "product",
+        entityId: created.id,
+        entityLabel: created.code,
+        after: created,
+      });
+      await recordPriceHistory(tx, auth.session, {
+        productId: created.id,
+        source: "edit",
+        after: created,
+      });
+      return created;
     });
 
     return NextResponse.json({ product });
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  InvalidSearchCursorError,
+  parseProductSearchParams,
+  searchProducts,
+} from "@/lib/product-search";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/products/search - Ranked search with facet counts and cursor pagination
+export async function GET(request: Request) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await searchProducts(parseProductSearchParams(searchParams));
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (error instanceof InvalidSearchCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error searching products:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to search products",
+        details: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
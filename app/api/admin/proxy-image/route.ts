@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 
+import { requirePermission } from "@/lib/auth";
+
 export async function GET(request: Request) {
+  const auth = await requirePermission("catalog:read");
+  if (auth.error) return auth.error;
+
   try {
     const { searchParams } = new URL(request.url);
     const imageUrl = searchParams.get("url");
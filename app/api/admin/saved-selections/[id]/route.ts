@@ -1,4 +1,5 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 
@@ -10,10 +11,8 @@ export async function GET(
   _req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:read");
+  if (auth.error) return auth.error;
 
   const { id } = await params;
 
@@ -41,16 +40,23 @@ export async function DELETE(
   _req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:delete");
+  if (auth.error) return auth.error;
 
   const { id } = await params;
 
   try {
-    await prisma.savedSelection.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.savedSelection.delete({
+        where: { id },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "delete",
+        entityType: "savedSelection",
+        entityId: id,
+        entityLabel: deleted.name,
+        before: deleted,
+      });
     });
 
     return NextResponse.json({ success: true });
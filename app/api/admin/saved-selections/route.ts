@@ -1,4 +1,5 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 
@@ -7,14 +8,13 @@ export const dynamic = "force-dynamic";
 
 // GET - List all saved selections
 export async function GET() {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:read");
+  if (auth.error) return auth.error;
 
   try {
     const selections = await prisma.savedSelection.findMany({
       orderBy: { updatedAt: "desc" },
+      include: { createdBy: { select: { username: true } } },
     });
     return NextResponse.json({ selections });
   } catch (error: unknown) {
@@ -28,10 +28,8 @@ export async function GET() {
 
 // POST - Create or update a saved selection
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("selections:write");
+  if (auth.error) return auth.error;
 
   let payload: {
     id?: string;
@@ -49,6 +47,11 @@ export async function POST(req: Request) {
       description: string;
       productDetails: string | null;
       imageUrl: string;
+      imageUrls?: string[]; // Images chosen for the document
+      variantId?: string | null; // Chosen variant; code, images etc. above are its
+      finish?: string | null;
+      colour?: string | null;
+      size?: string | null;
       quantity: string;
       notes: string;
       link: string | null;
@@ -74,27 +77,37 @@ export async function POST(req: Request) {
   const selectionName = name?.trim() || `${address.trim()} - ${new Date(date || Date.now()).toLocaleDateString()}`;
 
   try {
-    let selection;
+    const selection = await prisma.$transaction(async (tx) => {
+      if (id) {
+        // Update existing selection
+        const existing = await tx.savedSelection.findUnique({ where: { id } });
+        const updated = await tx.savedSelection.update({
+          where: { id },
+          data: {
+            name: selectionName,
+            address: address.trim(),
+            date: date || new Date().toISOString().split("T")[0],
+            contactName: contactName?.trim() || null,
+            company: company?.trim() || null,
+            phoneNumber: phoneNumber?.trim() || null,
+            email: email?.trim() || null,
+            products: products || [],
+            status: status || "draft",
+          },
+        });
+        await recordAuditEvent(tx, auth.session, {
+          action: "update",
+          entityType: "savedSelection",
+          entityId: updated.id,
+          entityLabel: updated.name,
+          before: existing,
+          after: updated,
+        });
+        return updated;
+      }
 
-    if (id) {
-      // Update existing selection
-      selection = await prisma.savedSelection.update({
-        where: { id },
-        data: {
-          name: selectionName,
-          address: address.trim(),
-          date: date || new Date().toISOString().split("T")[0],
-          contactName: contactName?.trim() || null,
-          company: company?.trim() || null,
-          phoneNumber: phoneNumber?.trim() || null,
-          email: email?.trim() || null,
-          products: products || [],
-          status: status || "draft",
-        },
-      });
-    } else {
       // Create new selection
-      selection = await prisma.savedSelection.create({
+      const created = await tx.savedSelection.create({
         data: {
           name: selectionName,
           address: address.trim(),
@@ -105,9 +118,18 @@ export async function POST(req: Request) {
           email: email?.trim() || null,
           products: products || [],
           status: status || "draft",
+          createdById: auth.session.userId,
         },
       });
-    }
+      await recordAuditEvent(tx, auth.session, {
+        action: "create",
+        entityType: "savedSelection",
+        entityId: created.id,
+        entityLabel: created.name,
+        after: created,
+      });
+      return created;
+    });
 
     return NextResponse.json({ selection });
   } catch (error: unknown) {
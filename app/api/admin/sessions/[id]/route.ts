@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { getSessionFromCookies, revokeSession } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// DELETE /api/admin/sessions/[id] - Revoke a single session
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const target = await prisma.session.findUnique({ where: { id } });
+    if (!target) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (
+      target.userId !== session.userId &&
+      !hasPermission(session.role, "users:manage")
+    ) {
+      return NextResponse.json(
+        { error: "You do not have permission to do this" },
+        { status: 403 }
+      );
+    }
+
+    await revokeSession(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+
+import { getSessionFromCookies, revokeUserSessions } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/sessions - List active sessions (everyone's for user managers, otherwise your own)
+export async function GET() {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = hasPermission(session.role, "users:manage");
+
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        ...(!canManage && { userId: session.userId }),
+      },
+      include: { user: { select: { username: true } } },
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    return NextResponse.json({
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        expiresAt: s.expiresAt,
+        ipAddress: s.ipAddress,
+        userAgent: s.userAgent,
+        userId: s.userId,
+        username: s.user.username,
+        current: s.id === session.sessionId,
+      })),
+      canManage,
+    });
+  } catch (error: any) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sessions", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/sessions - Log out everywhere
+//   ?userId=<id>  revoke another user's sessions (user managers only)
+//   ?all=true     revoke every session except the current one (user managers only)
+export async function DELETE(req: Request) {
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const userId = searchParams.get("userId") || session.userId;
+  const all = searchParams.get("all") === "true";
+
+  if ((all || userId !== session.userId) && !hasPermission(session.role, "users:manage")) {
+    return NextResponse.json(
+      { error: "You do not have permission to do this" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    let revoked: number;
+    if (all) {
+      const result = await prisma.session.updateMany({
+        where: { revokedAt: null, id: { not: session.sessionId } },
+        data: { revokedAt: new Date() },
+      });
+      revoked = result.count;
+    } else {
+      revoked = await revokeUserSessions(userId);
+    }
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error: any) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
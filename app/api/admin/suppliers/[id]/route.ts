@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { parseHeaderAliases } from "@/lib/supplier-columns";
 import type { ColumnMapping } from "../route";
 
 // GET /api/admin/suppliers/[id] - Get a single supplier
@@ -8,10 +10,8 @@ export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("suppliers:read");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
@@ -42,15 +42,13 @@ export async function PUT(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("suppliers:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
     const body = await req.json();
-    const { name, columnMappings, startRow, hasHeaderRow } = body;
+    const { name, columnMappings, startRow, hasHeaderRow, headerAliases } = body;
 
     // Check supplier exists
     const existing = await prisma.supplier.findUnique({
@@ -77,14 +75,26 @@ export async function PUT(
       }
     }
 
-    const supplier = await prisma.supplier.update({
-      where: { id },
-      data: {
-        ...(name && { name: name.trim() }),
-        ...(columnMappings && { columnMappings }),
-        ...(startRow !== undefined && { startRow }),
-        ...(hasHeaderRow !== undefined && { hasHeaderRow }),
-      },
+    const supplier = await prisma.$transaction(async (tx) => {
+      const updated = await tx.supplier.update({
+        where: { id },
+        data: {
+          ...(name && { name: name.trim() }),
+          ...(columnMappings && { columnMappings }),
+          ...(startRow !== undefined && { startRow }),
+          ...(hasHeaderRow !== undefined && { hasHeaderRow }),
+          ...(headerAliases !== undefined && { headerAliases: parseHeaderAliases(headerAliases) }),
+        },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "update",
+        entityType: "supplier",
+        entityId: id,
+        entityLabel: updated.name,
+        before: existing,
+        after: updated,
+      });
+      return updated;
     });
 
     return NextResponse.json({ supplier });
@@ -110,16 +120,23 @@ export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("suppliers:write");
+  if (auth.error) return auth.error;
 
   try {
     const { id } = await params;
 
-    await prisma.supplier.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.supplier.delete({
+        where: { id },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "delete",
+        entityType: "supplier",
+        entityId: id,
+        entityLabel: deleted.name,
+        before: deleted,
+      });
     });
 
     return NextResponse.json({ success: true });
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { requirePermission } from "@/lib/auth";
+import { parseHeaderAliases } from "@/lib/supplier-columns";
 
 // Available fields that can be mapped to columns
 export const MAPPABLE_FIELDS = [
@@ -25,10 +27,8 @@ export type ColumnMapping = {
 
 // GET /api/admin/suppliers - List all suppliers
 export async function GET() {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("suppliers:read");
+  if (auth.error) return auth.error;
 
   try {
     const suppliers = await prisma.supplier.findMany({
@@ -47,14 +47,12 @@ export async function GET() {
 
 // POST /api/admin/suppliers - Create a new supplier
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await requirePermission("suppliers:write");
+  if (auth.error) return auth.error;
 
   try {
     const body = await req.json();
-    const { name, columnMappings, startRow, hasHeaderRow } = body;
+    const { name, columnMappings, startRow, hasHeaderRow, headerAliases } = body;
 
     if (!name || typeof name !== "string" || name.trim().length === 0) {
       return NextResponse.json(
@@ -81,13 +79,24 @@ export async function POST(req: Request) {
       );
     }
 
-    const supplier = await prisma.supplier.create({
-      data: {
-        name: name.trim(),
-        columnMappings: columnMappings,
-        startRow: startRow || 2,
-        hasHeaderRow: hasHeaderRow !== false,
-      },
+    const supplier = await prisma.$transaction(async (tx) => {
+      const created = await tx.supplier.create({
+        data: {
+          name: name.trim(),
+          columnMappings: columnMappings,
+          startRow: startRow || 2,
+          hasHeaderRow: hasHeaderRow !== false,
+          headerAliases: parseHeaderAliases(headerAliases),
+        },
+      });
+      await recordAuditEvent(tx, auth.session, {
+        action: "create",
+        entityType: "supplier",
+        entityId: created.id,
+        entityLabel: created.name,
+        after: created,
+      });
+      return created;
     });
 
     return NextResponse.json({ supplier }, { status: 201 });
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission, revokeUserSessions } from "@/lib/auth";
+import { generateTemporaryPassword, hashPassword } from "@/lib/passwords";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/users/[id]/reset-password - Replace a user's password with a new temporary one
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+
+  try {
+    const temporaryPassword = generateTemporaryPassword();
+    await prisma.adminUser.update({
+      where: { id },
+      data: { passwordHash: await hashPassword(temporaryPassword) },
+    });
+    await revokeUserSessions(id);
+
+    return NextResponse.json({ temporaryPassword });
+  } catch (error: any) {
+    console.error("Error resetting password:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to reset password", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+
+import { adminUserSelect } from "@/lib/admin-users";
+import { requirePermission, revokeUserSessions } from "@/lib/auth";
+import { isRole } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// PATCH /api/admin/users/[id] - Update a user's details, role or disable/enable them.
+// { resetTwoFactor: true } turns off 2FA for a user who has lost their device.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const { disabled, email, name, role, resetTwoFactor } = body ?? {};
+
+  if (role !== undefined && !isRole(role)) {
+    return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma.adminUser.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (disabled === true && id === auth.session.userId) {
+      return NextResponse.json(
+        { error: "You cannot disable your own account" },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && role !== existing.role && id === auth.session.userId) {
+      return NextResponse.json(
+        { error: "You cannot change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.adminUser.update({
+      where: { id },
+      data: {
+        ...(typeof disabled === "boolean" && { disabled }),
+        ...(role !== undefined && { role }),
+        ...(resetTwoFactor === true && {
+          totpEnabled: false,
+          totpSecret: null,
+          totpLastUsedStep: null,
+          totpRecoveryCodes: [],
+        }),
+        ...(email !== undefined && { email: email?.toString().trim() || null }),
+        ...(name !== undefined && { name: name?.toString().trim() || null }),
+      },
+      select: adminUserSelect,
+    });
+
+    if (disabled === true) {
+      await revokeUserSessions(id);
+    }
+
+    return NextResponse.json({ user });
+  } catch (error: any) {
+    console.error("Error updating user:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update user", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
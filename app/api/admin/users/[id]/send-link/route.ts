@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+
+import {
+  getAppUrl,
+  sendInviteEmail,
+  sendPasswordResetEmail,
+} from "@/lib/account-tokens";
+import { requirePermission } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/users/[id]/send-link - Email an invite (never signed in) or password reset link
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+
+  try {
+    const user = await prisma.adminUser.findUnique({
+      where: { id },
+      select: { id: true, username: true, email: true, disabled: true, lastLoginAt: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (!user.email) {
+      return NextResponse.json(
+        { error: "This user has no email address" },
+        { status: 400 }
+      );
+    }
+    if (user.disabled) {
+      return NextResponse.json(
+        { error: "Enable this user before sending them a link" },
+        { status: 400 }
+      );
+    }
+
+    const recipient = { id: user.id, username: user.username, email: user.email };
+    const appUrl = getAppUrl(req);
+    const purpose = user.lastLoginAt ? "reset" : "invite";
+
+    if (purpose === "invite") {
+      await sendInviteEmail({ user: recipient, invitedBy: auth.session.username, appUrl });
+    } else {
+      await sendPasswordResetEmail({ user: recipient, appUrl });
+    }
+
+    return NextResponse.json({ success: true, purpose });
+  } catch (error: any) {
+    console.error("Error sending account link:", error);
+    return NextResponse.json(
+      { error: "Failed to send email", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
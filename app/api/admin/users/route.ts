@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+
+import { getAppUrl, sendInviteEmail } from "@/lib/account-tokens";
+import { adminUserSelect } from "@/lib/admin-users";
+import { requirePermission } from "@/lib/auth";
+import { generateTemporaryPassword, hashPassword } from "@/lib/passwords";
+import { isRole } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/users - List all admin users
+export async function GET() {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  try {
+    const users = await prisma.adminUser.findMany({
+      select: adminUserSelect,
+      orderBy: { username: "asc" },
+    });
+    return NextResponse.json({ users });
+  } catch (error: any) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/users - Invite a user. With an email address they get a link
+// to choose a password; without one a temporary password is returned instead.
+export async function POST(req: Request) {
+  const auth = await requirePermission("users:manage");
+  if (auth.error) return auth.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username = body?.username?.toString().trim();
+  const email = body?.email?.toString().trim() || null;
+  const name = body?.name?.toString().trim() || null;
+  const role = body?.role ?? "viewer";
+
+  if (!username) {
+    return NextResponse.json(
+      { error: "Username is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!isRole(role)) {
+    return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+  }
+
+  try {
+    // Invited users never see this password; it only fills the column until
+    // they follow the link.
+    const temporaryPassword = generateTemporaryPassword();
+    const user = await prisma.adminUser.create({
+      data: {
+        username,
+        email,
+        name,
+        role,
+        passwordHash: await hashPassword(temporaryPassword),
+      },
+      select: adminUserSelect,
+    });
+
+    if (!user.email) {
+      return NextResponse.json({ user, temporaryPassword }, { status: 201 });
+    }
+
+    try {
+      await sendInviteEmail({
+        user: { ...user, email: user.email },
+        invitedBy: auth.session.username,
+        appUrl: getAppUrl(req),
+      });
+    } catch (mailError: any) {
+      // The account exists; the invite can be resent from the users page.
+      console.error("Error sending invite email:", mailError);
+      return NextResponse.json(
+        { user, invited: false, inviteError: mailError?.message || "Failed to send invite" },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json({ user, invited: true }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating user:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A user with this username or email already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create user", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import crypto from "crypto";
+
+import { sendMail } from "@/lib/mailer";
+import { prisma } from "@/lib/prisma";
+
+// Single-use links emailed to users: an invite to set a first password, or a
+// password reset. Only a hash of the token is stored.
+export type AccountTokenPurpose = "invite" | "reset";
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  invite: 1000 * 60 * 60 * 24 * 7, // 7 days to accept an invite
+  reset: 1000 * 60 * 60, // 1 hour to use a reset link
+};
+
+function hashAccountToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Public base URL for links in emails. Production requires APP_URL: the
+// request origin comes from the Host header, which a caller can forge to
+// send reset links to their own domain. Local development falls back to it.
+export function getAppUrl(request: Request): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, "");
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL is not configured.");
+  }
+  return new URL(request.url).origin;
+}
+
+export async function createAccountToken(
+  userId: string,
+  purpose: AccountTokenPurpose
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString("base64url");
+
+  await prisma.accountToken.create({
+    data: {
+      purpose,
+      tokenHash: hashAccountToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+      userId,
+    },
+  });
+
+  return token;
+}
+
+// Returns the token record if it is unused, unexpired and its user enabled.
+export async function findValidAccountToken(token?: string | null) {
+  if (!token) return null;
+
+  const record = await prisma.accountToken.findUnique({
+    where: { tokenHash: hashAccountToken(token) },
+    include: {
+      user: { select: { id: true, username: true, disabled: true } },
+    },
+  });
+
+  if (
+    !record ||
+    record.usedAt ||
+    record.expiresAt.getTime() < Date.now() ||
+    record.user.disabled
+  ) {
+    return null;
+  }
+
+  return record;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function accountEmail(params: { heading: string; intro: string; action: string; link: string; footer: string }) {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(params.heading)}</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #161441 0%, #1e1b4b 100%); padding: 30px; text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #fbbf24; margin: 0; font-size: 28px;">${escapeHtml(params.heading)}</h1>
+        <p style="color: #e5e7eb; margin: 10px 0 0 0;">PdCon Admin</p>
+      </div>
+
+      <div style="padding: 0 25px;">
+        <p>${escapeHtml(params.intro)}</p>
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(params.link)}" style="background: #f59e0b; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">${escapeHtml(params.action)}</a>
+        </p>
+        <p style="font-size: 12px; color: #6b7280;">Or paste this link into your browser:<br>${escapeHtml(params.link)}</p>
+        <p style="font-size: 12px; color: #6b7280;">${escapeHtml(params.footer)}</p>
+      </div>
+    </body>
+    </html>
+  `;
+  const text = `${params.intro}\n\n${params.action}: ${params.link}\n\n${params.footer}`;
+  return { html, text };
+}
+
+export async function sendInviteEmail(params: {
+  user: { id: string; username: string; email: string };
+  invitedBy: string;
+  appUrl: string;
+}) {
+  const token = await createAccountToken(params.user.id, "invite");
+  const link = `${params.appUrl}/admin/reset-password?token=${token}`;
+
+  await sendMail({
+    to: params.user.email,
+    subject: "You've been invited to PdCon Admin",
+    ...accountEmail({
+      heading: "You're invited",
+      intro: `${params.invitedBy} has invited you to PdCon Admin. Your username is ${params.user.username}. Choose a password to finish setting up your account.`,
+      action: "Set your password",
+      link,
+      footer: "This link can be used once and expires in 7 days.",
+    }),
+  });
+}
+
+export async function sendPasswordResetEmail(params: {
+  user: { id: string; username: string; email: string };
+  appUrl: string;
+}) {
+  const token = await createAccountToken(params.user.id, "reset");
+  const link = `${params.appUrl}/admin/reset-password?token=${token}`;
+
+  await sendMail({
+    to: params.user.email,
+    subject: "Reset your PdCon Admin password",
+    ...accountEmail({
+      heading: "Reset your password",
+      intro: `Someone asked to reset the password for ${params.user.username}. If that was you, choose a new password below.`,
+      action: "Reset password",
+      link,
+      footer:
+        "This link can be used once and expires in 1 hour. If you did not ask for a reset you can ignore this email.",
+    }),
+  });
+}
@@ -0,0 +1,18 @@
+import { Prisma } from "@prisma/client";
+
+// Fields that are safe to send to the admin UI (never the password hash).
+export const adminUserSelect = {
+  id: true,
+  createdAt: true,
+  username: true,
+  email: true,
+  name: true,
+  role: true,
+  disabled: true,
+  totpEnabled: true,
+  lastLoginAt: true,
+} satisfies Prisma.AdminUserSelect;
+
+export type AdminUserSummary = Prisma.AdminUserGetPayload<{
+  select: typeof adminUserSelect;
+}>;
@@ -0,0 +1,94 @@
+import crypto from "crypto";
+
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+
+// Personal API tokens let scripts call the admin API with
+// "Authorization: Bearer <token>". A token can only use the scopes it was
+// created with, and only while its owner's role still grants them.
+export const API_TOKEN_PREFIX = "pdc_";
+const LAST_USED_UPDATE_INTERVAL_MS = 1000 * 60; // Throttle lastUsedAt writes
+
+export const API_TOKEN_MAX_TTL_DAYS = 365;
+
+// Managing users is left to signed-in admins; tokens never carry it.
+export const API_TOKEN_SCOPES: { value: Permission; label: string }[] = [
+  { value: "catalog:read", label: "Read products, types and areas" },
+  { value: "catalog:write", label: "Create, edit and import products" },
+  { value: "suppliers:read", label: "Read suppliers" },
+  { value: "suppliers:write", label: "Edit suppliers" },
+  { value: "selections:read", label: "Read saved selections" },
+  { value: "selections:write", label: "Save selections and parse PDFs" },
+  { value: "selections:generate", label: "Generate selection PDFs" },
+  { value: "selections:delete", label: "Delete saved selections" },
+  { value: "audit:read", label: "Read the audit log" },
+];
+
+export function isApiTokenScope(value: unknown): value is Permission {
+  return API_TOKEN_SCOPES.some((s) => s.value === value);
+}
+
+function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken() {
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+export type ApiTokenAuth = {
+  apiTokenId: string;
+  userId: string;
+  username: string;
+  role: string;
+  scopes: string[];
+};
+
+// Looks up an unrevoked, unexpired token whose owner is still enabled.
+export async function verifyApiToken(token: string): Promise<ApiTokenAuth | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: { select: { username: true, role: true, disabled: true } },
+    },
+  });
+
+  const now = Date.now();
+  if (
+    !record ||
+    record.revokedAt ||
+    record.expiresAt.getTime() < now ||
+    record.user.disabled
+  ) {
+    return null;
+  }
+
+  if (
+    !record.lastUsedAt ||
+    now - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await prisma.apiToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date(now) },
+    });
+  }
+
+  return {
+    apiTokenId: record.id,
+    userId: record.userId,
+    username: record.user.username,
+    role: record.user.role,
+    scopes: record.scopes,
+  };
+}
+
+export function apiTokenHasPermission(auth: ApiTokenAuth, permission: Permission) {
+  return auth.scopes.includes(permission) && hasPermission(auth.role, permission);
+}
@@ -0,0 +1,94 @@
+import type { Prisma } from "@prisma/client";
+
+import type { AdminPrincipal } from "@/lib/auth";
+
+export const AUDIT_ENTITY_TYPES = [
+  { value: "product", label: "Product" },
+  { value: "productType", label: "Product Type" },
+  { value: "area", label: "Area" },
+  { value: "supplier", label: "Supplier" },
+  { value: "savedSelection", label: "Saved Selection" },
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]["value"];
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditChanges = Record<
+  string,
+  { before: Prisma.JsonValue; after: Prisma.JsonValue }
+>;
+
+// Timestamps change on every write, and included relations (e.g. a
+// product's type) are audited on their own entity, so neither is compared.
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+function isRelation(value: unknown) {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    "id" in value
+  );
+}
+
+function toJson(value: unknown): Prisma.JsonValue {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const oldValue = before?.[key];
+    const newValue = after?.[key];
+    if (IGNORED_FIELDS.has(key) || isRelation(oldValue) || isRelation(newValue)) {
+      continue;
+    }
+
+    const oldJson = toJson(oldValue);
+    const newJson = toJson(newValue);
+    if (JSON.stringify(oldJson) !== JSON.stringify(newJson)) {
+      changes[key] = { before: oldJson, after: newJson };
+    }
+  }
+
+  return changes;
+}
+
+// Writes an audit event. Pass the transaction client so the event commits
+// or rolls back together with the change it describes. Updates that change
+// nothing are not recorded.
+export async function recordAuditEvent(
+  db: Pick<Prisma.TransactionClient, "auditEvent">,
+  actor: AdminPrincipal,
+  event: {
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    entityLabel?: string | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+  }
+) {
+  const changes = diffRecords(event.before ?? null, event.after ?? null);
+  if (event.action === "update" && Object.keys(changes).length === 0) return;
+
+  await db.auditEvent.create({
+    data: {
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      entityLabel: event.entityLabel ?? null,
+      changes,
+      actorName: actor.username,
+      apiTokenId: actor.apiTokenId ?? null,
+      actorId: actor.userId,
+    },
+  });
+}
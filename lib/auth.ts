@@ -1,15 +1,25 @@
 import crypto from "crypto";
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { NextResponse } from "next/server";
 
-export type SessionPayload = {
-  username: string;
-  exp: number;
-};
+import { apiTokenHasPermission, verifyApiToken } from "@/lib/api-tokens";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import {
+  CSRF_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  csrfTokenForSession,
+  signPayload,
+  verifySessionToken,
+  type SessionPayload,
+} from "@/lib/session-token";
+
+export { SESSION_COOKIE_NAME, verifySessionToken, type SessionPayload };
 
-export const SESSION_COOKIE_NAME = "admin_session";
-const SESSION_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days absolute lifetime
+const SESSION_IDLE_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours without activity
+const LAST_SEEN_UPDATE_INTERVAL_MS = 1000 * 60; // Throttle lastSeenAt writes
 
 const cookieBaseOptions = {
   httpOnly: true,
@@ -18,69 +28,43 @@ const cookieBaseOptions = {
   path: "/",
 };
 
-function getSecret(): string {
-  const secret =
-    process.env.ADMIN_SESSION_SECRET ||
-    process.env.ADMIN_PASSWORD ||
-    process.env.ADMIN_USERNAME;
-
-  if (!secret) {
-    // Fallback only for local usage; production should set a secret.
-    return "set-admin-session-secret";
-  }
-
-  return secret;
-}
-
-function signPayload(payload: SessionPayload): string {
-  const base = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const signature = crypto
-    .createHmac("sha256", getSecret())
-    .update(base)
-    .digest("hex");
-
-  return `${base}.${signature}`;
+// The client's address as the platform saw it. Vercel sets x-real-ip
+// itself; other proxies append the address they saw to x-forwarded-for.
+// Earlier x-forwarded-for entries come from the client and can't be trusted,
+// since sign-in throttling and the audit trail key on this.
+export function getRequestMeta(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for");
+  return {
+    ipAddress:
+      request.headers.get("x-real-ip")?.trim() ||
+      forwarded?.split(",").pop()?.trim() ||
+      null,
+    userAgent: request.headers.get("user-agent"),
+  };
 }
 
-export function verifySession(token?: string): SessionPayload | null {
-  if (!token || typeof token !== "string") return null;
-
-  const [base, signature] = token.split(".");
-  if (!base || !signature) return null;
-
-  const expectedSig = crypto
-    .createHmac("sha256", getSecret())
-    .update(base)
-    .digest("hex");
-
-  const sigBuffer = Buffer.from(signature);
-  const expectedBuffer = Buffer.from(expectedSig);
-
-  if (
-    sigBuffer.length !== expectedBuffer.length ||
-    !crypto.timingSafeEqual(sigBuffer, expectedBuffer)
-  ) {
-    return null;
-  }
-
-  try {
-    const payload = JSON.parse(
-      Buffer.from(base, "base64url").toString("utf8")
-    ) as SessionPayload;
-
-    if (typeof payload.exp !== "number" || Date.now() > payload.exp) {
-      return null;
-    }
+export async function createSession(
+  user: { id: string; username: string; role: string },
+  meta: { ipAddress?: string | null; userAgent?: string | null } = {},
+  ttlMs = SESSION_TTL_MS
+) {
+  const sessionId = crypto.randomBytes(32).toString("base64url");
 
-    return payload;
-  } catch {
-    return null;
-  }
-}
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + Math.min(ttlMs, SESSION_IDLE_TTL_MS)),
+      ipAddress: meta.ipAddress ?? null,
+      userAgent: meta.userAgent ?? null,
+    },
+  });
 
-export function createSession(username: string, ttlMs = SESSION_TTL_MS) {
   const payload: SessionPayload = {
-    username,
+    sessionId,
+    userId: user.id,
+    username: user.username,
+    role: user.role,
     exp: Date.now() + ttlMs,
   };
 
@@ -90,6 +74,26 @@ export function createSession(username: string, ttlMs = SESSION_TTL_MS) {
   };
 }
 
+// Final step of every sign-in path: records the login, opens a session and
+// returns a response carrying its cookie.
+export async function signInResponse(
+  user: { id: string; username: string; role: string },
+  request: Request
+) {
+  await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  const { token, payload } = await createSession(user, getRequestMeta(request));
+  const response = NextResponse.json({ ok: true, exp: payload.exp });
+
+  setSessionCookie(response, token, payload.exp - Date.now());
+  setCsrfCookie(response, payload.sessionId, payload.exp - Date.now());
+
+  return response;
+}
+
 export function setSessionCookie(
   response: NextResponse,
   token: string,
@@ -101,11 +105,92 @@ export function setSessionCookie(
   });
 }
 
+// Readable by page scripts (not httpOnly) so they can echo it in the CSRF
+// header; see app/admin/csrf-fetch.tsx.
+export function setCsrfCookie(
+  response: NextResponse,
+  sessionId: string,
+  ttlMs = SESSION_TTL_MS
+) {
+  response.cookies.set(CSRF_COOKIE_NAME, csrfTokenForSession(sessionId), {
+    ...cookieBaseOptions,
+    httpOnly: false,
+    maxAge: Math.floor(ttlMs / 1000),
+  });
+}
+
 export function clearSessionCookie(response: NextResponse) {
   response.cookies.set(SESSION_COOKIE_NAME, "", {
     ...cookieBaseOptions,
     maxAge: 0,
   });
+  response.cookies.set(CSRF_COOKIE_NAME, "", {
+    ...cookieBaseOptions,
+    httpOnly: false,
+    maxAge: 0,
+  });
+}
+
+// Verifies the token and checks it against the session store, so revoked,
+// idle or disabled-user sessions are rejected before their token expires.
+export async function verifySession(
+  token?: string
+): Promise<SessionPayload | null> {
+  const payload = verifySessionToken(token);
+  if (!payload) return null;
+
+  const record = await prisma.session.findUnique({
+    where: { id: payload.sessionId },
+    include: {
+      user: { select: { username: true, role: true, disabled: true } },
+    },
+  });
+
+  const now = Date.now();
+  if (
+    !record ||
+    record.revokedAt ||
+    record.expiresAt.getTime() < now ||
+    record.userId !== payload.userId ||
+    record.user.disabled
+  ) {
+    return null;
+  }
+
+  // Sliding idle expiry
+  if (now - record.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: record.id },
+      data: {
+        lastSeenAt: new Date(now),
+        expiresAt: new Date(Math.min(now + SESSION_IDLE_TTL_MS, payload.exp)),
+      },
+    });
+  }
+
+  return { ...payload, username: record.user.username, role: record.user.role };
+}
+
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function revokeUserSessions(
+  userId: string,
+  options: { exceptSessionId?: string } = {}
+) {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
 }
 
 export async function getSessionFromCookies(): Promise<SessionPayload | null> {
@@ -114,11 +199,85 @@ export async function getSessionFromCookies(): Promise<SessionPayload | null> {
   return verifySession(token);
 }
 
-export async function requireAdmin() {
+// The caller of an admin API handler: a browser session, or a script using
+// an API token (sessionId is then unset).
+export type AdminPrincipal = {
+  userId: string;
+  username: string;
+  role: string;
+  sessionId?: string;
+  apiTokenId?: string;
+};
+
+async function getBearerToken(): Promise<string | null> {
+  const header = (await headers()).get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Shared check for admin API handlers:
+//   const auth = await requirePermission("catalog:write");
+//   if (auth.error) return auth.error;
+// Accepts a session cookie or an "Authorization: Bearer" API token.
+export async function requirePermission(
+  permission: Permission
+): Promise<
+  | { session: AdminPrincipal; error?: undefined }
+  | { session?: undefined; error: NextResponse }
+> {
+  const forbidden = () => ({
+    error: NextResponse.json(
+      { error: "You do not have permission to do this" },
+      { status: 403 }
+    ),
+  });
+
+  const bearer = await getBearerToken();
+  if (bearer) {
+    const token = await verifyApiToken(bearer);
+    if (!token) {
+      return {
+        error: NextResponse.json(
+          { error: "Invalid or expired API token" },
+          { status: 401 }
+        ),
+      };
+    }
+    if (!apiTokenHasPermission(token, permission)) {
+      return forbidden();
+    }
+    return {
+      session: {
+        userId: token.userId,
+        username: token.username,
+        role: token.role,
+        apiTokenId: token.apiTokenId,
+      },
+    };
+  }
+
+  const session = await getSessionFromCookies();
+  if (!session) {
+    return {
+      error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  if (!hasPermission(session.role, permission)) {
+    return forbidden();
+  }
+
+  return { session };
+}
+
+export async function requireAdmin(permission?: Permission) {
   const session = await getSessionFromCookies();
   if (!session) {
     redirect("/admin");
   }
+  if (permission && !hasPermission(session.role, permission)) {
+    redirect("/admin?error=forbidden");
+  }
   return session;
 }
 
@@ -0,0 +1,103 @@
+import type { Prisma } from "@prisma/client";
+
+import { attributeSchemaOf, formatAttributes } from "@/lib/product-attributes";
+import { SUPPLIER_LISTINGS_INCLUDE } from "@/lib/product-suppliers";
+import type { SheetCell } from "@/lib/spreadsheets";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Everything a catalog row shows, loaded a page of products at a time.
+export const EXPORT_PRODUCT_INCLUDE = {
+  type: true,
+  suppliers: SUPPLIER_LISTINGS_INCLUDE,
+  images: { orderBy: { sortOrder: "asc" }, select: { url: true } },
+  parent: { select: { code: true } },
+} satisfies Prisma.ProductInclude;
+
+type ExportProduct = Prisma.ProductGetPayload<{ include: typeof EXPORT_PRODUCT_INCLUDE }>;
+
+export const EXPORT_HEADER = [
+  "Code",
+  "Description",
+  "Type",
+  "Brand",
+  "Keywords",
+  "Link",
+  "Product details",
+  "Attributes",
+  "Variant of",
+  "Finish",
+  "Colour",
+  "Size",
+  "Cost price",
+  "Sell price",
+  "GST inclusive",
+  "GST free",
+  "Preferred supplier",
+  "Supplier SKU",
+  "Supplier cost",
+  "Lead time (days)",
+  "All suppliers",
+  "Image URL",
+  "Other image URLs",
+  "Created",
+  "Updated",
+];
+
+function link(url: string | null | undefined): SheetCell {
+  return url ? { text: url, link: url } : null;
+}
+
+function price(value: Prisma.Decimal | null) {
+  return value === null ? null : Number(value);
+}
+
+// One row per product, in EXPORT_HEADER order. The preferred supplier gets
+// its own columns for reconciliation; every listing is in "All suppliers".
+export function exportRow(product: ExportProduct): SheetCell[] {
+  const [preferred] = product.suppliers;
+  const [primary, ...others] = product.images.map((image) => image.url);
+
+  return [
+    product.code,
+    product.description,
+    product.type?.name ?? null,
+    product.brand,
+    product.keywords,
+    link(product.link),
+    product.productDetails,
+    formatAttributes(attributeSchemaOf(product.type), product.attributes) || null,
+    product.parent?.code ?? null,
+    product.finish,
+    product.colour,
+    product.size,
+    price(product.costPrice),
+    price(product.sellPrice),
+    product.gstInclusive ? "Yes" : "No",
+    product.gstFree ? "Yes" : "No",
+    preferred?.supplier.name ?? null,
+    preferred?.supplierSku ?? null,
+    price(preferred?.costPrice ?? null),
+    preferred?.leadTimeDays ?? null,
+    product.suppliers
+      .map(
+        (listing) =>
+          `${listing.supplier.name}: ${listing.supplierSku}${
+            listing.costPrice !== null ? ` ($${listing.costPrice})` : ""
+          }`
+      )
+      .join("; ") || null,
+    // Products without an uploaded image point at the placeholder
+    link(primary ?? product.imageUrl),
+    others.join("\n") || null,
+    product.createdAt.toISOString(),
+    product.updatedAt.toISOString(),
+  ];
+}
+
+// "catalog-2026-10-19.csv"
+export function exportFileName(format: ExportFormat, now = new Date()) {
+  return `catalog-${now.toISOString().slice(0, 10)}.${format}`;
+}
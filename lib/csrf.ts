@@ -0,0 +1,4 @@
+// Shared by proxy.ts, lib/auth.ts and the admin pages' fetch wrapper
+// (app/admin/csrf-fetch.tsx), so it must stay free of server-only imports.
+export const CSRF_COOKIE_NAME = "admin_csrf";
+export const CSRF_HEADER_NAME = "x-csrf-token";
@@ -0,0 +1,247 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+// Converting documents between formats: supplier PDFs to DOCX for import,
+// product selections to PDF, and Windows metafiles to PNG. DOCUMENT_CONVERTER
+// picks the provider:
+//   cloudconvert  CloudConvert's API using CLOUDCONVERT_API_KEY (default when set)
+//   libreoffice   soffice --headless on this server, at LIBREOFFICE_PATH
+//                 (default "soffice"); only when chosen, since serverless
+//                 deployments don't have it
+//   fake          hands the input back unchanged, for tests and development
+// With neither DOCUMENT_CONVERTER nor CLOUDCONVERT_API_KEY set, nothing can
+// be converted.
+// CONVERSION_TIMEOUT_MS, CONVERSION_RETRIES and CONVERSION_MAX_BYTES override
+// the limits below.
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_RETRIES = 1;
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+
+export type DocumentFormat = "pdf" | "docx" | "png" | "emf" | "wmf";
+
+export type DocumentConverter = {
+  name: string;
+  supports(from: DocumentFormat, to: DocumentFormat): boolean;
+  convert(
+    input: Buffer,
+    from: DocumentFormat,
+    to: DocumentFormat,
+    signal: AbortSignal
+  ): Promise<Buffer>;
+};
+
+// Failures that trying again won't fix: no converter set up, unsupported
+// conversions and oversized input. Anything else a provider throws is retried.
+export class ConversionError extends Error {}
+
+// A conversion that ran out of time. Usually a busy provider, so it's retried.
+export class ConversionTimeoutError extends Error {}
+
+const execFileAsync = promisify(execFile);
+
+function cloudConvertConverter(apiKey: string): DocumentConverter {
+  return {
+    name: "cloudconvert",
+    supports: () => true,
+    async convert(input, from, to, signal) {
+      const CloudConvert = (await import("cloudconvert")).default;
+      const cloudConvert = new CloudConvert(apiKey);
+      signal.throwIfAborted();
+
+      // Create a job that uploads, converts, and exports
+      const job = await cloudConvert.jobs.create({
+        tasks: {
+          upload: {
+            operation: "import/upload",
+          },
+          convert: {
+            operation: "convert",
+            input: "upload",
+            input_format: from,
+            output_format: to,
+          },
+          export: {
+            operation: "export/url",
+            input: "convert",
+          },
+        },
+      });
+
+      // The SDK takes no abort signal, so a timed out job is deleted to
+      // stop it running on CloudConvert's side
+      const cancel = () => {
+        cloudConvert.jobs.delete(job.id).catch((error: any) => {
+          console.log(`Failed to cancel CloudConvert job ${job.id}: ${error?.message}`);
+        });
+      };
+      signal.addEventListener("abort", cancel, { once: true });
+      try {
+        const uploadTask = job.tasks.find((t: any) => t.name === "upload");
+        if (!uploadTask) {
+          throw new Error("Upload task not found");
+        }
+        await cloudConvert.tasks.upload(uploadTask, input, `document.${from}`);
+        signal.throwIfAborted();
+
+        const completedJob = await cloudConvert.jobs.wait(job.id);
+        signal.throwIfAborted();
+        const exportTask = completedJob.tasks.find((t: any) => t.name === "export");
+        const url = exportTask?.result?.files?.[0]?.url;
+        if (!url) {
+          throw new Error("Export task failed or no file URL");
+        }
+
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+          throw new Error(`Failed to download converted ${to.toUpperCase()}`);
+        }
+        return Buffer.from(await response.arrayBuffer());
+      } finally {
+        signal.removeEventListener("abort", cancel);
+      }
+    },
+  };
+}
+
+// LibreOffice opens PDFs as drawings, so its DOCX has positioned text boxes
+// rather than tables; imports read those PDFs with lib/pdf-tables instead.
+function libreOfficeConverter(binary: string): DocumentConverter {
+  return {
+    name: "libreoffice",
+    supports: (from, to) => from !== "pdf" && to !== from,
+    async convert(input, from, to, signal) {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "convert-"));
+      try {
+        const inputPath = path.join(dir, `document.${from}`);
+        await writeFile(inputPath, input);
+        await execFileAsync(binary, ["--headless", "--convert-to", to, "--outdir", dir, inputPath], {
+          signal,
+        });
+        return await readFile(path.join(dir, `document.${to}`));
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+const fakeConverter: DocumentConverter = {
+  name: "fake",
+  supports: () => true,
+  async convert(input) {
+    return input;
+  },
+};
+
+let converter: DocumentConverter | undefined;
+
+export function getDocumentConverter(): DocumentConverter {
+  if (converter) return converter;
+
+  const name =
+    process.env.DOCUMENT_CONVERTER || (process.env.CLOUDCONVERT_API_KEY ? "cloudconvert" : "");
+  switch (name) {
+    case "":
+      throw new ConversionError(
+        "No document converter is configured. Set CLOUDCONVERT_API_KEY, or DOCUMENT_CONVERTER=libreoffice."
+      );
+    case "cloudconvert":
+      if (!process.env.CLOUDCONVERT_API_KEY) {
+        throw new ConversionError("CLOUDCONVERT_API_KEY is not configured.");
+      }
+      converter = cloudConvertConverter(process.env.CLOUDCONVERT_API_KEY);
+      break;
+    case "libreoffice":
+      converter = libreOfficeConverter(process.env.LIBREOFFICE_PATH || "soffice");
+      break;
+    case "fake":
+      converter = fakeConverter;
+      break;
+    default:
+      throw new ConversionError(`Unknown DOCUMENT_CONVERTER "${name}".`);
+  }
+
+  return converter;
+}
+
+// Lets scripts and tests swap the provider without touching the environment.
+export function setDocumentConverter(next: DocumentConverter | undefined) {
+  converter = next;
+}
+
+// False when the configured converter can't make this conversion, or can't
+// be set up at all, so callers fall back to reading the file themselves.
+export function canConvertDocument(from: DocumentFormat, to: DocumentFormat) {
+  try {
+    return getDocumentConverter().supports(from, to);
+  } catch (error: any) {
+    console.error(`Document conversion is unavailable: ${error?.message}`);
+    return false;
+  }
+}
+
+// Reads a limit from the environment; blank or invalid values, or values
+// below `min`, leave the default.
+function envNumber(name: string, fallback: number, min = 0) {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Settle first, so the race reports the timeout rather than the abort
+      reject(new ConversionTimeoutError(`Conversion timed out after ${Math.round(ms / 1000)}s`));
+      controller.abort();
+    }, ms);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Converts with the configured provider, within the size limit and timeout,
+// retrying transient failures with a growing pause between attempts.
+export async function convertDocument(
+  input: Buffer,
+  from: DocumentFormat,
+  to: DocumentFormat
+): Promise<Buffer> {
+  const active = getDocumentConverter();
+  if (!active.supports(from, to)) {
+    throw new ConversionError(
+      `The ${active.name} converter can't convert ${from.toUpperCase()} to ${to.toUpperCase()}.`
+    );
+  }
+
+  const maxBytes = envNumber("CONVERSION_MAX_BYTES", DEFAULT_MAX_BYTES, 1);
+  if (input.length > maxBytes) {
+    throw new ConversionError(
+      `File is too large to convert (${Math.ceil(input.length / 1024 / 1024)} MB, limit ${Math.floor(maxBytes / 1024 / 1024)} MB).`
+    );
+  }
+
+  const timeoutMs = envNumber("CONVERSION_TIMEOUT_MS", DEFAULT_TIMEOUT_MS, 1);
+  const retries = envNumber("CONVERSION_RETRIES", DEFAULT_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout((signal) => active.convert(input, from, to, signal), timeoutMs);
+    } catch (error: any) {
+      if (error instanceof ConversionError || attempt >= retries) throw error;
+      console.log(
+        `${active.name} conversion failed (attempt ${attempt + 1}), retrying: ${error?.message}`
+      );
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }
+}
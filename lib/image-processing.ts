@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+
+import sharp from "sharp";
+
+import { convertDocument } from "@/lib/document-conversion";
+
+// Longest edge, in pixels, of each stored rendition. Smaller images are
+// never enlarged.
+export const IMAGE_RENDITIONS = {
+  original: 2000,
+  document: 600,
+  thumbnail: 320,
+} as const;
+
+export type ImageRenditionName = keyof typeof IMAGE_RENDITIONS;
+
+// JPEG or PNG only: the two formats Word and the docx image module embed
+// everywhere.
+export type RenderedImage = {
+  body: Buffer;
+  contentType: "image/jpeg" | "image/png";
+  width: number;
+  height: number;
+};
+
+export type ProcessedImage = {
+  contentHash: string;
+  renditions: Record<ImageRenditionName, RenderedImage>;
+};
+
+export class UnsupportedImageError extends Error {}
+
+export function hashImage(body: Buffer) {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+export function imageExtension(image: Pick<RenderedImage, "contentType">) {
+  return image.contentType === "image/png" ? "png" : "jpg";
+}
+
+// EMF starts with an EMR_HEADER record carrying " EMF" at byte 40;
+// placeable WMF starts with the 0x9AC6CDD7 key.
+function isMetafile(body: Buffer) {
+  if (body.length > 44 && body.readUInt32LE(0) === 1 && body.toString("ascii", 40, 44) === " EMF") {
+    return true;
+  }
+  return body.length > 4 && body.readUInt32LE(0) === 0x9ac6cdd7;
+}
+
+// sharp can't read Windows metafiles, which suppliers' catalogues (and
+// images pasted out of Word) are often in, so the document converter
+// renders them.
+async function rasterizeMetafile(body: Buffer) {
+  try {
+    return await convertDocument(body, body.readUInt32LE(0) === 1 ? "emf" : "wmf", "png");
+  } catch {
+    throw new UnsupportedImageError(
+      "EMF/WMF images need LibreOffice or CloudConvert on the server to convert. Save the image as PNG or JPEG and upload that instead."
+    );
+  }
+}
+
+// Upright, first frame only (animated GIF/WebP), sRGB.
+function decode(input: Buffer) {
+  return sharp(input, { animated: false }).rotate().toColourspace("srgb");
+}
+
+async function isOpaque(input: Buffer) {
+  const { hasAlpha } = await sharp(input, { animated: false }).metadata();
+  if (!hasAlpha) return true;
+  return (await sharp(input, { animated: false }).stats()).isOpaque;
+}
+
+async function render(input: Buffer, maxEdge: number, opaque: boolean): Promise<RenderedImage> {
+  const pipeline = decode(input).resize({
+    width: maxEdge,
+    height: maxEdge,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+
+  // Transparency survives as PNG; everything else is a much smaller JPEG
+  const { data, info } = opaque
+    ? await pipeline
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality: 85, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true })
+    : await pipeline.png({ compressionLevel: 9 }).toBuffer({ resolveWithObject: true });
+
+  return {
+    body: data,
+    contentType: opaque ? "image/jpeg" : "image/png",
+    width: info.width,
+    height: info.height,
+  };
+}
+
+async function readable(body: Buffer) {
+  const input = isMetafile(body) ? await rasterizeMetafile(body) : body;
+  try {
+    return { input, opaque: await isOpaque(input) };
+  } catch (error: any) {
+    throw new UnsupportedImageError(`Unreadable image: ${error?.message || "unknown format"}`);
+  }
+}
+
+// Normalises an upload into the stored renditions. The content hash is of
+// the uploaded bytes, so identical uploads can be matched before any of
+// this work is done.
+export async function processImage(body: Buffer): Promise<ProcessedImage> {
+  const { input, opaque } = await readable(body);
+  const [original, document, thumbnail] = await Promise.all([
+    render(input, IMAGE_RENDITIONS.original, opaque),
+    render(input, IMAGE_RENDITIONS.document, opaque),
+    render(input, IMAGE_RENDITIONS.thumbnail, opaque),
+  ]);
+
+  return { contentHash: hashImage(body), renditions: { original, document, thumbnail } };
+}
+
+// Only the document rendition, for images that predate processing on upload.
+export async function renderDocumentImage(body: Buffer) {
+  const { input, opaque } = await readable(body);
+  return render(input, IMAGE_RENDITIONS.document, opaque);
+}
+
+// Joins images side by side at the same height on white, for document
+// slots that hold a single picture.
+export async function combineSideBySide(
+  images: Array<Pick<RenderedImage, "body">>
+): Promise<RenderedImage> {
+  const HEIGHT = IMAGE_RENDITIONS.document;
+  const GAP = 36;
+  const resized = await Promise.all(
+    images.map((image) =>
+      sharp(image.body)
+        .resize({ height: HEIGHT })
+        .flatten({ background: "#ffffff" })
+        .png()
+        .toBuffer({ resolveWithObject: true })
+    )
+  );
+
+  let left = 0;
+  const layers = resized.map(({ data, info }) => {
+    const layer = { input: data, left, top: 0 };
+    left += info.width + GAP;
+    return layer;
+  });
+
+  const width = Math.max(1, left - GAP);
+  const body = await sharp({
+    create: { width, height: HEIGHT, channels: 3, background: "#ffffff" },
+  })
+    .composite(layers)
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer();
+
+  return { body, contentType: "image/jpeg", width, height: HEIGHT };
+}
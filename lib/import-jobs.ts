@@ -0,0 +1,461 @@
+import crypto from "crypto";
+import type { ImportJob, Prisma } from "@prisma/client";
+
+import type { AdminPrincipal } from "@/lib/auth";
+import { hashImage } from "@/lib/image-processing";
+import { prisma } from "@/lib/prisma";
+import { extractProducts, UnsupportedImportFileError } from "@/lib/product-extraction";
+import { storeProductImage, type StoredProductImage } from "@/lib/product-images";
+import {
+  applyPreparedImportRows,
+  compareImportRows,
+  IMPORT_MAX_ROWS,
+  InvalidImportError,
+  parseImportRows,
+  prepareImportRows,
+  type ImportRow,
+} from "@/lib/product-import";
+import { deleteFromR2, downloadFromR2, uploadToR2 } from "@/lib/r2";
+
+// Imports run on the server in two stages, so a large catalogue doesn't
+// depend on the page staying open. The extract stage converts and reads the
+// uploaded file, stores its images and compares its rows with the catalogue;
+// the rows then wait for review. The import stage applies the reviewed rows
+// a row at a time, each in its own transaction, so a failure keeps the rows
+// before it. The job records how far it got; a retry picks up where it
+// stopped.
+
+export type ImportJobStage = "extract" | "import";
+
+export type ImportJobStatus = "queued" | "running" | "failed" | "completed";
+
+// A running or queued job that hasn't moved for this long has lost its
+// server (a deploy, or the function's time limit) and may be resumed.
+export const STALE_IMPORT_JOB_MS = 5 * 60 * 1000;
+
+// Rows are compared with the catalogue this many at a time while importing
+const IMPORT_CHUNK_ROWS = 50;
+
+export class ImportJobStateError extends Error {}
+
+// Thrown from a step of a run whose job was taken over by a retry
+class ImportJobLostError extends Error {}
+
+export const IMPORT_JOB_SELECT = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  stage: true,
+  status: true,
+  progress: true,
+  fileName: true,
+  supplier: { select: { id: true, name: true } },
+  mappingUsed: true,
+  totalRows: true,
+  nextRow: true,
+  error: true,
+  startedAt: true,
+  finishedAt: true,
+  createdBy: { select: { username: true } },
+} satisfies Prisma.ImportJobSelect;
+
+export function isStaleImportJob(job: { status: string; updatedAt: Date }) {
+  return (
+    (job.status === "queued" || job.status === "running") &&
+    Date.now() - job.updatedAt.getTime() > STALE_IMPORT_JOB_MS
+  );
+}
+
+// Stores the uploaded file and queues the job to read it.
+export async function createImportJob(
+  actor: AdminPrincipal,
+  input: {
+    supplierId: string | null;
+    file: { buffer: Buffer; fileName: string; contentType: string };
+  }
+) {
+  const { file } = input;
+  // Kept private; the job reads it back and deletes it once read
+  const fileKey = `imports/${crypto.randomUUID()}/${file.fileName.replace(/[^\w.-]+/g, "_")}`;
+  await uploadToR2({
+    key: fileKey,
+    body: file.buffer,
+    contentType: file.contentType || "application/octet-stream",
+    publicRead: false,
+  });
+
+  return prisma.importJob.create({
+    data: {
+      supplierId: input.supplierId,
+      fileName: file.fileName.slice(0, 255),
+      fileKey,
+      createdById: actor.userId,
+    },
+    select: IMPORT_JOB_SELECT,
+  });
+}
+
+function failureMessage(error: any) {
+  return error?.code === "P2002"
+    ? "Product with this code or supplier SKU already exists."
+    : error?.message || "Unknown error";
+}
+
+// For a run started with `after()`: an error the run couldn't record itself
+// (a lost database connection, say) is logged and the job marked failed, so
+// it can be retried straight away rather than once it looks stale.
+export async function markImportJobFailed(jobId: string, error: unknown) {
+  console.error(`Import job ${jobId} stopped:`, error);
+  try {
+    await prisma.importJob.updateMany({
+      where: { id: jobId, status: { in: ["queued", "running"] } },
+      data: {
+        status: "failed",
+        progress: null,
+        error: failureMessage(error),
+        finishedAt: new Date(),
+      },
+    });
+  } catch (updateError) {
+    console.error(`Failed to mark import job ${jobId} failed:`, updateError);
+  }
+}
+
+async function setProgress(jobId: string, progress: string) {
+  const updated = await prisma.importJob.updateMany({
+    where: { id: jobId, stage: "extract", status: "running" },
+    data: { progress },
+  });
+  if (updated.count === 0) throw new ImportJobLostError();
+}
+
+// Reads the job's file into rows for review. Images are stored now, so the
+// rows only refer to them; one that fails to store is left off its row.
+async function readImportFile(job: ImportJob) {
+  if (!job.fileKey) {
+    throw new UnsupportedImportFileError("The uploaded file is no longer stored. Upload it again.");
+  }
+  const supplier = job.supplierId
+    ? await prisma.supplier.findUnique({ where: { id: job.supplierId } })
+    : null;
+
+  await setProgress(job.id, "Downloading the file");
+  const file = await downloadFromR2(job.fileKey);
+  const { products, mappingUsed } = await extractProducts(
+    { buffer: file.body, fileName: job.fileName ?? "", contentType: file.contentType },
+    supplier,
+    (step) => setProgress(job.id, step)
+  );
+  if (products.length === 0) {
+    throw new UnsupportedImportFileError("No products detected in file.");
+  }
+  if (products.length > IMPORT_MAX_ROWS) {
+    throw new UnsupportedImportFileError(
+      `Imports are limited to ${IMPORT_MAX_ROWS} rows at a time; this file has ${products.length}.`
+    );
+  }
+
+  const bodies = new Map<string, Buffer>();
+  const hashes = products.map((product) => {
+    if (!product.imageBase64) return null;
+    const body = Buffer.from(product.imageBase64, "base64");
+    const contentHash = hashImage(body);
+    bodies.set(contentHash, body);
+    return contentHash;
+  });
+  const images = new Map<string, StoredProductImage>();
+  for (const [contentHash, body] of bodies) {
+    await setProgress(job.id, `Storing images: ${images.size + 1} of ${bodies.size}`);
+    try {
+      images.set(contentHash, await storeProductImage(body));
+    } catch (uploadError) {
+      console.error(`Image upload failed for import job ${job.id}, reading without it:`, uploadError);
+    }
+  }
+
+  // The printed code is the supplier's SKU; it starts out as our code too,
+  // which can be edited before import
+  const rows: ImportRow[] = products.map((product, index) => {
+    const imageHash = hashes[index];
+    return {
+      code: product.code,
+      supplierSku: product.code,
+      description: product.description,
+      productDetails: product.productDetails || "",
+      link: product.link || "",
+      brand: product.brand || "",
+      keywords: product.keywords || "",
+      typeName: "",
+      price: product.price || "",
+      imageHash: imageHash && images.has(imageHash) ? imageHash : null,
+    };
+  });
+
+  await setProgress(job.id, "Comparing with the catalogue");
+  const comparisons = await compareImportRows(prisma, rows, job.supplierId);
+
+  const finished = await prisma.$transaction(
+    async (tx) => {
+      const done = await tx.importJob.updateMany({
+        where: { id: job.id, stage: "extract", status: "running" },
+        data: {
+          status: "completed",
+          progress: null,
+          fileKey: null,
+          totalRows: rows.length,
+          ...(mappingUsed && { mappingUsed }),
+          finishedAt: new Date(),
+        },
+      });
+      if (done.count === 0) return false;
+
+      await tx.importJobRow.deleteMany({ where: { jobId: job.id } });
+      await tx.importJobRow.createMany({
+        data: rows.map((row, rowIndex) => {
+          const image = row.imageHash ? images.get(row.imageHash) : undefined;
+          return {
+            jobId: job.id,
+            rowIndex,
+            data: row,
+            ...(image && { image }),
+            comparison: comparisons[rowIndex],
+          };
+        }),
+      });
+      return true;
+    },
+    { timeout: 60_000 }
+  );
+
+  if (finished) {
+    await deleteFromR2(job.fileKey).catch((deleteError) =>
+      console.error(`Failed to delete the file of import job ${job.id}:`, deleteError)
+    );
+  }
+}
+
+async function failImportRow(jobId: string, rowIndex: number, code: string, error: any) {
+  if (!(error instanceof InvalidImportError)) {
+    console.error(`Import job ${jobId} failed at row ${rowIndex + 1}:`, error);
+  }
+  const message = failureMessage(error);
+  await prisma.$transaction(async (tx) => {
+    const failed = await tx.importJob.updateMany({
+      where: { id: jobId, status: "running", nextRow: rowIndex },
+      data: { status: "failed", error: message, finishedAt: new Date() },
+    });
+    if (failed.count === 1) {
+      await tx.importJobResult.create({
+        data: { jobId, rowIndex, code, result: "failed", error: message },
+      });
+    }
+  });
+}
+
+// Applies the reviewed rows from the job's next row to the end, comparing
+// them with the catalogue a chunk at a time.
+async function importReviewedRows(job: ImportJob, actor: AdminPrincipal) {
+  for (let start = job.nextRow; start < job.totalRows; start += IMPORT_CHUNK_ROWS) {
+    const chunk = await prisma.importJobRow.findMany({
+      where: { jobId: job.id, rowIndex: { gte: start, lt: start + IMPORT_CHUNK_ROWS } },
+      orderBy: { rowIndex: "asc" },
+    });
+    const images = new Map<string, StoredProductImage>();
+    for (const { image } of chunk) {
+      const stored = image as StoredProductImage | null;
+      if (stored) images.set(stored.contentHash, stored);
+    }
+
+    let prepared;
+    try {
+      const rows = parseImportRows(
+        chunk.map((row) => ({ ...(row.data as Prisma.JsonObject), decision: row.decision }))
+      );
+      prepared = await prepareImportRows(prisma, rows, job.supplierId);
+    } catch (error: any) {
+      await failImportRow(job.id, start, "", error);
+      return;
+    }
+
+    for (const [offset, item] of prepared.entries()) {
+      const index = chunk[offset].rowIndex;
+      try {
+        const owned = await prisma.$transaction(async (tx) => {
+          // Only the run that moves nextRow on imports the row, so a stalled
+          // run that wakes up after a retry stops here
+          const claimed = await tx.importJob.updateMany({
+            where: { id: job.id, status: "running", nextRow: index },
+            data: { nextRow: index + 1 },
+          });
+          if (claimed.count === 0) return false;
+
+          const [outcome] = await applyPreparedImportRows(tx, actor, {
+            supplierId: job.supplierId,
+            prepared: [item],
+            images,
+          });
+          await tx.importJobResult.create({
+            data: {
+              jobId: job.id,
+              rowIndex: index,
+              code: item.row.code,
+              result: outcome.result,
+              productId: outcome.productId,
+            },
+          });
+          return true;
+        });
+        if (!owned) return;
+      } catch (error: any) {
+        await failImportRow(job.id, index, item.row.code, error);
+        return;
+      }
+    }
+  }
+
+  await prisma.importJob.updateMany({
+    where: { id: job.id, status: "running", nextRow: job.totalRows },
+    data: { status: "completed", finishedAt: new Date() },
+  });
+}
+
+// Runs a queued job's stage from where it stopped. Changes are recorded
+// against `actor`, who started or retried the job. Does nothing if another
+// run has already claimed the job.
+export async function runImportJob(jobId: string, actor: AdminPrincipal) {
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: jobId, status: "queued" },
+    data: { status: "running", startedAt: new Date(), finishedAt: null, error: null },
+  });
+  if (claimed.count === 0) return;
+
+  const job = await prisma.importJob.findUniqueOrThrow({ where: { id: jobId } });
+  if (job.stage === "import") {
+    await importReviewedRows(job, actor);
+    return;
+  }
+
+  try {
+    await readImportFile(job);
+  } catch (error: any) {
+    if (error instanceof ImportJobLostError) return;
+    if (!(error instanceof UnsupportedImportFileError)) {
+      console.error(`Import job ${jobId} failed to read its file:`, error);
+    }
+    await prisma.importJob.updateMany({
+      where: { id: jobId, stage: "extract", status: "running" },
+      data: {
+        status: "failed",
+        progress: null,
+        error: failureMessage(error),
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
+
+// Saves the reviewed rows, each naming the file row it came from by
+// `rowIndex`, and queues the job to import them. Rows left out are skipped;
+// images stay the ones stored when the file was read. Returns null when
+// there's no such job.
+export async function queueImportRows(jobId: string, input: unknown) {
+  const rows = parseImportRows(input);
+  if (!Array.isArray(input)) throw new InvalidImportError("There are no rows to import.");
+  const indexes = input.map((raw: unknown) =>
+    raw && typeof raw === "object" ? Number((raw as Record<string, unknown>).rowIndex) : NaN
+  );
+
+  return prisma.$transaction(
+    async (tx) => {
+      const job = await tx.importJob.findUnique({ where: { id: jobId } });
+      if (!job) return null;
+      if (job.stage !== "extract" || job.status !== "completed") {
+        throw new ImportJobStateError(
+          job.stage === "import" ? "This import has already started." : "The file hasn't been read yet."
+        );
+      }
+      indexes.forEach((rowIndex, position) => {
+        if (
+          !Number.isInteger(rowIndex) ||
+          rowIndex < 0 ||
+          rowIndex >= job.totalRows ||
+          indexes.indexOf(rowIndex) !== position
+        ) {
+          throw new InvalidImportError(`Row ${position + 1} isn't one of the file's rows.`);
+        }
+      });
+
+      const stored = await tx.importJobRow.findMany({
+        where: { jobId, rowIndex: { in: indexes } },
+        select: { rowIndex: true, data: true },
+      });
+      const storedHashes = new Map(
+        stored.map((row) => [row.rowIndex, (row.data as ImportRow).imageHash])
+      );
+      for (const [position, { decision, imageBase64, ...row }] of rows.entries()) {
+        const rowIndex = indexes[position];
+        await tx.importJobRow.update({
+          where: { jobId_rowIndex: { jobId, rowIndex } },
+          data: { data: { ...row, imageHash: storedHashes.get(rowIndex) ?? null }, decision },
+        });
+      }
+
+      const queued = await tx.importJob.updateMany({
+        where: { id: jobId, stage: "extract", status: "completed" },
+        data: { stage: "import", status: "queued", nextRow: 0, error: null, finishedAt: null },
+      });
+      if (queued.count === 0) {
+        throw new ImportJobStateError("This import has already started.");
+      }
+      return tx.importJob.findUniqueOrThrow({ where: { id: jobId }, select: IMPORT_JOB_SELECT });
+    },
+    // Saving a few hundred reviewed rows takes longer than the 5s default
+    { timeout: 60_000 }
+  );
+}
+
+// Queues a failed or stalled job to run its stage again: reading the file
+// from the start, or importing from the row it stopped at. With
+// `skipFailedRow`, a failed row is recorded as skipped and the import
+// resumes after it. Returns null when there's no such job.
+export async function retryImportJob(jobId: string, options: { skipFailedRow?: boolean } = {}) {
+  return prisma.$transaction(async (tx) => {
+    const job = await tx.importJob.findUnique({ where: { id: jobId } });
+    if (!job) return null;
+    if (job.status === "completed") {
+      throw new ImportJobStateError(
+        job.stage === "import" ? "This import has already finished." : "The file has already been read."
+      );
+    }
+    if (job.status !== "failed" && !isStaleImportJob(job)) {
+      throw new ImportJobStateError("This import is still running.");
+    }
+
+    let nextRow = job.nextRow;
+    if (
+      options.skipFailedRow &&
+      job.stage === "import" &&
+      job.status === "failed" &&
+      nextRow < job.totalRows
+    ) {
+      const failed = await tx.importJobResult.findFirst({
+        where: { jobId, rowIndex: nextRow },
+        orderBy: { createdAt: "desc" },
+      });
+      await tx.importJobResult.create({
+        data: { jobId, rowIndex: nextRow, code: failed?.code ?? "", result: "skipped" },
+      });
+      nextRow += 1;
+    }
+
+    // Only one retry wins if several arrive together
+    const queued = await tx.importJob.updateMany({
+      where: { id: jobId, status: job.status, updatedAt: job.updatedAt },
+      data: { status: "queued", nextRow, error: null, finishedAt: null },
+    });
+    if (queued.count === 0) {
+      throw new ImportJobStateError("This import is already being retried.");
+    }
+    return tx.importJob.findUniqueOrThrow({ where: { id: jobId }, select: IMPORT_JOB_SELECT });
+  });
+}
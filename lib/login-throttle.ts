@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+
+// Failed sign-ins are counted per username and per IP from the LoginAttempt
+// audit trail, so limits survive restarts and apply across serverless
+// instances (unlike the in-memory limiter on the contact form).
+const WINDOW_MS = 1000 * 60 * 15; // Failures older than this are forgotten
+const FREE_ATTEMPTS = 3; // Failures allowed before delays kick in
+const MAX_DELAY_MS = 1000 * 30;
+const LOCKOUT_THRESHOLD = 10; // Failures before a temporary lockout
+const LOCKOUT_MS = 1000 * 60 * 15;
+
+const FAILURE_OUTCOMES = ["invalid_credentials", "two_factor_failed"];
+
+export type LoginOutcome =
+  | "success"
+  | "invalid_credentials"
+  | "disabled"
+  | "two_factor_required"
+  | "two_factor_failed"
+  | "locked_out";
+
+export async function recordLoginAttempt(params: {
+  username: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  outcome: LoginOutcome;
+  userId?: string | null;
+}) {
+  await prisma.loginAttempt.create({
+    data: {
+      username: params.username,
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent,
+      outcome: params.outcome,
+      userId: params.userId ?? null,
+    },
+  });
+}
+
+async function recentFailures(where: { username: string } | { ipAddress: string }) {
+  const windowStart = new Date(Date.now() - WINDOW_MS);
+
+  // A successful sign-in clears the slate for that username. Not for the
+  // IP, or signing in to any account would reset the lockout for guesses
+  // at others.
+  const lastSuccess =
+    "username" in where
+      ? await prisma.loginAttempt.findFirst({
+          where: { ...where, outcome: "success", createdAt: { gte: windowStart } },
+          orderBy: { createdAt: "desc" },
+          select: { createdAt: true },
+        })
+      : null;
+  const since = lastSuccess?.createdAt ?? windowStart;
+
+  const [count, latest] = await Promise.all([
+    prisma.loginAttempt.count({
+      where: { ...where, outcome: { in: FAILURE_OUTCOMES }, createdAt: { gt: since } },
+    }),
+    prisma.loginAttempt.findFirst({
+      where: { ...where, outcome: { in: FAILURE_OUTCOMES }, createdAt: { gt: since } },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  return { count, lastFailureAt: latest?.createdAt ?? null };
+}
+
+// Returns how long the caller must wait before another attempt is allowed,
+// or 0 if they may try now.
+export async function getLoginRetryAfterMs(params: {
+  username: string;
+  ipAddress: string | null;
+}): Promise<number> {
+  const checks = [recentFailures({ username: params.username })];
+  if (params.ipAddress) {
+    checks.push(recentFailures({ ipAddress: params.ipAddress }));
+  }
+
+  const now = Date.now();
+  let retryAfterMs = 0;
+
+  for (const { count, lastFailureAt } of await Promise.all(checks)) {
+    if (!lastFailureAt || count < FREE_ATTEMPTS) continue;
+
+    const waitMs =
+      count >= LOCKOUT_THRESHOLD
+        ? LOCKOUT_MS
+        : Math.min(MAX_DELAY_MS, 1000 * 2 ** (count - FREE_ATTEMPTS));
+
+    retryAfterMs = Math.max(retryAfterMs, lastFailureAt.getTime() + waitMs - now);
+  }
+
+  return Math.max(0, retryAfterMs);
+}
+
+export function tooManyAttemptsResponse(retryAfterMs: number) {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  const wait =
+    seconds >= 120 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+
+  return NextResponse.json(
+    { error: `Too many failed attempts. Try again in ${wait}.` },
+    { status: 429, headers: { "Retry-After": String(seconds) } }
+  );
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { Resend } from "resend";
+
+// Outgoing admin email (invites, password resets). MAIL_TRANSPORT picks where
+// messages go:
+//   resend   send through Resend using FORM_API, as the contact form does
+//   console  log to the server console (default without FORM_API, outside
+//            production; messages hold live reset links, so production
+//            must choose a transport)
+//   file     write each message as JSON under MAIL_FILE_DIR (default .mail)
+const DEFAULT_FROM = "PdCon <onboarding@resend.dev>";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type MailTransport = {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<{ id?: string }>;
+};
+
+function resendTransport(apiKey: string): MailTransport {
+  const resend = new Resend(apiKey);
+  return {
+    name: "resend",
+    async send(message) {
+      const result = await resend.emails.send(message);
+      if (result.error) {
+        throw new Error(`Resend rejected the message: ${result.error.message}`);
+      }
+      return { id: result.data?.id };
+    },
+  };
+}
+
+const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+    );
+    return {};
+  },
+};
+
+function fileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      await fs.writeFile(
+        path.join(dir, `${id}.json`),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+      return { id };
+    },
+  };
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const name =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.FORM_API ? "resend" : process.env.NODE_ENV === "production" ? null : "console");
+  if (!name) {
+    throw new Error("FORM_API is not configured and MAIL_TRANSPORT is not set.");
+  }
+  switch (name) {
+    case "resend":
+      if (!process.env.FORM_API) {
+        throw new Error("FORM_API is not configured.");
+      }
+      transport = resendTransport(process.env.FORM_API);
+      break;
+    case "file":
+      transport = fileTransport(process.env.MAIL_FILE_DIR || ".mail");
+      break;
+    case "console":
+      transport = consoleTransport;
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}".`);
+  }
+
+  return transport;
+}
+
+// Lets scripts and tests capture mail without touching the environment.
+export function setMailTransport(next: MailTransport | undefined) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  return getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+  });
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+
+// scrypt cost parameters. Stored alongside each hash so they can be raised
+// later without invalidating existing passwords.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+function scrypt(
+  password: string,
+  salt: Buffer,
+  options: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, options, (err, derivedKey) => {
+      if (err) reject(err);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  });
+
+  return [
+    "scrypt",
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString("base64url"),
+    hash.toString("base64url"),
+  ].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, n, r, p, saltStr, hashStr] = stored.split("$");
+  if (scheme !== "scrypt" || !saltStr || !hashStr) return false;
+
+  const expected = Buffer.from(hashStr, "base64url");
+
+  try {
+    const actual = await scrypt(password, Buffer.from(saltStr, "base64url"), {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p),
+    });
+
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  return null;
+}
+
+// Readable one-time password handed to a user on invite or reset.
+export function generateTemporaryPassword(): string {
+  return crypto.randomBytes(12).toString("base64url");
+}
@@ -0,0 +1,377 @@
+import sharp from "sharp";
+
+import type { SheetTable } from "@/lib/spreadsheets";
+
+// Rebuilds the tables of a PDF quote or price list from where its text and
+// pictures sit on the page, without converting it to DOCX first. Each page
+// becomes one table, read like a DOCX table or a spreadsheet.
+
+type Matrix = [number, number, number, number, number, number];
+
+type TextBox = { text: string; x0: number; x1: number; y: number; size: number };
+
+type ImageBox = { image: Buffer; x0: number; x1: number; y0: number; y1: number };
+
+type Line = { y: number; size: number; boxes: TextBox[] };
+
+type Column = { x0: number; x1: number };
+
+// A thin horizontal bar or line, as drawn for table borders
+type Rule = { y: number; x0: number; x1: number };
+
+// pdf.js ImageKind, which its build doesn't export
+const IMAGE_GRAYSCALE_1BPP = 1;
+const IMAGE_RGBA_32BPP = 3;
+
+// Lines further apart than this many font sizes start a new row; closer
+// lines are a wrapped cell.
+const ROW_GAP = 1.5;
+// Icons, rules and spacer images are too small to be product pictures
+const MIN_IMAGE_PIXELS = 16;
+// Shapes at most this tall are borders rather than boxes
+const RULE_THICKNESS = 2;
+
+// a × b, as a PDF "cm" operator applies a to the current matrix b
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return [
+    a[0] * b[0] + a[1] * b[2],
+    a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2],
+    a[2] * b[1] + a[3] * b[3],
+    a[4] * b[0] + a[5] * b[2] + b[4],
+    a[4] * b[1] + a[5] * b[3] + b[5],
+  ];
+}
+
+// Decoded pdf.js image data as a PNG
+async function imageToPng(img: any): Promise<Buffer | null> {
+  const { width, height, kind, data } = img ?? {};
+  if (!data || width < MIN_IMAGE_PIXELS || height < MIN_IMAGE_PIXELS) return null;
+
+  if (kind === IMAGE_GRAYSCALE_1BPP) {
+    // One bit per pixel, rows padded to whole bytes
+    const rowBytes = Math.ceil(width / 8);
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  }
+
+  const channels = kind === IMAGE_RGBA_32BPP ? 4 : 3;
+  return sharp(Buffer.from(data.buffer, data.byteOffset, width * height * channels), {
+    raw: { width, height, channels },
+  })
+    .png()
+    .toBuffer();
+}
+
+// Pictures drawn on the page, with the box each one fills, and the
+// horizontal borders drawn between table rows
+async function pageGraphics(page: any, OPS: Record<string, number>) {
+  const ops = await page.getOperatorList();
+  const images: ImageBox[] = [];
+  const rules: Rule[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+  const addShape = (points: number[][]) => {
+    const xs = points.map(([x, y]) => ctm[0] * x + ctm[2] * y + ctm[4]);
+    const ys = points.map(([x, y]) => ctm[1] * x + ctm[3] * y + ctm[5]);
+    const [x0, x1, y0, y1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (y1 - y0 <= RULE_THICKNESS && x1 - x0 > RULE_THICKNESS) rules.push({ y: (y0 + y1) / 2, x0, x1 });
+  };
+
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    const args = ops.argsArray[i];
+    switch (ops.fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.transform:
+        ctm = multiply(args as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (Array.isArray(args[0])) ctm = multiply(args[0] as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.constructPath: {
+        const [pathOps, coords] = args;
+        let points: number[][] = [];
+        let c = 0;
+        for (const op of pathOps) {
+          if (op === OPS.rectangle) {
+            const [x, y, width, height] = coords.slice(c, (c += 4));
+            addShape([
+              [x, y],
+              [x + width, y + height],
+            ]);
+          } else if (op === OPS.moveTo) {
+            if (points.length) addShape(points);
+            points = [coords.slice(c, (c += 2))];
+          } else if (op === OPS.lineTo) {
+            points.push(coords.slice(c, (c += 2)));
+          } else if (op === OPS.curveTo) {
+            points.push(coords.slice((c += 4), (c += 2)));
+          } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+            points.push(coords.slice((c += 2), (c += 2)));
+          }
+        }
+        if (points.length) addShape(points);
+        break;
+      }
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        const img = ops.fnArray[i] === OPS.paintImageXObject ? page.objs.get(args[0]) : args[0];
+        const image = await imageToPng(img);
+        if (!image) break;
+        // Images fill the unit square of the current matrix
+        const xs = [ctm[4], ctm[4] + ctm[0], ctm[4] + ctm[2], ctm[4] + ctm[0] + ctm[2]];
+        const ys = [ctm[5], ctm[5] + ctm[1], ctm[5] + ctm[3], ctm[5] + ctm[1] + ctm[3]];
+        images.push({
+          image,
+          x0: Math.min(...xs),
+          x1: Math.max(...xs),
+          y0: Math.min(...ys),
+          y1: Math.max(...ys),
+        });
+        break;
+      }
+    }
+  }
+
+  return { images, rules };
+}
+
+// Heights of the borders that run across a good part of the text, so a
+// border under one cell or an underline doesn't split a row
+function rowBorders(rules: Rule[], boxes: TextBox[]) {
+  if (boxes.length === 0) return [];
+  const textWidth = Math.max(...boxes.map((box) => box.x1)) - Math.min(...boxes.map((box) => box.x0));
+
+  const borders: Array<{ y: number; width: number }> = [];
+  for (const rule of [...rules].sort((a, b) => b.y - a.y)) {
+    const border = borders[borders.length - 1];
+    if (border && border.y - rule.y <= RULE_THICKNESS) {
+      border.width += rule.x1 - rule.x0;
+    } else {
+      borders.push({ y: rule.y, width: rule.x1 - rule.x0 });
+    }
+  }
+  return borders.filter((border) => border.width >= textWidth / 4).map((border) => border.y);
+}
+
+// Text runs on the same baseline, top of the page first
+function groupLines(boxes: TextBox[]): Line[] {
+  const sorted = [...boxes].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  const lines: Line[] = [];
+  for (const box of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - box.y) <= Math.min(line.size, box.size) / 2) {
+      line.boxes.push(box);
+      line.size = Math.max(line.size, box.size);
+    } else {
+      lines.push({ y: box.y, size: box.size, boxes: [box] });
+    }
+  }
+  for (const line of lines) line.boxes.sort((a, b) => a.x0 - b.x0);
+  return lines;
+}
+
+// Lines close together are one row, so a wrapped description stays with the
+// code printed beside its middle line. Where the table draws borders between
+// rows, those decide instead.
+function groupBlocks(lines: Line[], borders: number[]): Line[][] {
+  const top = Math.max(...borders);
+  const bottom = Math.min(...borders);
+  const blocks: Line[][] = [];
+  for (const line of lines) {
+    const block = blocks[blocks.length - 1];
+    const previous = block?.[block.length - 1];
+    const bordered = borders.length > 1 && previous && previous.y <= top && line.y >= bottom;
+    const together = bordered
+      ? !borders.some((y) => y < previous.y && y > line.y)
+      : previous && previous.y - line.y <= ROW_GAP * Math.max(previous.size, line.size);
+    if (together) {
+      block.push(line);
+    } else {
+      blocks.push([line]);
+    }
+  }
+  return blocks;
+}
+
+// Overlapping spans merged, left to right
+function mergeSpans(spans: Column[]): Array<Column & { count: number }> {
+  const merged: Array<Column & { count: number }> = [];
+  for (const span of [...spans].sort((a, b) => a.x0 - b.x0)) {
+    const last = merged[merged.length - 1];
+    if (last && span.x0 <= last.x1) {
+      last.x1 = Math.max(last.x1, span.x1);
+      last.count++;
+    } else {
+      merged.push({ ...span, count: 1 });
+    }
+  }
+  return merged;
+}
+
+// The columns of the row that splits into the most separate stretches of
+// text, which is usually the header. Addresses and notes above the table
+// would bridge the gaps between columns if every line counted. Pictures
+// repeated down a column of their own add that column.
+function findColumns(blocks: Line[][], images: ImageBox[]): Column[] {
+  let columns: Column[] = [];
+  for (const block of blocks) {
+    const spans = mergeSpans(block.flatMap((line) => line.boxes));
+    if (spans.length > columns.length) columns = spans;
+  }
+
+  const imageColumns = mergeSpans(images).filter(
+    (span) =>
+      span.count > 1 &&
+      !columns.some((column) => span.x0 < column.x1 && column.x0 < span.x1)
+  );
+  return [...columns, ...imageColumns]
+    .map(({ x0, x1 }) => ({ x0, x1 }))
+    .sort((a, b) => a.x0 - b.x0);
+}
+
+// The column a box mostly sits in. Columns meet halfway across the gaps
+// between them, so text wider than its header still lands under it.
+function columnOf(columns: Column[], x0: number, x1: number) {
+  // Zero-width boxes count by their middle
+  if (x1 - x0 < 1) {
+    x0 -= 0.5;
+    x1 += 0.5;
+  }
+  let best = 0;
+  let bestOverlap = -Infinity;
+  columns.forEach((column, index) => {
+    const left = index === 0 ? -Infinity : (columns[index - 1].x1 + column.x0) / 2;
+    const right = index === columns.length - 1 ? Infinity : (column.x1 + columns[index + 1].x0) / 2;
+    const overlap = Math.min(x1, right) - Math.max(x0, left);
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+}
+
+// When several lines of a block fill more than one column, it is a tightly
+// spaced table rather than one row with wrapped cells, and each of those
+// lines starts a row. Rows between borders are left as drawn.
+function splitRows(blocks: Line[][], columns: Column[], borders: number[]): Line[][] {
+  const filledColumns = (line: Line) =>
+    new Set(line.boxes.map((box) => columnOf(columns, box.x0, box.x1))).size;
+  const bordered = (block: Line[]) =>
+    borders.length > 1 &&
+    block[0].y <= Math.max(...borders) &&
+    block[block.length - 1].y >= Math.min(...borders);
+
+  return blocks.flatMap((block) => {
+    if (bordered(block)) return [block];
+    const starts = block.filter((line) => filledColumns(line) > 1);
+    if (starts.length < 2) return [block];
+
+    const rows: Line[][] = starts.map(() => []);
+    let current = 0;
+    for (const line of block) {
+      const index = starts.indexOf(line);
+      if (index >= 0) current = index;
+      // Lines above the first full line belong to it; later ones wrap
+      // from the row above
+      rows[current].push(line);
+    }
+    return rows;
+  });
+}
+
+async function readPage(page: any, OPS: Record<string, number>): Promise<SheetTable> {
+  const content = await page.getTextContent({ normalizeWhitespace: true });
+  const boxes: TextBox[] = content.items
+    .filter((item: any) => item.str.trim())
+    .map((item: any) => {
+      const [, , c, d, e, f] = item.transform;
+      return {
+        text: item.str,
+        x0: e,
+        x1: e + item.width,
+        y: f,
+        size: Math.hypot(c, d) || item.height || 10,
+      };
+    });
+
+  const { images, rules } = await pageGraphics(page, OPS);
+  const borders = rowBorders(rules, boxes);
+  const blocks = groupBlocks(groupLines(boxes), borders);
+  const columns = findColumns(blocks, images);
+  if (columns.length === 0) return { rows: [], images: new Map() };
+
+  const rowLines = splitRows(blocks, columns, borders);
+  const rows = rowLines.map((row) => {
+    const cells: string[][] = columns.map(() => []);
+    for (const line of row) {
+      for (const box of line.boxes) cells[columnOf(columns, box.x0, box.x1)].push(box.text);
+    }
+    return cells.map((parts) => parts.join(" ").replace(/\s+/g, " ").trim());
+  });
+
+  // Each picture goes in the row it overlaps most, keeping the first per cell
+  const cellImages = new Map<string, Buffer>();
+  for (const image of images) {
+    let rowIndex = -1;
+    let bestOverlap = 0;
+    rowLines.forEach((row, index) => {
+      const top = Math.max(...row.map((line) => line.y + line.size));
+      const bottom = Math.min(...row.map((line) => line.y - line.size / 4));
+      const overlap = Math.min(image.y1, top) - Math.max(image.y0, bottom);
+      if (overlap > bestOverlap) {
+        rowIndex = index;
+        bestOverlap = overlap;
+      }
+    });
+    if (rowIndex < 0) continue;
+
+    const key = `${rowIndex},${columnOf(columns, image.x0, image.x1)}`;
+    if (!cellImages.has(key)) cellImages.set(key, image.image);
+  }
+
+  return { rows, images: cellImages };
+}
+
+// One table per page that has any, in page order
+export async function readPdfTables(buffer: Buffer): Promise<SheetTable[]> {
+  // The pdf.js build that pdf-parse ships, which runs in Node without a worker
+  const pdfjs = (await import("pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js")).default;
+  pdfjs.PDFJS.disableWorker = true;
+  // Fonts are only needed for drawing, which needs a DOM
+  pdfjs.PDFJS.disableFontFace = true;
+
+  // Decode JPEGs in pdf.js too, so every picture comes back as pixels
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    nativeImageDecoderSupport: pdfjs.NativeImageDecoding.NONE,
+  });
+
+  try {
+    const tables: SheetTable[] = [];
+    for (let i = 1; i <= doc.numPages; i++) {
+      const table = await readPage(await doc.getPage(i), pdfjs.OPS);
+      if (table.rows.length > 0) tables.push(table);
+    }
+    return tables;
+  } finally {
+    doc.destroy();
+  }
+}
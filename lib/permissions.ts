@@ -0,0 +1,44 @@
+// Roles are ordered from least to most privileged; each one includes every
+// permission of the roles before it.
+export const ROLES = [
+  { value: "viewer", label: "Viewer" },
+  { value: "selector", label: "Selector" },
+  { value: "catalog-admin", label: "Catalog Admin" },
+  { value: "admin", label: "Admin" },
+] as const;
+
+export type Role = (typeof ROLES)[number]["value"];
+
+export type Permission =
+  | "catalog:read"
+  | "catalog:write"
+  | "suppliers:read"
+  | "suppliers:write"
+  | "selections:read"
+  | "selections:write"
+  | "selections:generate"
+  | "selections:delete"
+  | "audit:read"
+  | "users:manage";
+
+const ROLE_GRANTS: Record<Role, Permission[]> = {
+  viewer: ["catalog:read", "suppliers:read", "selections:read"],
+  selector: ["selections:write", "selections:generate"],
+  "catalog-admin": ["catalog:write", "suppliers:write", "selections:delete", "audit:read"],
+  admin: ["users:manage"],
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.some((r) => r.value === value);
+}
+
+export function permissionsForRole(role: string): Permission[] {
+  if (!isRole(role)) return [];
+
+  const index = ROLES.findIndex((r) => r.value === role);
+  return ROLES.slice(0, index + 1).flatMap((r) => ROLE_GRANTS[r.value]);
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return permissionsForRole(role).includes(permission);
+}
@@ -0,0 +1,93 @@
+import type { Prisma } from "@prisma/client";
+
+import type { AdminPrincipal } from "@/lib/auth";
+
+export const GST_RATE = 0.1;
+
+export type PriceSource = "import" | "edit";
+
+export type ProductPricing = {
+  costPrice: Prisma.Decimal | string | null;
+  sellPrice: Prisma.Decimal | string | null;
+  gstInclusive: boolean;
+  gstFree: boolean;
+};
+
+export class InvalidPriceError extends Error {}
+
+// Accepts what people type or suppliers print ("1299", "$1,299.00") and
+// returns a 2dp string, which Prisma stores as a Decimal. Blank is null.
+export function parsePrice(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).replace(/[$,\s]/g, "");
+  if (!text) return null;
+  if (!/^\d+(\.\d+)?$/.test(text) || Number(text) >= 1e8) {
+    throw new InvalidPriceError(`Invalid price: ${value}`);
+  }
+  return Number(text).toFixed(2);
+}
+
+// For supplier files, where an unreadable price shouldn't fail the row.
+export function tryParsePrice(value: unknown): string | null {
+  try {
+    return parsePrice(value);
+  } catch {
+    return null;
+  }
+}
+
+export function formatPrice(value: Prisma.Decimal | string | number | null | undefined) {
+  if (value === null || value === undefined || value === "") return "—";
+  return `$${Number(value).toLocaleString("en-AU", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+// The other side of a price: ex-GST if it includes GST, and vice versa.
+export function otherGstPrice(price: number, pricing: Pick<ProductPricing, "gstInclusive" | "gstFree">) {
+  if (pricing.gstFree) return price;
+  return pricing.gstInclusive ? price / (1 + GST_RATE) : price * (1 + GST_RATE);
+}
+
+function samePricing(a: ProductPricing, b: ProductPricing) {
+  return (
+    String(a.costPrice ?? "") === String(b.costPrice ?? "") &&
+    String(a.sellPrice ?? "") === String(b.sellPrice ?? "") &&
+    a.gstInclusive === b.gstInclusive &&
+    a.gstFree === b.gstFree
+  );
+}
+
+// Adds a price history row when a create, edit or import changed the
+// product's pricing. Pass the transaction client so the history matches
+// the product.
+export async function recordPriceHistory(
+  db: Pick<Prisma.TransactionClient, "productPrice">,
+  actor: AdminPrincipal,
+  event: {
+    productId: string;
+    source: PriceSource;
+    supplierId?: string | null;
+    before?: ProductPricing | null;
+    after: ProductPricing;
+  }
+) {
+  const { after, before } = event;
+  if (before ? samePricing(before, after) : after.costPrice === null && after.sellPrice === null) {
+    return;
+  }
+
+  await db.productPrice.create({
+    data: {
+      productId: event.productId,
+      costPrice: after.costPrice,
+      sellPrice: after.sellPrice,
+      gstInclusive: after.gstInclusive,
+      gstFree: after.gstFree,
+      source: event.source,
+      supplierId: event.supplierId ?? null,
+      createdById: actor.userId,
+    },
+  });
+}
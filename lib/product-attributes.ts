@@ -0,0 +1,158 @@
+// Structured attributes per product type: basins have dimensions and a
+// mounting type, paint a colour code and sheen, tiles a size and finish.
+// Each ProductType holds the schema; each Product holds values keyed by
+// field key.
+
+export const ATTRIBUTE_TYPES = ["text", "number", "select", "boolean"] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export type AttributeField = {
+  key: string;
+  label: string;
+  type: AttributeType;
+  unit?: string | null; // e.g. "mm", shown after the value
+  required?: boolean;
+  options?: string[]; // Choices for select fields
+};
+
+export type AttributeValue = string | number | boolean;
+
+export type AttributeValues = Record<string, AttributeValue>;
+
+export class InvalidAttributeSchemaError extends Error {}
+
+export class InvalidAttributesError extends Error {}
+
+// "Mounting type" -> "mountingType"
+export function attributeKey(label: string) {
+  const words = label
+    .trim()
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  return words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("");
+}
+
+// Validates a schema sent by the product types page. Keys are derived from
+// labels when missing and must be unique within the type.
+export function parseAttributeSchema(input: unknown): AttributeField[] {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    throw new InvalidAttributeSchemaError("Attribute schema must be a list of fields.");
+  }
+
+  const keys = new Set<string>();
+  return input.map((raw: any) => {
+    const label = String(raw?.label ?? "").trim();
+    if (!label) throw new InvalidAttributeSchemaError("Every attribute needs a name.");
+
+    const key = String(raw?.key ?? "").trim() || attributeKey(label);
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(key)) {
+      throw new InvalidAttributeSchemaError(`Invalid attribute key for ${label}.`);
+    }
+    if (keys.has(key)) {
+      throw new InvalidAttributeSchemaError(`Two attributes are named ${label}.`);
+    }
+    keys.add(key);
+
+    const type = (raw?.type ?? "text") as AttributeType;
+    if (!ATTRIBUTE_TYPES.includes(type)) {
+      throw new InvalidAttributeSchemaError(`Unknown attribute type for ${label}: ${raw?.type}`);
+    }
+
+    const field: AttributeField = { key, label, type };
+    const unit = String(raw?.unit ?? "").trim();
+    if (unit) field.unit = unit;
+    if (raw?.required === true || raw?.required === "true") field.required = true;
+
+    if (type === "select") {
+      const options: string[] = (Array.isArray(raw?.options) ? raw.options : [])
+        .map((option: unknown) => String(option ?? "").trim())
+        .filter(Boolean);
+      if (options.length === 0) {
+        throw new InvalidAttributeSchemaError(`${label} needs at least one option.`);
+      }
+      field.options = Array.from(new Set(options));
+    }
+    return field;
+  });
+}
+
+// Reads a type's schema as stored. Stored schemas were validated on save.
+export function attributeSchemaOf(type: { attributeSchema?: unknown } | null | undefined) {
+  return Array.isArray(type?.attributeSchema) ? (type.attributeSchema as AttributeField[]) : [];
+}
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+// Checks product attribute values against the type's schema, converting
+// numbers and booleans from form strings. Blank values are dropped, as are
+// keys the schema doesn't know.
+export function parseAttributeValues(schema: AttributeField[], input: unknown): AttributeValues {
+  if (input !== undefined && input !== null && (typeof input !== "object" || Array.isArray(input))) {
+    throw new InvalidAttributesError("Attributes must be an object.");
+  }
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const values: AttributeValues = {};
+
+  for (const field of schema) {
+    const value = raw[field.key];
+    if (field.type === "boolean") {
+      if (value === true || value === "true") values[field.key] = true;
+      else if (value === false || value === "false") values[field.key] = false;
+      else if (field.required) throw new InvalidAttributesError(`${field.label} is required.`);
+      continue;
+    }
+    if (isBlank(value)) {
+      if (field.required) throw new InvalidAttributesError(`${field.label} is required.`);
+      continue;
+    }
+
+    const text = String(value).trim();
+    if (field.type === "number") {
+      const number = Number(text);
+      if (!Number.isFinite(number)) {
+        throw new InvalidAttributesError(`${field.label} must be a number.`);
+      }
+      values[field.key] = number;
+    } else if (field.type === "select") {
+      if (!field.options?.includes(text)) {
+        throw new InvalidAttributesError(`${field.label} must be one of: ${field.options?.join(", ")}.`);
+      }
+      values[field.key] = text;
+    } else {
+      values[field.key] = text;
+    }
+  }
+
+  return values;
+}
+
+// Attribute values arrive as a JSON string in multipart product forms.
+export function attributesFromForm(value: unknown) {
+  if (typeof value !== "string") return value;
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new InvalidAttributesError("Attributes must be valid JSON.");
+  }
+}
+
+// "Width: 600 mm | Mounting type: Wall hung | Overflow: Yes", for selection
+// documents. Fields without a value are left out.
+export function formatAttributes(schema: AttributeField[], values: unknown) {
+  if (!values || typeof values !== "object") return "";
+  const stored = values as Record<string, unknown>;
+  return schema
+    .filter((field) => !isBlank(stored[field.key]))
+    .map((field) => {
+      const value = stored[field.key];
+      const text = typeof value === "boolean" ? (value ? "Yes" : "No") : String(value);
+      return `${field.label}: ${text}${field.unit ? ` ${field.unit}` : ""}`;
+    })
+    .join(" | ");
+}
@@ -0,0 +1,119 @@
+// One change set applied to many products at once from view-products.
+// Only the parts that are set are applied.
+export type BulkEdit = {
+  typeId?: string;
+  brand?: string | null; // Blank clears the brand
+  addKeywords?: string[];
+  removeKeywords?: string[];
+  replaceDescription?: { find: string; replace: string; matchCase?: boolean };
+};
+
+export type BulkEditFields = {
+  typeId: string | null;
+  brand: string | null;
+  keywords: string | null;
+  description: string;
+};
+
+export const BULK_EDIT_MAX_PRODUCTS = 500;
+
+export class InvalidBulkEditError extends Error {}
+
+// Keywords are stored comma-separated, as typed on the product form.
+export function splitKeywords(keywords: string | null | undefined) {
+  return (keywords ?? "")
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function keywordList(value: unknown, name: string) {
+  if (value === undefined || value === null) return undefined;
+  const list = Array.isArray(value) ? value.map(String) : splitKeywords(String(value));
+  const keywords = list.flatMap((keyword) => splitKeywords(keyword));
+  if (keywords.length === 0) return undefined;
+  if (keywords.some((keyword) => keyword.length > 100)) {
+    throw new InvalidBulkEditError(`${name} keywords must be under 100 characters each.`);
+  }
+  return keywords;
+}
+
+// Validates the change set from a request body.
+export function parseBulkEdit(input: unknown): BulkEdit {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new InvalidBulkEditError("Changes must be an object.");
+  }
+  const raw = input as Record<string, any>;
+  const edit: BulkEdit = {};
+
+  if (raw.typeId !== undefined && raw.typeId !== null && raw.typeId !== "") {
+    edit.typeId = String(raw.typeId);
+  }
+  if (raw.brand !== undefined) {
+    edit.brand = String(raw.brand ?? "").trim() || null;
+  }
+  edit.addKeywords = keywordList(raw.addKeywords, "Added");
+  edit.removeKeywords = keywordList(raw.removeKeywords, "Removed");
+
+  const replace = raw.replaceDescription;
+  if (replace !== undefined && replace !== null) {
+    const find = String(replace.find ?? "");
+    if (!find) throw new InvalidBulkEditError("Find text can't be empty.");
+    edit.replaceDescription = {
+      find,
+      replace: String(replace.replace ?? ""),
+      matchCase: replace.matchCase === true,
+    };
+  }
+
+  if (
+    edit.typeId === undefined &&
+    edit.brand === undefined &&
+    !edit.addKeywords &&
+    !edit.removeKeywords &&
+    !edit.replaceDescription
+  ) {
+    throw new InvalidBulkEditError("Nothing to change.");
+  }
+  return edit;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The fields a product would end up with. Keywords compare without case, so
+// adding "Matte" to a product tagged "matte" changes nothing.
+export function applyBulkEdit(product: BulkEditFields, edit: BulkEdit): BulkEditFields {
+  const next = { ...product };
+
+  if (edit.typeId !== undefined) next.typeId = edit.typeId;
+  if (edit.brand !== undefined) next.brand = edit.brand;
+
+  if (edit.addKeywords || edit.removeKeywords) {
+    const removed = new Set((edit.removeKeywords ?? []).map((k) => k.toLowerCase()));
+    const keywords = splitKeywords(product.keywords).filter((k) => !removed.has(k.toLowerCase()));
+    for (const keyword of edit.addKeywords ?? []) {
+      if (!keywords.some((k) => k.toLowerCase() === keyword.toLowerCase())) keywords.push(keyword);
+    }
+    // Leave untouched keywords exactly as they were typed
+    const joined = keywords.join(", ");
+    next.keywords = joined === splitKeywords(product.keywords).join(", ") ? product.keywords : joined || null;
+  }
+
+  if (edit.replaceDescription) {
+    const { find, replace, matchCase } = edit.replaceDescription;
+    const pattern = new RegExp(escapeRegExp(find), matchCase ? "g" : "gi");
+    // Replacement text is literal, so "$1" stays "$1"
+    next.description = product.description.replace(pattern, () => replace);
+  }
+
+  return next;
+}
+
+// Only the fields that differ, for previews and updates.
+export function bulkEditChanges(before: BulkEditFields, after: BulkEditFields) {
+  return (Object.keys(after) as Array<keyof BulkEditFields>).filter(
+    (field) => before[field] !== after[field]
+  );
+}
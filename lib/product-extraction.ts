@@ -0,0 +1,533 @@
+import PizZip from "pizzip";
+import { parseStringPromise } from "xml2js";
+import { canConvertDocument, convertDocument } from "@/lib/document-conversion";
+import { readPdfTables } from "@/lib/pdf-tables";
+import {
+  InvalidSpreadsheetError,
+  isSpreadsheet,
+  readSpreadsheet,
+  type SheetTable,
+} from "@/lib/spreadsheets";
+import {
+  resolveColumnMapping,
+  type MappingUsed,
+  type SupplierTableSettings,
+} from "@/lib/supplier-columns";
+
+// Reading products out of a supplier's quote or price list: DOCX tables,
+// PDFs (converted to DOCX when a converter is set up), CSV and XLSX. Used by
+// the extract route and by import jobs.
+
+export type ExtractedProduct = {
+  code: string;
+  description: string;
+  imageBase64: string | null;
+  price?: string;
+  productDetails?: string;
+  brand?: string;
+  keywords?: string;
+  link?: string;
+  area?: string;
+};
+
+// Helper to check if text should be skipped (headers, categories, etc.)
+function shouldSkip(text: string): boolean {
+  if (!text || text.length < 2) return true;
+
+  const upper = text.toUpperCase();
+
+  // Skip if contains phone number patterns
+  if (text.match(/\d{4}\s?\d{3}\s?\d{3}/) || text.match(/\(\d{2}\)\s?\d{4}/)) {
+    return true;
+  }
+
+  // Skip if contains email
+  if (text.includes("@") || text.toLowerCase().includes(".com.au")) {
+    return true;
+  }
+
+  // Skip common business words/headers (only if they're the entire string)
+  const businessWords = ["ABN", "PTY LTD", "LIMITED", "WAREHOUSE", "PHONE", "EMAIL", "FAX", "ADDRESS", "WWW."];
+  if (businessWords.some(word => upper === word || upper === word.replace(/\s/g, ""))) {
+    return true;
+  }
+
+  return false;
+}
+
+// Stores a mapped cell's text on the product being built
+function setMappedField(product: Partial<ExtractedProduct>, field: string, cellText: string) {
+  if (!cellText) return;
+  switch (field) {
+    case "code":
+      product.code = cellText;
+      break;
+    case "description":
+      product.description = cellText;
+      break;
+    case "price":
+      // Clean price - remove $ and other characters
+      product.price = cellText.replace(/[^0-9.,]/g, "");
+      break;
+    case "productDetails":
+      product.productDetails = cellText;
+      break;
+    case "brand":
+      product.brand = cellText;
+      break;
+    case "keywords":
+      product.keywords = cellText;
+      break;
+    case "link":
+      product.link = cellText;
+      break;
+    case "area":
+      product.area = cellText;
+      break;
+  }
+}
+
+// Only keep a row if it has at least code and description
+function completeProduct(product: Partial<ExtractedProduct>): ExtractedProduct | null {
+  if (!product.code || !product.description ||
+      shouldSkip(product.code) || shouldSkip(product.description)) {
+    return null;
+  }
+  return {
+    code: product.code,
+    description: product.description,
+    imageBase64: product.imageBase64 || null,
+    price: product.price,
+    productDetails: product.productDetails,
+    brand: product.brand,
+    keywords: product.keywords,
+    link: product.link,
+    area: product.area,
+  };
+}
+
+// Each table is mapped on its own, since one quote can hold several tables
+// with different headers.
+async function extractFromDocx(
+  docxBuffer: Buffer,
+  supplier: SupplierTableSettings
+): Promise<{ products: ExtractedProduct[]; mappingUsed: MappingUsed[] }> {
+  const zip = new PizZip(docxBuffer);
+  const products: ExtractedProduct[] = [];
+  const mappingUsed: MappingUsed[] = [];
+
+  // Extract images from the document
+  const imageMap: Map<string, string> = new Map();
+  const mediaFiles = Object.keys(zip.files).filter(f => f.startsWith("word/media/"));
+  
+  for (const mediaFile of mediaFiles) {
+    const file = zip.file(mediaFile);
+    if (file && !file.dir) {
+      const imageData = file.asNodeBuffer();
+      const base64 = imageData.toString("base64");
+      const fileName = mediaFile.split("/").pop() || "";
+      imageMap.set(fileName, base64);
+    }
+  }
+
+  // Parse the document.xml to extract text
+  const docFile = zip.file("word/document.xml");
+  if (!docFile) {
+    throw new Error("No document.xml found in DOCX");
+  }
+
+  const docXml = docFile.asText();
+  
+  // Parse relationships to map rId to image files
+  const relsFile = zip.file("word/_rels/document.xml.rels");
+  const imageRels: Map<string, string> = new Map();
+  
+  if (relsFile) {
+    const relsXml = relsFile.asText();
+    const relsData = await parseStringPromise(relsXml);
+    const relationships = relsData?.Relationships?.Relationship || [];
+    
+    for (const rel of relationships) {
+      const id = rel.$?.Id;
+      const target = rel.$?.Target;
+      if (id && target && target.includes("media/")) {
+        const fileName = target.split("/").pop();
+        imageRels.set(id, fileName);
+      }
+    }
+  }
+
+  // Parse the document XML
+  const docData = await parseStringPromise(docXml, { explicitArray: false });
+  
+  // Helper to extract text from a node
+  const extractText = (node: any): string => {
+    if (!node) return "";
+    if (typeof node === "string") return node;
+    if (node["w:t"]) {
+      const t = node["w:t"];
+      if (typeof t === "string") return t;
+      if (typeof t === "object" && t._) return t._;
+      if (Array.isArray(t)) return t.map(extractText).join("");
+      return "";
+    }
+    if (node["w:r"]) {
+      const runs = Array.isArray(node["w:r"]) ? node["w:r"] : [node["w:r"]];
+      return runs.map(extractText).join("");
+    }
+    if (node["w:p"]) {
+      const paras = Array.isArray(node["w:p"]) ? node["w:p"] : [node["w:p"]];
+      return paras.map(extractText).join(" ");
+    }
+    return "";
+  };
+
+  // Find image rId in a cell
+  const findImageRId = (node: any): string | null => {
+    if (!node) return null;
+    const nodeStr = JSON.stringify(node);
+    const match = nodeStr.match(/"r:embed":"(rId\d+)"/);
+    return match ? match[1] : null;
+  };
+
+  // Try to find tables in the document
+  const body = docData?.["w:document"]?.["w:body"];
+  if (!body) {
+    throw new Error("No body found in document");
+  }
+
+  // Look for tables
+  const tables = body["w:tbl"];
+  const tableList = tables ? (Array.isArray(tables) ? tables : [tables]) : [];
+
+  for (const table of tableList) {
+    const rows = table["w:tr"];
+    const rowList = rows ? (Array.isArray(rows) ? rows : [rows]) : [];
+    const cellLists = rowList.map((row: any) => {
+      const cells = row["w:tc"];
+      return cells ? (Array.isArray(cells) ? cells : [cells]) : [];
+    });
+
+    // Match this table's header row, or fall back to the saved columns
+    const { mapping, firstDataRow } = resolveColumnMapping(
+      cellLists.map((cellList: any[]) => cellList.map((cell) => extractText(cell).trim())),
+      supplier
+    );
+    if (rowList.length > firstDataRow) mappingUsed.push(mapping);
+
+    const columnToField: Record<number, string> = {};
+    for (const { column, field } of mapping.columns) {
+      columnToField[column] = field;
+    }
+
+    for (let i = firstDataRow; i < rowList.length; i++) {
+      const cellList = cellLists[i];
+
+      // Create product from this row using column mappings
+      const product: Partial<ExtractedProduct> = {};
+      
+      for (let colIndex = 0; colIndex < cellList.length; colIndex++) {
+        const cell = cellList[colIndex];
+        const columnNumber = colIndex + 1; // 1-indexed
+        const field = columnToField[columnNumber];
+        
+        if (!field) continue; // No mapping for this column
+
+        if (field === "image") {
+          // Extract image from this cell
+          const imageRId = findImageRId(cell);
+          if (imageRId) {
+            const imageFileName = imageRels.get(imageRId);
+            if (imageFileName) {
+              product.imageBase64 = imageMap.get(imageFileName) || null;
+            }
+          }
+        } else {
+          // Extract text from this cell
+          setMappedField(product, field, extractText(cell).trim());
+        }
+      }
+
+      const extracted = completeProduct(product);
+      if (extracted) products.push(extracted);
+    }
+  }
+
+  return { products, mappingUsed };
+}
+
+// Supplier price lists as CSV or XLSX, and PDFs read locally, with the same
+// column mappings as their documents. Pictures placed over an image column's
+// cells are used as that row's image.
+function extractFromTable(
+  table: SheetTable,
+  supplier: SupplierTableSettings
+): { products: ExtractedProduct[]; mappingUsed: MappingUsed[] } {
+  const products: ExtractedProduct[] = [];
+  const { mapping, firstDataRow } = resolveColumnMapping(table.rows, supplier);
+
+  for (let i = firstDataRow; i < table.rows.length; i++) {
+    const cells = table.rows[i];
+    const product: Partial<ExtractedProduct> = {};
+
+    for (const { column, field } of mapping.columns) {
+      if (field === "image") {
+        const image = table.images.get(`${i},${column - 1}`);
+        if (image) product.imageBase64 = image.toString("base64");
+      } else {
+        setMappedField(product, field, (cells[column - 1] ?? "").trim());
+      }
+    }
+
+    const extracted = completeProduct(product);
+    if (extracted) products.push(extracted);
+  }
+
+  return { products, mappingUsed: [mapping] };
+}
+
+// Without a supplier, PDF tables are read by their headers alone
+const HEADERS_ONLY: SupplierTableSettings = { columnMappings: [], startRow: 1, hasHeaderRow: true };
+
+// PDFs rebuilt into tables from their text positions, one table per page
+async function extractFromPdf(pdfBuffer: Buffer, supplier: SupplierTableSettings | null) {
+  const products: ExtractedProduct[] = [];
+  const mappingUsed: MappingUsed[] = [];
+  for (const table of await readPdfTables(pdfBuffer)) {
+    const extracted = extractFromTable(table, supplier ?? HEADERS_ONLY);
+    products.push(...extracted.products);
+    mappingUsed.push(...extracted.mappingUsed);
+  }
+  return { products, mappingUsed };
+}
+
+// Fallback extraction when no supplier is selected (legacy BWA mode)
+async function extractFromDocxLegacy(docxBuffer: Buffer): Promise<ExtractedProduct[]> {
+  const zip = new PizZip(docxBuffer);
+  const products: ExtractedProduct[] = [];
+
+  // Extract images from the document
+  const imageMap: Map<string, string> = new Map();
+  const mediaFiles = Object.keys(zip.files).filter(f => f.startsWith("word/media/"));
+  
+  for (const mediaFile of mediaFiles) {
+    const file = zip.file(mediaFile);
+    if (file && !file.dir) {
+      const imageData = file.asNodeBuffer();
+      const base64 = imageData.toString("base64");
+      const fileName = mediaFile.split("/").pop() || "";
+      imageMap.set(fileName, base64);
+    }
+  }
+
+  // Parse the document.xml to extract text
+  const docFile = zip.file("word/document.xml");
+  if (!docFile) {
+    throw new Error("No document.xml found in DOCX");
+  }
+
+  const docXml = docFile.asText();
+  
+  // Parse relationships to map rId to image files
+  const relsFile = zip.file("word/_rels/document.xml.rels");
+  const imageRels: Map<string, string> = new Map();
+  
+  if (relsFile) {
+    const relsXml = relsFile.asText();
+    const relsData = await parseStringPromise(relsXml);
+    const relationships = relsData?.Relationships?.Relationship || [];
+    
+    for (const rel of relationships) {
+      const id = rel.$?.Id;
+      const target = rel.$?.Target;
+      if (id && target && target.includes("media/")) {
+        const fileName = target.split("/").pop();
+        imageRels.set(id, fileName);
+      }
+    }
+  }
+
+  // Parse the document XML
+  const docData = await parseStringPromise(docXml, { explicitArray: false });
+  
+  // Helper to extract text from a node
+  const extractText = (node: any): string => {
+    if (!node) return "";
+    if (typeof node === "string") return node;
+    if (node["w:t"]) {
+      const t = node["w:t"];
+      if (typeof t === "string") return t;
+      if (typeof t === "object" && t._) return t._;
+      if (Array.isArray(t)) return t.map(extractText).join("");
+      return "";
+    }
+    if (node["w:r"]) {
+      const runs = Array.isArray(node["w:r"]) ? node["w:r"] : [node["w:r"]];
+      return runs.map(extractText).join("");
+    }
+    if (node["w:p"]) {
+      const paras = Array.isArray(node["w:p"]) ? node["w:p"] : [node["w:p"]];
+      return paras.map(extractText).join(" ");
+    }
+    return "";
+  };
+
+  // Find image rId in a cell
+  const findImageRId = (node: any): string | null => {
+    if (!node) return null;
+    const nodeStr = JSON.stringify(node);
+    const match = nodeStr.match(/"r:embed":"(rId\d+)"/);
+    return match ? match[1] : null;
+  };
+
+  // Helper to check if text should be skipped
+  const shouldSkip = (text: string): boolean => {
+    if (!text || text.length < 2) return true;
+    const upper = text.toUpperCase();
+    if (text.match(/\d{4}\s?\d{3}\s?\d{3}/) || text.match(/\(\d{2}\)\s?\d{4}/)) return true;
+    if (text.includes("@") || text.toLowerCase().includes(".com.au")) return true;
+    const businessWords = ["ABN", "PTY LTD", "LIMITED", "WAREHOUSE", "PHONE", "EMAIL", "FAX", "ADDRESS", "WWW."];
+    if (businessWords.some(word => upper === word || upper === word.replace(/\s/g, ""))) return true;
+    const categories = ["BASINS", "TAPS", "TOILETS", "SHOWERS", "BATHS", "VANITIES", 
+                        "KITCHEN", "BATHROOM", "ACCESSORIES", "MIXERS", "SINKS", "MIXER"];
+    if (categories.includes(upper)) return true;
+    return false;
+  };
+
+  const body = docData?.["w:document"]?.["w:body"];
+  if (!body) throw new Error("No body found in document");
+
+  const tables = body["w:tbl"];
+  const tableList = tables ? (Array.isArray(tables) ? tables : [tables]) : [];
+
+  for (const table of tableList) {
+    const rows = table["w:tr"];
+    const rowList = rows ? (Array.isArray(rows) ? rows : [rows]) : [];
+
+    for (let i = 1; i < rowList.length; i++) {
+      const row = rowList[i];
+      const cells = row["w:tc"];
+      const cellList = cells ? (Array.isArray(cells) ? cells : [cells]) : [];
+
+      if (cellList.length >= 2) {
+        let code = "";
+        let name = "";
+        let imageBase64: string | null = null;
+
+        for (const cell of cellList) {
+          const cellText = extractText(cell).trim();
+          const imageRId = findImageRId(cell);
+
+          if (imageRId && !imageBase64) {
+            const imageFileName = imageRels.get(imageRId);
+            if (imageFileName) {
+              imageBase64 = imageMap.get(imageFileName) || null;
+            }
+          }
+
+          if (cellText) {
+            if (cellText.match(/^BWA/i) || cellText.match(/^[A-Z]{2,}\d+/)) {
+              code = cellText;
+            } else if (!name && cellText.length > 2) {
+              name = cellText;
+            }
+          }
+        }
+
+        if (shouldSkip(code) || shouldSkip(name)) continue;
+
+        if (code && name && code.length > 0 && name.length > 2) {
+          products.push({ code, description: name, imageBase64 });
+        }
+      }
+    }
+  }
+
+  return products;
+}
+
+// A file that can't be read as a product list, as opposed to one that fails
+// while being read.
+export class UnsupportedImportFileError extends Error {}
+
+// Checks that a file can be read with this supplier before any work is
+// done on it.
+export function checkImportFile(
+  file: { fileName: string; contentType: string },
+  supplier: SupplierTableSettings | null
+) {
+  const fileName = file.fileName.toLowerCase();
+  if (isSpreadsheet(fileName)) {
+    // Price lists have no table layout to guess from, so they need the
+    // supplier's column mappings
+    const mappings = supplier?.columnMappings;
+    if (!supplier || !Array.isArray(mappings) || mappings.length === 0) {
+      throw new UnsupportedImportFileError(
+        "Select a supplier with column mappings to import a CSV or XLSX file"
+      );
+    }
+  } else if (
+    !fileName.endsWith(".pdf") &&
+    file.contentType !== "application/pdf" &&
+    !fileName.endsWith(".docx")
+  ) {
+    throw new UnsupportedImportFileError("File must be a PDF, DOCX, CSV or XLSX");
+  }
+}
+
+// Reads the products from a supplier file, with how each table's columns
+// were read (null for the legacy extractor). `onStep` hears each step as it
+// starts.
+export async function extractProducts(
+  file: { buffer: Buffer; fileName: string; contentType: string },
+  supplier: SupplierTableSettings | null,
+  onStep: (step: string) => unknown = (step) => console.log(`${step}...`)
+): Promise<{ products: ExtractedProduct[]; mappingUsed: MappingUsed[] | null }> {
+  checkImportFile(file, supplier);
+  const { buffer } = file;
+  const fileName = file.fileName.toLowerCase();
+
+  if (isSpreadsheet(fileName)) {
+    await onStep("Reading the spreadsheet");
+    let table: SheetTable;
+    try {
+      table = await readSpreadsheet(buffer, fileName);
+    } catch (error) {
+      if (error instanceof InvalidSpreadsheetError) {
+        throw new UnsupportedImportFileError(error.message);
+      }
+      throw error;
+    }
+    return extractFromTable(table, supplier!);
+  }
+
+  let docxBuffer: Buffer | null = null;
+  const isPdf = fileName.endsWith(".pdf") || file.contentType === "application/pdf";
+
+  // PDFs are converted to DOCX when the document converter can, and are
+  // read locally otherwise or when the conversion fails
+  if (isPdf && canConvertDocument("pdf", "docx")) {
+    await onStep("Converting the PDF to DOCX");
+    try {
+      docxBuffer = await convertDocument(buffer, "pdf", "docx");
+    } catch (err) {
+      console.log(`PDF conversion failed, reading it locally: ${err}`);
+    }
+  } else if (!isPdf) {
+    // Already a DOCX
+    docxBuffer = buffer;
+  }
+
+  if (!docxBuffer) {
+    await onStep("Reading the PDF's tables");
+    return extractFromPdf(buffer, supplier);
+  }
+
+  await onStep("Reading the DOCX's tables");
+  if (supplier && supplier.columnMappings) {
+    // Use supplier's headers and column mappings
+    return extractFromDocx(docxBuffer, supplier);
+  }
+  // Fallback to legacy BWA extraction
+  return { products: await extractFromDocxLegacy(docxBuffer), mappingUsed: null };
+}
@@ -0,0 +1,134 @@
+import type { Prisma } from "@prisma/client";
+
+import {
+  hashImage,
+  imageExtension,
+  processImage,
+  type RenderedImage,
+} from "@/lib/image-processing";
+import { prisma } from "@/lib/prisma";
+import { getPublicUrl, uploadToR2 } from "@/lib/r2";
+
+export const NO_IMAGE_URL = "/no-image.png";
+export const MAX_PRODUCT_IMAGES = 12;
+
+// The ProductImage columns that describe the stored files, as opposed to
+// where the image sits on its product.
+const STORED_IMAGE_SELECT = {
+  url: true,
+  contentHash: true,
+  width: true,
+  height: true,
+  thumbnailUrl: true,
+  documentUrl: true,
+  documentWidth: true,
+  documentHeight: true,
+} satisfies Prisma.ProductImageSelect;
+
+export type StoredProductImage = Prisma.ProductImageGetPayload<{
+  select: typeof STORED_IMAGE_SELECT;
+}> & { contentHash: string };
+
+async function uploadRendition(contentHash: string, name: string, image: RenderedImage) {
+  const key = `products/${contentHash}/${name}.${imageExtension(image)}`;
+  await uploadToR2({ key, body: image.body, contentType: image.contentType });
+  return getPublicUrl(key);
+}
+
+// Normalises an upload into its renditions and stores them in R2 under the
+// content hash, returning the fields for a ProductImage row. An image that
+// has been uploaded before reuses the stored files.
+// Throws UnsupportedImageError for files that can't be read as images.
+export async function storeProductImage(body: Buffer): Promise<StoredProductImage> {
+  const contentHash = hashImage(body);
+  const existing = await prisma.productImage.findFirst({
+    where: { contentHash, documentUrl: { not: null } },
+    select: STORED_IMAGE_SELECT,
+  });
+  if (existing) return { ...existing, contentHash };
+
+  const { renditions } = await processImage(body);
+  const [url, documentUrl, thumbnailUrl] = await Promise.all([
+    uploadRendition(contentHash, "original", renditions.original),
+    uploadRendition(contentHash, "document", renditions.document),
+    uploadRendition(contentHash, "thumbnail", renditions.thumbnail),
+  ]);
+
+  return {
+    url,
+    contentHash,
+    width: renditions.original.width,
+    height: renditions.original.height,
+    thumbnailUrl,
+    documentUrl,
+    documentWidth: renditions.document.width,
+    documentHeight: renditions.document.height,
+  };
+}
+
+// Stores each file in order, dropping any whose content is already among
+// `existingHashes` or earlier in the list.
+export async function storeProductImageFiles(files: File[], existingHashes: Array<string | null> = []) {
+  const seen = new Set(existingHashes);
+  const stored: StoredProductImage[] = [];
+  for (const file of files) {
+    const body = Buffer.from(await file.arrayBuffer());
+    const contentHash = hashImage(body);
+    if (seen.has(contentHash)) continue;
+    seen.add(contentHash);
+    stored.push(await storeProductImage(body));
+  }
+  return stored;
+}
+
+// Files from a multipart form, skipping empty inputs.
+export function imageFilesFromForm(formData: FormData, ...names: string[]) {
+  return names
+    .flatMap((name) => formData.getAll(name))
+    .filter((value): value is File => value instanceof File && value.size > 0);
+}
+
+// Makes sure exactly one image is primary (the first by sort order if none
+// or several are flagged) and mirrors its URL to Product.imageUrl, which
+// the rest of the app still reads. Call after any change to a product's
+// images, inside the same transaction.
+export async function syncPrimaryImage(
+  db: Pick<Prisma.TransactionClient, "product" | "productImage">,
+  productId: string
+) {
+  const images = await db.productImage.findMany({
+    where: { productId },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+  });
+
+  const primary = images.find((image) => image.isPrimary) ?? images[0];
+  if (primary) {
+    await db.productImage.updateMany({
+      where: { productId, isPrimary: true, id: { not: primary.id } },
+      data: { isPrimary: false },
+    });
+    if (!primary.isPrimary) {
+      await db.productImage.update({ where: { id: primary.id }, data: { isPrimary: true } });
+    }
+  }
+
+  return db.product.update({
+    where: { id: productId },
+    data: { imageUrl: primary?.url ?? NO_IMAGE_URL },
+    include: {
+      type: true,
+      images: { orderBy: { sortOrder: "asc" } },
+    },
+  });
+}
+
+// What the audit log records for a product's images.
+export function imageAuditSnapshot(
+  product: { imageUrl: string },
+  images: Array<{ url: string; altText: string | null }>
+) {
+  return {
+    imageUrl: product.imageUrl,
+    images: images.map((image) => (image.altText ? `${image.url} (${image.altText})` : image.url)),
+  };
+}
@@ -0,0 +1,480 @@
+import type { Prisma } from "@prisma/client";
+
+import { recordAuditEvent } from "@/lib/audit";
+import type { AdminPrincipal } from "@/lib/auth";
+import { hashImage } from "@/lib/image-processing";
+import { recordPriceHistory, tryParsePrice } from "@/lib/pricing";
+import {
+  NO_IMAGE_URL,
+  storeProductImage,
+  syncPrimaryImage,
+  type StoredProductImage,
+} from "@/lib/product-images";
+import { matchSupplierCodes } from "@/lib/product-suppliers";
+
+// Importing a supplier's quote or price list into the catalogue. Each row is
+// compared with the product it matches, if any, and the import page decides
+// per row whether to create, update or skip it.
+
+// One row of a supplier file as reviewed on the import page.
+export type ImportRow = {
+  code: string; // Ours; starts out as the supplier's SKU
+  supplierSku: string;
+  description: string;
+  productDetails: string;
+  link: string;
+  brand: string;
+  keywords: string;
+  typeName: string; // Only used when creating
+  price: string; // The supplier's cost, as printed
+  imageHash: string | null; // The row's image by content; stored before the import
+};
+
+export type ImportDecision = "create" | "update" | "skip";
+
+// A row as sent for import, whose image may come with it rather than
+// having been stored already
+export type ImportUploadRow = ImportRow & { decision: ImportDecision; imageBase64: string | null };
+
+export type ImportRowStatus = "new" | "changed" | "unchanged";
+
+export type ImportField =
+  | "description"
+  | "productDetails"
+  | "link"
+  | "brand"
+  | "keywords"
+  | "costPrice"
+  | "supplierSku"
+  | "image";
+
+// Images compare by content: `before` is the current image URL and `after`
+// is null, the new image being the row's own.
+export type ImportFieldChange = {
+  field: ImportField;
+  before: string | null;
+  after: string | null;
+};
+
+export type ImportComparison = {
+  status: ImportRowStatus;
+  productId: string | null;
+  productCode: string | null;
+  changes: ImportFieldChange[];
+  ambiguousWith: string[]; // Codes of the products a "new" row could be, when it can't tell
+};
+
+export type ImportOutcome = {
+  code: string;
+  result: "created" | "updated" | "unchanged" | "skipped";
+  productId: string | null;
+};
+
+export const IMPORT_MAX_ROWS = 2000;
+
+export class InvalidImportError extends Error {}
+
+const TEXT_FIELDS = ["description", "productDetails", "link", "brand", "keywords"] as const;
+
+const DECISIONS: ImportDecision[] = ["create", "update", "skip"];
+
+function text(value: unknown) {
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+// Reads the rows and their decisions from a request body or a saved job.
+export function parseImportRows(input: unknown): ImportUploadRow[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new InvalidImportError("There are no rows to import.");
+  }
+  if (input.length > IMPORT_MAX_ROWS) {
+    throw new InvalidImportError(`Imports are limited to ${IMPORT_MAX_ROWS} rows at a time.`);
+  }
+
+  const rows = input.map((raw: any, index) => {
+    const code = text(raw?.code);
+    if (!code) throw new InvalidImportError(`Row ${index + 1} has no product code.`);
+    const decision = raw?.decision ?? "create";
+    if (!DECISIONS.includes(decision)) {
+      throw new InvalidImportError(`Row ${index + 1} has an unknown decision "${decision}".`);
+    }
+    const imageBase64 = text(raw.imageBase64) || null;
+    return {
+      code,
+      supplierSku: text(raw.supplierSku) || code,
+      description: text(raw.description),
+      productDetails: text(raw.productDetails),
+      link: text(raw.link),
+      brand: text(raw.brand),
+      keywords: text(raw.keywords),
+      typeName: text(raw.typeName) || "Other",
+      price: text(raw.price),
+      imageHash: imageBase64
+        ? hashImage(Buffer.from(imageBase64, "base64"))
+        : text(raw.imageHash) || null,
+      imageBase64,
+      decision: decision as ImportDecision,
+    };
+  });
+
+  const creating = rows.filter((row) => row.decision === "create").map((row) => row.code);
+  const repeated = creating.filter((code, index) => creating.indexOf(code) !== index);
+  if (repeated.length > 0) {
+    throw new InvalidImportError(
+      `${Array.from(new Set(repeated)).join(", ")} would be created more than once.`
+    );
+  }
+  return rows;
+}
+
+function productsForComparison(
+  db: Pick<Prisma.TransactionClient, "product">,
+  ids: string[],
+  supplierId: string | null
+) {
+  return db.product.findMany({
+    where: { id: { in: ids } },
+    include: {
+      images: { where: { isPrimary: true }, take: 1 },
+      suppliers: { where: { supplierId: supplierId ?? "" } },
+    },
+  });
+}
+
+type ComparedProduct = Awaited<ReturnType<typeof productsForComparison>>[number];
+
+function formatCost(value: Prisma.Decimal | null) {
+  return value === null ? null : Number(value).toFixed(2);
+}
+
+// The fields an update would change. Blank cells in the file leave the
+// product's value alone rather than clearing it.
+function diffImportRow(
+  row: ImportRow,
+  product: ComparedProduct,
+  supplierId: string | null
+): ImportFieldChange[] {
+  const changes: ImportFieldChange[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    if (row[field] && row[field] !== (product[field] ?? "")) {
+      changes.push({ field, before: product[field] ?? null, after: row[field] });
+    }
+  }
+
+  const cost = tryParsePrice(row.price);
+  if (cost !== null && (product.costPrice === null || Number(product.costPrice) !== Number(cost))) {
+    changes.push({ field: "costPrice", before: formatCost(product.costPrice), after: cost });
+  }
+
+  const listing = product.suppliers[0];
+  if (supplierId && listing?.supplierSku !== row.supplierSku) {
+    changes.push({ field: "supplierSku", before: listing?.supplierSku ?? null, after: row.supplierSku });
+  }
+
+  if (row.imageHash && row.imageHash !== product.images[0]?.contentHash) {
+    const current = product.imageUrl === NO_IMAGE_URL ? null : product.imageUrl;
+    changes.push({ field: "image", before: current, after: null });
+  }
+
+  return changes;
+}
+
+type ComparedImportRow<R extends ImportRow> = {
+  row: R;
+  product: ComparedProduct | null;
+  comparison: ImportComparison;
+};
+
+async function compareWithProducts<R extends ImportRow>(
+  db: Pick<Prisma.TransactionClient, "product" | "$queryRaw">,
+  rows: R[],
+  supplierId: string | null
+): Promise<ComparedImportRow<R>[]> {
+  const { matches, ambiguous } = await matchSupplierCodes(
+    db,
+    rows.flatMap((row) => [row.supplierSku, row.code]),
+    supplierId
+  );
+  const matchOf = (row: ImportRow) => matches.get(row.supplierSku) ?? matches.get(row.code) ?? null;
+  const ambiguousOf = (row: ImportRow) =>
+    matchOf(row) ? [] : ambiguous.get(row.supplierSku) ?? ambiguous.get(row.code) ?? [];
+
+  const ids = Array.from(
+    new Set(rows.flatMap((row) => [matchOf(row), ...ambiguousOf(row)]).filter((id): id is string => !!id))
+  );
+  const products = new Map(
+    (await productsForComparison(db, ids, supplierId)).map((product) => [product.id, product])
+  );
+
+  return rows.map((row) => {
+    const productId = matchOf(row);
+    const product = (productId && products.get(productId)) || null;
+    const changes = product ? diffImportRow(row, product, supplierId) : [];
+    const comparison: ImportComparison = {
+      status: !product ? "new" : changes.length > 0 ? "changed" : "unchanged",
+      productId: product?.id ?? null,
+      productCode: product?.code ?? null,
+      changes,
+      ambiguousWith: ambiguousOf(row).flatMap((id) => products.get(id)?.code ?? []),
+    };
+    return { row, product, comparison };
+  });
+}
+
+// Labels each row new, changed or unchanged against the catalogue. Rows
+// match a product through this supplier's SKUs first, then our codes.
+export async function compareImportRows(
+  db: Pick<Prisma.TransactionClient, "product" | "$queryRaw">,
+  rows: ImportRow[],
+  supplierId: string | null
+): Promise<ImportComparison[]> {
+  const compared = await compareWithProducts(db, rows, supplierId);
+  return compared.map(({ comparison }) => comparison);
+}
+
+// Uploads the images of the rows being created or updated, keyed by content
+// hash. Run before the transaction so it isn't held open during uploads. An
+// image that fails to upload is left out and its row imported without it.
+export async function storeImportImages(rows: ImportUploadRow[]) {
+  const stored = new Map<string, StoredProductImage>();
+  for (const row of rows) {
+    if (row.decision === "skip" || !row.imageBase64) continue;
+    const body = Buffer.from(row.imageBase64, "base64");
+    const contentHash = hashImage(body);
+    if (stored.has(contentHash)) continue;
+    try {
+      stored.set(contentHash, await storeProductImage(body));
+    } catch (uploadError) {
+      console.error(`Image upload failed for ${row.code}, importing without it:`, uploadError);
+    }
+  }
+  return stored;
+}
+
+async function findOrCreateType(db: Pick<Prisma.TransactionClient, "productType">, name: string) {
+  return (
+    (await db.productType.findFirst({ where: { name } })) ??
+    (await db.productType.create({ data: { name } }))
+  );
+}
+
+// Rows compared with the catalogue and ready to apply. An import job
+// compares a chunk of rows at once, then applies them one at a time.
+export type PreparedImportRow = ComparedImportRow<ImportRow & { decision: ImportDecision }>;
+
+export async function prepareImportRows(
+  db: Pick<Prisma.TransactionClient, "product" | "$queryRaw">,
+  rows: Array<ImportRow & { decision: ImportDecision }>,
+  supplierId: string | null
+): Promise<PreparedImportRow[]> {
+  return compareWithProducts(db, rows, supplierId);
+}
+
+// Applies each row's decision. Rows are compared again here, so a decision
+// that no longer fits the catalogue (creating a code that now exists, or
+// updating one that doesn't) fails the import rather than guessing.
+// Call inside a transaction so the whole import commits or none of it does.
+export async function applyImportRows(
+  db: Prisma.TransactionClient,
+  actor: AdminPrincipal,
+  input: {
+    supplierId: string | null;
+    rows: Array<ImportRow & { decision: ImportDecision }>;
+    images: Map<string, StoredProductImage>;
+  }
+): Promise<ImportOutcome[]> {
+  const { supplierId, rows, images } = input;
+  return applyPreparedImportRows(db, actor, {
+    supplierId,
+    prepared: await prepareImportRows(db, rows, supplierId),
+    images,
+  });
+}
+
+// Applies rows compared by prepareImportRows, failing the same way when a
+// decision doesn't fit what they were compared with.
+export async function applyPreparedImportRows(
+  db: Prisma.TransactionClient,
+  actor: AdminPrincipal,
+  input: {
+    supplierId: string | null;
+    prepared: PreparedImportRow[];
+    images: Map<string, StoredProductImage>;
+  }
+): Promise<ImportOutcome[]> {
+  const { supplierId, prepared: compared, images } = input;
+
+  const conflicts = compared.filter(
+    ({ row, product, comparison }) =>
+      (row.decision !== "skip" && comparison.ambiguousWith.length > 0) ||
+      (row.decision === "create" && product) ||
+      (row.decision === "update" && !product)
+  );
+  if (conflicts.length > 0) {
+    throw new InvalidImportError(
+      `These rows no longer match the catalogue: ${conflicts
+        .map(({ row, product, comparison }) =>
+          comparison.ambiguousWith.length > 0
+            ? `${row.code} could be any of ${comparison.ambiguousWith.join(", ")}`
+            : product
+              ? `${row.code} already exists as ${product.code}`
+              : `${row.code} is not in the catalogue`
+        )
+        .join("; ")}. Check the file again and choose create, update or skip.`
+    );
+  }
+
+  const outcomes: ImportOutcome[] = [];
+  for (const { row, product, comparison } of compared) {
+    if (row.decision === "skip") {
+      outcomes.push({ code: row.code, result: "skipped", productId: product?.id ?? null });
+    } else if (!product) {
+      const created = await createImportedProduct(db, actor, row, supplierId, images);
+      outcomes.push({ code: row.code, result: "created", productId: created.id });
+    } else {
+      const changed = await updateImportedProduct(
+        db,
+        actor,
+        row,
+        product,
+        comparison.changes,
+        supplierId,
+        images
+      );
+      outcomes.push({ code: row.code, result: changed ? "updated" : "unchanged", productId: product.id });
+    }
+  }
+  return outcomes;
+}
+
+async function createImportedProduct(
+  db: Prisma.TransactionClient,
+  actor: AdminPrincipal,
+  row: ImportRow,
+  supplierId: string | null,
+  images: Map<string, StoredProductImage>
+) {
+  const productType = await findOrCreateType(db, row.typeName);
+  const storedImage = row.imageHash ? images.get(row.imageHash) : undefined;
+  // Supplier files price in many formats; keep the row even if unreadable
+  const costPrice = tryParsePrice(row.price);
+
+  const created = await db.product.create({
+    data: {
+      code: row.code,
+      typeId: productType.id,
+      description: row.description || row.code,
+      productDetails: row.productDetails || null,
+      imageUrl: storedImage?.url ?? NO_IMAGE_URL,
+      ...(storedImage && { images: { create: { ...storedImage, isPrimary: true } } }),
+      link: row.link || null,
+      brand: row.brand || null,
+      keywords: row.keywords || null,
+      ...(supplierId && {
+        suppliers: {
+          create: { supplierId, supplierSku: row.supplierSku, costPrice, preferred: true },
+        },
+      }),
+      costPrice,
+      createdById: actor.userId,
+    },
+  });
+  await recordAuditEvent(db, actor, {
+    action: "create",
+    entityType: "product",
+    entityId: created.id,
+    entityLabel: created.code,
+    after: created,
+  });
+  await recordPriceHistory(db, actor, {
+    productId: created.id,
+    source: "import",
+    supplierId,
+    after: created,
+  });
+  return created;
+}
+
+// Writes the changed fields, the supplier's listing and a new primary image.
+// Returns false when the row matched the product already.
+async function updateImportedProduct(
+  db: Prisma.TransactionClient,
+  actor: AdminPrincipal,
+  row: ImportRow,
+  product: ComparedProduct,
+  changes: ImportFieldChange[],
+  supplierId: string | null,
+  images: Map<string, StoredProductImage>
+) {
+  const changed = new Set(changes.map((change) => change.field));
+  if (changed.size === 0) return false;
+
+  const data: Prisma.ProductUpdateInput = {};
+  for (const field of TEXT_FIELDS) {
+    if (changed.has(field)) data[field] = row[field];
+  }
+  const costPrice = tryParsePrice(row.price);
+  if (changed.has("costPrice")) data.costPrice = costPrice;
+
+  const {
+    images: [primary],
+    suppliers: [listing],
+    ...before
+  } = product;
+  let updated = await db.product.update({ where: { id: product.id }, data });
+
+  if (supplierId && (changed.has("supplierSku") || changed.has("costPrice"))) {
+    if (listing) {
+      await db.productSupplier.update({
+        where: { id: listing.id },
+        data: { supplierSku: row.supplierSku, ...(costPrice !== null && { costPrice }) },
+      });
+    } else {
+      // Preferred only when it's the product's first supplier; an existing
+      // preference was chosen on purpose
+      const otherListings = await db.productSupplier.count({ where: { productId: product.id } });
+      await db.productSupplier.create({
+        data: {
+          productId: product.id,
+          supplierId,
+          supplierSku: row.supplierSku,
+          costPrice,
+          preferred: otherListings === 0,
+        },
+      });
+    }
+  }
+
+  const storedImage =
+    changed.has("image") && row.imageHash ? images.get(row.imageHash) : undefined;
+  if (storedImage) {
+    // The new image takes the primary's place, keeping its alt text and position
+    if (primary) {
+      await db.productImage.update({ where: { id: primary.id }, data: storedImage });
+    } else {
+      await db.productImage.create({
+        data: { ...storedImage, productId: product.id, isPrimary: true },
+      });
+    }
+    const synced = await syncPrimaryImage(db, product.id);
+    updated = { ...updated, imageUrl: synced.imageUrl };
+  }
+
+  await recordAuditEvent(db, actor, {
+    action: "update",
+    entityType: "product",
+    entityId: product.id,
+    entityLabel: product.code,
+    before: { ...before, ...(supplierId && { supplierSku: listing?.supplierSku ?? null }) },
+    after: { ...updated, ...(supplierId && { supplierSku: row.supplierSku }) },
+  });
+  await recordPriceHistory(db, actor, {
+    productId: product.id,
+    source: "import",
+    supplierId,
+    before,
+    after: updated,
+  });
+  return true;
+}
@@ -0,0 +1,379 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { SUPPLIER_LISTINGS_INCLUDE } from "@/lib/product-suppliers";
+import { VARIANTS_INCLUDE } from "@/lib/product-variants";
+
+export const PRODUCT_SEARCH_SORTS = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "code", label: "Code" },
+  { value: "description", label: "Description" },
+] as const;
+
+export type ProductSearchSort = (typeof PRODUCT_SEARCH_SORTS)[number]["value"];
+
+export const PRODUCT_SEARCH_DEFAULT_LIMIT = 50;
+export const PRODUCT_SEARCH_MAX_LIMIT = 200;
+
+// Filter value matching products that have no type or supplier.
+export const PRODUCT_SEARCH_NONE = "none";
+
+export type ProductSearchParams = {
+  q: string;
+  typeId?: string;
+  brand?: string;
+  supplierId?: string;
+  sort: ProductSearchSort;
+  cursor?: string;
+  limit: number;
+};
+
+export type ProductSearchFacets = {
+  types: Array<{ id: string | null; name: string; count: number }>;
+  brands: Array<{ value: string; count: number }>;
+  suppliers: Array<{ id: string | null; name: string; count: number }>;
+};
+
+export class InvalidSearchCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+function isSort(value: string | null): value is ProductSearchSort {
+  return PRODUCT_SEARCH_SORTS.some((s) => s.value === value);
+}
+
+export function parseProductSearchParams(searchParams: URLSearchParams): ProductSearchParams {
+  const q = (searchParams.get("q") ?? "").trim().slice(0, 200);
+  const sort = searchParams.get("sort");
+  const limit = parseInt(searchParams.get("limit") || "", 10);
+
+  return {
+    q,
+    typeId: searchParams.get("typeId") || undefined,
+    brand: searchParams.get("brand") || undefined,
+    supplierId: searchParams.get("supplierId") || undefined,
+    // Without a query every row has the same rank, so fall back to newest.
+    sort: isSort(sort) ? sort : q ? "relevance" : "newest",
+    cursor: searchParams.get("cursor") || undefined,
+    limit:
+      Number.isFinite(limit) && limit > 0
+        ? Math.min(limit, PRODUCT_SEARCH_MAX_LIMIT)
+        : PRODUCT_SEARCH_DEFAULT_LIMIT,
+  };
+}
+
+// Must match the expression of the Product_search_idx index in
+// prisma/add_product_search.sql, or Postgres will not use the index.
+const SEARCH_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('simple', coalesce(p."code", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(p."brand", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(p."keywords", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(p."description", '')), 'C') ||
+  setweight(to_tsvector('simple', coalesce(p."productDetails", '')), 'D')
+)`;
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Splits the query into words. Each word is used as a prefix so results
+// narrow as the user types ("bas" finds "basin").
+function searchTerms(q: string) {
+  return q
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 10);
+}
+
+// Every word must appear somewhere in the product or its type name. The
+// whole query may also appear anywhere in the code or a supplier's SKU, so
+// codes with punctuation ("AB-12/3") match however they are typed.
+function textCondition(q: string) {
+  if (!q) return Prisma.sql`TRUE`;
+
+  const terms = searchTerms(q);
+  const pattern = `%${escapeLike(q)}%`;
+  const codeContains = Prisma.sql`(p."code" ILIKE ${pattern} OR EXISTS (
+    SELECT 1 FROM "ProductSupplier" ps
+    WHERE ps."productId" = p."id" AND ps."supplierSku" ILIKE ${pattern}
+  ))`;
+  if (terms.length === 0) return codeContains;
+
+  const perTerm = terms.map(
+    (term) => Prisma.sql`(
+      ${SEARCH_DOCUMENT} @@ to_tsquery('simple', ${`${term}:*`})
+      OR p."code" ILIKE ${`%${escapeLike(term)}%`}
+      OR t."name" ILIKE ${`%${escapeLike(term)}%`}
+    )`
+  );
+  return Prisma.sql`(${codeContains} OR (${Prisma.join(perTerm, " AND ")}))`;
+}
+
+// Full-text rank plus a boost for code matches, which are what people
+// usually type when they know the product.
+function rankExpression(q: string) {
+  if (!q) return Prisma.sql`0::float8`;
+
+  const terms = searchTerms(q);
+  const textRank =
+    terms.length > 0
+      ? Prisma.sql`ts_rank(${SEARCH_DOCUMENT}, to_tsquery('simple', ${terms
+          .map((term) => `${term}:*`)
+          .join(" | ")}))`
+      : Prisma.sql`0`;
+
+  return Prisma.sql`(
+    ${textRank}
+    + CASE
+        WHEN upper(p."code") = ${q.toUpperCase()} THEN 2
+        WHEN p."code" ILIKE ${`${escapeLike(q)}%`} THEN 1
+        WHEN p."code" ILIKE ${`%${escapeLike(q)}%`} THEN 0.5
+        ELSE 0
+      END
+  )::float8`;
+}
+
+type FilterName = "typeId" | "brand" | "supplierId";
+
+// Facet counts ignore their own filter, so picking a type still shows how
+// many matches every other type has.
+function filterConditions(params: ProductSearchParams, except?: FilterName) {
+  const conditions: Prisma.Sql[] = [textCondition(params.q)];
+
+  if (params.typeId && except !== "typeId") {
+    conditions.push(
+      params.typeId === PRODUCT_SEARCH_NONE
+        ? Prisma.sql`p."typeId" IS NULL`
+        : Prisma.sql`p."typeId" = ${params.typeId}`
+    );
+  }
+  if (params.brand && except !== "brand") {
+    conditions.push(Prisma.sql`p."brand" = ${params.brand}`);
+  }
+  if (params.supplierId && except !== "supplierId") {
+    conditions.push(
+      params.supplierId === PRODUCT_SEARCH_NONE
+        ? Prisma.sql`NOT EXISTS (SELECT 1 FROM "ProductSupplier" ps WHERE ps."productId" = p."id")`
+        : Prisma.sql`EXISTS (
+            SELECT 1 FROM "ProductSupplier" ps
+            WHERE ps."productId" = p."id" AND ps."supplierId" = ${params.supplierId}
+          )`
+    );
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+type SortKey = string | number;
+
+type Cursor = { sort: ProductSearchSort; key: SortKey; id: string };
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString("base64url");
+}
+
+function decodeCursor(value: string, sort: ProductSearchSort): Cursor {
+  try {
+    const [cursorSort, key, id] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      cursorSort === sort &&
+      typeof id === "string" &&
+      (typeof key === "string" || typeof key === "number")
+    ) {
+      return { sort, key, id };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new InvalidSearchCursorError();
+}
+
+// Each sort orders by one key and then id, so pages never skip or repeat
+// rows that share a key.
+function sortClauses(sort: ProductSearchSort, cursor?: Cursor) {
+  switch (sort) {
+    case "relevance":
+      return {
+        orderBy: Prisma.sql`"rank" DESC, "id" ASC`,
+        after: cursor
+          ? Prisma.sql`("rank" < ${Number(cursor.key)} OR ("rank" = ${Number(cursor.key)} AND "id" > ${cursor.id}))`
+          : Prisma.sql`TRUE`,
+      };
+    case "code":
+      return {
+        orderBy: Prisma.sql`"code" ASC, "id" ASC`,
+        after: cursor
+          ? Prisma.sql`("code", "id") > (${String(cursor.key)}, ${cursor.id})`
+          : Prisma.sql`TRUE`,
+      };
+    case "description":
+      return {
+        orderBy: Prisma.sql`"description" ASC, "id" ASC`,
+        after: cursor
+          ? Prisma.sql`("description", "id") > (${String(cursor.key)}, ${cursor.id})`
+          : Prisma.sql`TRUE`,
+      };
+    case "newest":
+      return {
+        orderBy: Prisma.sql`"createdAt" DESC, "id" DESC`,
+        after: cursor
+          ? Prisma.sql`("createdAt", "id") < (${new Date(String(cursor.key))}, ${cursor.id})`
+          : Prisma.sql`TRUE`,
+      };
+  }
+}
+
+type MatchRow = {
+  id: string;
+  code: string;
+  description: string;
+  createdAt: Date;
+  rank: number;
+};
+
+function sortKey(sort: ProductSearchSort, row: MatchRow): SortKey {
+  switch (sort) {
+    case "relevance":
+      return row.rank;
+    case "code":
+      return row.code;
+    case "description":
+      return row.description;
+    case "newest":
+      return row.createdAt.toISOString();
+  }
+}
+
+async function searchFacets(params: ProductSearchParams): Promise<ProductSearchFacets> {
+  const [types, brands, suppliers] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string | null; name: string | null; count: bigint }>>`
+      SELECT t."id", t."name", count(*) AS "count"
+      FROM "Product" p
+      LEFT JOIN "ProductType" t ON t."id" = p."typeId"
+      WHERE ${filterConditions(params, "typeId")}
+      GROUP BY t."id", t."name"
+      ORDER BY t."name" ASC NULLS LAST
+    `,
+    prisma.$queryRaw<Array<{ value: string; count: bigint }>>`
+      SELECT p."brand" AS "value", count(*) AS "count"
+      FROM "Product" p
+      LEFT JOIN "ProductType" t ON t."id" = p."typeId"
+      WHERE ${filterConditions(params, "brand")} AND p."brand" IS NOT NULL AND p."brand" <> ''
+      GROUP BY p."brand"
+      ORDER BY p."brand" ASC
+    `,
+    prisma.$queryRaw<Array<{ id: string | null; name: string | null; count: bigint }>>`
+      SELECT s."id", s."name", count(*) AS "count"
+      FROM "Product" p
+      LEFT JOIN "ProductType" t ON t."id" = p."typeId"
+      LEFT JOIN "ProductSupplier" ps ON ps."productId" = p."id"
+      LEFT JOIN "Supplier" s ON s."id" = ps."supplierId"
+      WHERE ${filterConditions(params, "supplierId")}
+      GROUP BY s."id", s."name"
+      ORDER BY s."name" ASC NULLS LAST
+    `,
+  ]);
+
+  return {
+    types: types.map((r) => ({ id: r.id, name: r.name ?? "Other", count: Number(r.count) })),
+    brands: brands.map((r) => ({ value: r.value, count: Number(r.count) })),
+    suppliers: suppliers.map((r) => ({
+      id: r.id,
+      name: r.name ?? "No supplier",
+      count: Number(r.count),
+    })),
+  };
+}
+
+// One page of matches in sort order, plus the cursor for the next page.
+async function matchPage(params: ProductSearchParams) {
+  const cursor = params.cursor ? decodeCursor(params.cursor, params.sort) : undefined;
+  const { orderBy, after } = sortClauses(params.sort, cursor);
+
+  const rows = await prisma.$queryRaw<MatchRow[]>`
+    WITH matches AS (
+      SELECT p."id", p."code", p."description", p."createdAt", ${rankExpression(params.q)} AS "rank"
+      FROM "Product" p
+      LEFT JOIN "ProductType" t ON t."id" = p."typeId"
+      WHERE ${filterConditions(params)}
+    )
+    SELECT * FROM matches
+    WHERE ${after}
+    ORDER BY ${orderBy}
+    LIMIT ${params.limit + 1}
+  `;
+
+  const page = rows.slice(0, params.limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    rows.length > params.limit && last
+      ? encodeCursor({ sort: params.sort, key: sortKey(params.sort, last), id: last.id })
+      : null;
+
+  return { ids: page.map((r) => r.id), nextCursor };
+}
+
+// Ids of every match, a page at a time, for exports and bulk operations
+// that need more than one screenful.
+export async function* matchingProductIds(params: ProductSearchParams) {
+  let cursor = params.cursor;
+  do {
+    const { ids, nextCursor } = await matchPage({
+      ...params,
+      cursor,
+      limit: PRODUCT_SEARCH_MAX_LIMIT,
+    });
+    if (ids.length > 0) yield ids;
+    cursor = nextCursor ?? undefined;
+  } while (cursor);
+}
+
+export async function searchProducts(params: ProductSearchParams) {
+  const [{ ids, nextCursor }, totals, facets] = await Promise.all([
+    matchPage(params),
+    prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT count(*) AS "count"
+      FROM "Product" p
+      LEFT JOIN "ProductType" t ON t."id" = p."typeId"
+      WHERE ${filterConditions(params)}
+    `,
+    searchFacets(params),
+  ]);
+
+  const records = await prisma.product.findMany({
+    where: { id: { in: ids } },
+    include: {
+      type: true,
+      suppliers: SUPPLIER_LISTINGS_INCLUDE,
+      createdBy: { select: { username: true } },
+      images: {
+        orderBy: { sortOrder: "asc" },
+        select: { id: true, url: true, thumbnailUrl: true, altText: true, isPrimary: true },
+      },
+      // The two latest entries are enough to show which way prices moved
+      prices: {
+        orderBy: { createdAt: "desc" },
+        take: 2,
+        select: { costPrice: true, sellPrice: true, createdAt: true },
+      },
+      parent: { select: { id: true, code: true, description: true } },
+      variants: VARIANTS_INCLUDE,
+    },
+  });
+  const byId = new Map(records.map((p) => [p.id, p]));
+  const products = ids.flatMap((id) => {
+    const product = byId.get(id);
+    return product ? [product] : [];
+  });
+
+  return {
+    products,
+    nextCursor,
+    total: Number(totals[0]?.count ?? 0),
+    facets,
+  };
+}
@@ -0,0 +1,196 @@
+import { Prisma } from "@prisma/client";
+
+import { InvalidPriceError, parsePrice } from "@/lib/pricing";
+
+export class InvalidSupplierListingError extends Error {}
+
+// A product's listings with supplier names, preferred first.
+export const SUPPLIER_LISTINGS_INCLUDE = {
+  include: { supplier: { select: { id: true, name: true } } },
+  orderBy: [{ preferred: "desc" }, { createdAt: "asc" }],
+} satisfies Prisma.Product$suppliersArgs;
+
+export type SupplierListingFields = {
+  supplierSku?: string;
+  costPrice?: string | null;
+  leadTimeDays?: number | null;
+  preferred?: boolean;
+};
+
+// Suppliers print the same SKU with different case, spacing and punctuation
+// from one document to the next, so SKUs and codes compare on this.
+export function normalizeSku(code: string) {
+  return code.toUpperCase().replace(/[\s\-_.]/g, "");
+}
+
+// Builder Warehouse (BWA) quotes print our code as "BWA <code>". Products
+// without a BWA listing yet still match through the code after the prefix.
+function withoutPrintedPrefix(code: string) {
+  return code.toUpperCase().startsWith("BWA") ? code.substring(3).replace(/^[-\s]+/, "") : null;
+}
+
+// normalizeSku in SQL. Must match the indexes in
+// prisma/add_normalized_sku_indexes.sql.
+function normalizedColumn(column: string) {
+  return Prisma.sql`upper(regexp_replace(${Prisma.raw(`"${column}"`)}, '[[:space:]._-]', '', 'g'))`;
+}
+
+// Reads listing fields from a request body. Fields that are absent stay
+// undefined, so a PATCH only changes what it sends.
+export function parseSupplierListing(body: Record<string, unknown>): SupplierListingFields {
+  const fields: SupplierListingFields = {};
+
+  if (body.supplierSku !== undefined) {
+    const sku = String(body.supplierSku ?? "").trim();
+    if (!sku) throw new InvalidSupplierListingError("Supplier SKU is required.");
+    fields.supplierSku = sku;
+  }
+  if (body.costPrice !== undefined) {
+    try {
+      fields.costPrice = parsePrice(body.costPrice);
+    } catch (error) {
+      if (error instanceof InvalidPriceError) {
+        throw new InvalidSupplierListingError(error.message);
+      }
+      throw error;
+    }
+  }
+  if (body.leadTimeDays !== undefined) {
+    const text = String(body.leadTimeDays ?? "").trim();
+    if (!text) {
+      fields.leadTimeDays = null;
+    } else if (/^\d{1,4}$/.test(text)) {
+      fields.leadTimeDays = Number(text);
+    } else {
+      throw new InvalidSupplierListingError(`Invalid lead time: ${body.leadTimeDays}`);
+    }
+  }
+  if (body.preferred !== undefined) {
+    fields.preferred = body.preferred === true || body.preferred === "true";
+  }
+
+  return fields;
+}
+
+// A product has at most one preferred supplier. Call after marking
+// `preferredId` preferred, inside the same transaction.
+export async function clearOtherPreferredSuppliers(
+  db: Pick<Prisma.TransactionClient, "productSupplier">,
+  productId: string,
+  preferredId: string
+) {
+  await db.productSupplier.updateMany({
+    where: { productId, preferred: true, id: { not: preferredId } },
+    data: { preferred: false },
+  });
+}
+
+// What the audit log records for a product's supplier listings.
+export function supplierAuditSnapshot(
+  listings: Array<{
+    supplierSku: string;
+    costPrice: Prisma.Decimal | string | null;
+    leadTimeDays: number | null;
+    preferred: boolean;
+    supplier: { name: string };
+  }>
+) {
+  return {
+    suppliers: listings.map((listing) =>
+      [
+        `${listing.supplier.name}: ${listing.supplierSku}`,
+        listing.costPrice !== null && `$${listing.costPrice}`,
+        listing.leadTimeDays !== null && `${listing.leadTimeDays} days`,
+        listing.preferred && "preferred",
+      ]
+        .filter(Boolean)
+        .join(", ")
+    ),
+  };
+}
+
+type CodeCandidate = { code: string; productId: string; preferred: boolean };
+
+function groupByNormalized(candidates: CodeCandidate[]) {
+  const groups = new Map<string, CodeCandidate[]>();
+  for (const candidate of candidates) {
+    const key = normalizeSku(candidate.code);
+    groups.set(key, [...(groups.get(key) ?? []), candidate]);
+  }
+  return groups;
+}
+
+function productIdsOf(candidates: CodeCandidate[]) {
+  return Array.from(new Set(candidates.map((candidate) => candidate.productId)));
+}
+
+// The products a code could be. Normalising can make different SKUs look
+// alike ("AB-12" and "AB12"); the exact spelling wins, then a preferred
+// listing, and otherwise every product is returned.
+function resolveCandidates(code: string, candidates: CodeCandidate[]) {
+  const all = productIdsOf(candidates);
+  if (all.length <= 1) return all;
+  for (const narrowed of [
+    candidates.filter((candidate) => candidate.code === code),
+    candidates.filter((candidate) => candidate.preferred),
+  ]) {
+    const ids = productIdsOf(narrowed);
+    if (ids.length === 1) return ids;
+  }
+  return all;
+}
+
+// Maps codes read from a supplier's quote or price list to our product ids:
+// first through that supplier's SKUs (every supplier's when unknown), then
+// through our own product codes, and last through our codes without a
+// printed prefix. Codes that match nothing are left out; codes that match
+// several products are returned in `ambiguous` instead.
+export async function matchSupplierCodes(
+  db: Pick<Prisma.TransactionClient, "$queryRaw">,
+  codes: string[],
+  supplierId?: string | null
+) {
+  const matches = new Map<string, string>();
+  const ambiguous = new Map<string, string[]>();
+  const keys = Array.from(new Set(codes.map(normalizeSku).filter(Boolean)));
+  if (keys.length === 0) return { matches, ambiguous };
+  const unprefixed = new Map<string, string>();
+  for (const code of codes) {
+    const stripped = withoutPrintedPrefix(code);
+    if (stripped && normalizeSku(stripped)) unprefixed.set(code, stripped);
+  }
+  const codeKeys = Array.from(
+    new Set([...keys, ...Array.from(unprefixed.values(), normalizeSku)])
+  );
+
+  const [listings, products] = await Promise.all([
+    db.$queryRaw<CodeCandidate[]>`
+      SELECT "supplierSku" AS "code", "productId", "preferred"
+      FROM "ProductSupplier"
+      WHERE ${normalizedColumn("supplierSku")} IN (${Prisma.join(keys)})
+      ${supplierId ? Prisma.sql`AND "supplierId" = ${supplierId}` : Prisma.empty}
+    `,
+    db.$queryRaw<CodeCandidate[]>`
+      SELECT "code", "id" AS "productId", false AS "preferred"
+      FROM "Product"
+      WHERE ${normalizedColumn("code")} IN (${Prisma.join(codeKeys)})
+    `,
+  ]);
+
+  const bySku = groupByNormalized(listings);
+  const byCode = groupByNormalized(products);
+
+  for (const code of codes) {
+    const key = normalizeSku(code);
+    let ids = resolveCandidates(code, bySku.get(key) ?? []);
+    if (ids.length === 0) ids = resolveCandidates(code, byCode.get(key) ?? []);
+    const stripped = unprefixed.get(code);
+    if (ids.length === 0 && stripped) {
+      ids = resolveCandidates(stripped, byCode.get(normalizeSku(stripped)) ?? []);
+    }
+
+    if (ids.length === 1) matches.set(code, ids[0]);
+    else if (ids.length > 1) ambiguous.set(code, ids);
+  }
+  return { matches, ambiguous };
+}
@@ -0,0 +1,80 @@
+import type { Prisma } from "@prisma/client";
+
+// What distinguishes the variants of one product, e.g. a mixer in chrome and
+// brushed nickel, or a vanity in 600 and 900 widths.
+export const VARIANT_ATTRIBUTES = ["finish", "colour", "size"] as const;
+
+export type VariantAttribute = (typeof VARIANT_ATTRIBUTES)[number];
+
+export type VariantAttributes = Partial<Record<VariantAttribute, string | null>>;
+
+export class InvalidVariantError extends Error {}
+
+// Variants with what the selection sheet needs to swap one in for its parent.
+export const VARIANTS_INCLUDE = {
+  orderBy: { code: "asc" },
+  include: {
+    images: {
+      orderBy: { sortOrder: "asc" },
+      select: { id: true, url: true, thumbnailUrl: true, altText: true, isPrimary: true },
+    },
+  },
+} satisfies Prisma.Product$variantsArgs;
+
+const LABELS: Record<VariantAttribute, string> = {
+  finish: "Finish",
+  colour: "Colour",
+  size: "Size",
+};
+
+// "Brushed Nickel / 600mm", or "" when no attributes are set.
+export function variantLabel(variant: VariantAttributes) {
+  return VARIANT_ATTRIBUTES.map((attribute) => variant[attribute]?.trim())
+    .filter(Boolean)
+    .join(" / ");
+}
+
+// "Finish: Brushed Nickel | Size: 600mm", for selection documents.
+export function variantDetails(variant: VariantAttributes) {
+  return VARIANT_ATTRIBUTES.filter((attribute) => variant[attribute]?.trim())
+    .map((attribute) => `${LABELS[attribute]}: ${variant[attribute]!.trim()}`)
+    .join(" | ");
+}
+
+// Looks up the parent a product is being made a variant of. Variants are one
+// level deep: a parent can't itself be a variant, and a product with variants
+// can't become one. Blank detaches the product from its parent. Pass a null
+// productId for a product that is still being created.
+export async function resolveVariantParent(
+  db: Pick<Prisma.TransactionClient, "product">,
+  productId: string | null,
+  parentCode: string
+) {
+  const code = parentCode.trim();
+  if (!code) return null;
+
+  const parent = await db.product.findUnique({
+    where: { code },
+    include: { parent: { select: { code: true } } },
+  });
+  if (!parent) {
+    throw new InvalidVariantError(`No product with code ${code}.`);
+  }
+  if (parent.id === productId) {
+    throw new InvalidVariantError("A product can't be a variant of itself.");
+  }
+  if (parent.parent) {
+    throw new InvalidVariantError(
+      `${parent.code} is itself a variant of ${parent.parent.code}; use that instead.`
+    );
+  }
+
+  const ownVariants = productId ? await db.product.count({ where: { parentId: productId } }) : 0;
+  if (ownVariants > 0) {
+    throw new InvalidVariantError(
+      "This product has variants of its own, so it can't be made a variant."
+    );
+  }
+
+  return parent.id;
+}
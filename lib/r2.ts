@@ -1,4 +1,9 @@
-import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
 
 const accessKeyId = process.env.R2_ACCESS_KEY_ID;
 const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
@@ -28,10 +33,13 @@ export function getPublicUrl(key: string) {
   return `${publicUrl.replace(/\/$/, "")}/${key}`;
 }
 
+// Objects are public unless `publicRead` is false, for files that are only
+// read back by the server.
 export async function uploadToR2(params: {
   key: string;
   body: Buffer;
   contentType: string;
+  publicRead?: boolean;
 }) {
   if (!bucket) throw new Error("R2_BUCKET_NAME is not configured.");
   const client = getR2Client();
@@ -42,11 +50,30 @@ export async function uploadToR2(params: {
       Key: params.key,
       Body: params.body,
       ContentType: params.contentType,
-      ACL: "public-read",
+      ACL: params.publicRead === false ? "private" : "public-read",
     })
   );
 }
 
+export async function downloadFromR2(key: string) {
+  if (!bucket) throw new Error("R2_BUCKET_NAME is not configured.");
+  const client = getR2Client();
+
+  const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  if (!response.Body) throw new Error(`R2 object ${key} has no body.`);
+  return {
+    body: Buffer.from(await response.Body.transformToByteArray()),
+    contentType: response.ContentType ?? "",
+  };
+}
+
+export async function deleteFromR2(key: string) {
+  if (!bucket) throw new Error("R2_BUCKET_NAME is not configured.");
+  const client = getR2Client();
+
+  await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+}
+
 
 
 
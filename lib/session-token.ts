@@ -0,0 +1,119 @@
+import crypto from "crypto";
+
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from "@/lib/csrf";
+
+// Signing and verification of the admin session cookie. Kept free of
+// database and Next request helpers so proxy.ts can import it.
+
+export type SessionPayload = {
+  sessionId: string;
+  userId: string;
+  username: string;
+  role: string;
+  exp: number;
+};
+
+export const SESSION_COOKIE_NAME = "admin_session";
+
+function getSecret(): string {
+  const secret =
+    process.env.ADMIN_SESSION_SECRET ||
+    process.env.ADMIN_PASSWORD ||
+    process.env.ADMIN_USERNAME;
+
+  if (!secret) {
+    // Fallback only for local usage; production should set a secret.
+    return "set-admin-session-secret";
+  }
+
+  return secret;
+}
+
+export function signPayload(payload: { exp: number }): string {
+  const base = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = crypto
+    .createHmac("sha256", getSecret())
+    .update(base)
+    .digest("hex");
+
+  return `${base}.${signature}`;
+}
+
+// Checks the signature and expiry of any token produced by signPayload.
+export function verifySignedPayload<T extends { exp: number }>(
+  token?: string
+): T | null {
+  if (!token || typeof token !== "string") return null;
+
+  const [base, signature] = token.split(".");
+  if (!base || !signature) return null;
+
+  const expectedSig = crypto
+    .createHmac("sha256", getSecret())
+    .update(base)
+    .digest("hex");
+
+  const sigBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(expectedSig);
+
+  if (
+    sigBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(sigBuffer, expectedBuffer)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(base, "base64url").toString("utf8")
+    ) as T;
+
+    if (typeof payload.exp !== "number" || Date.now() > payload.exp) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Checks the signature and absolute expiry only. Use verifySession in
+// lib/auth.ts to also reject revoked or idle sessions.
+export function verifySessionToken(token?: string): SessionPayload | null {
+  const payload = verifySignedPayload<SessionPayload>(token);
+  if (!payload) return null;
+
+  // Tokens issued before the session store carry no session id.
+  if (
+    typeof payload.sessionId !== "string" ||
+    typeof payload.userId !== "string" ||
+    !payload.sessionId ||
+    !payload.userId
+  ) {
+    return null;
+  }
+
+  return payload;
+}
+
+// CSRF tokens are derived from the session id, so they need no storage and a
+// token from one session is useless with another. The token is also sent in
+// a cookie scripts on our own pages can read (double-submit); proxy.ts checks
+// that mutating requests echo it back in the CSRF header.
+export { CSRF_COOKIE_NAME, CSRF_HEADER_NAME };
+
+export function csrfTokenForSession(sessionId: string): string {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(`csrf:${sessionId}`)
+    .digest("base64url");
+}
+
+export function verifyCsrfToken(sessionId: string, token?: string | null): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(csrfTokenForSession(sessionId));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,394 @@
+import PizZip from "pizzip";
+import { parseStringPromise } from "xml2js";
+
+// A cell is text, a number, empty, or text that links somewhere (shown as a
+// clickable hyperlink in XLSX and as the bare URL in CSV).
+export type SheetCell = string | number | null | { text: string; link: string };
+
+export const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function cellText(cell: SheetCell) {
+  if (cell === null) return "";
+  if (typeof cell === "object") return cell.link;
+  return String(cell);
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so a product
+// description like "=HYPERLINK(...)" could do something nasty when opened.
+function neutraliseFormula(text: string) {
+  return /^[=+@\t\r]|^-(?![\d.])/.test(text) ? `'${text}` : text;
+}
+
+// One CSV record, RFC 4180 quoting, CRLF-terminated.
+export function csvRow(cells: SheetCell[]) {
+  return (
+    cells
+      .map((cell) => {
+        const text = typeof cell === "number" ? String(cell) : neutraliseFormula(cellText(cell));
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+// Byte order mark, so Excel opens UTF-8 CSVs without mangling accents.
+export const CSV_BOM = "\uFEFF";
+
+function escapeXml(text: string) {
+  return text
+    // Characters XML 1.0 can't carry at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 -> "A", 25 -> "Z", 26 -> "AA"
+export function columnName(index: number) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+const STYLE_HEADER = 1;
+const STYLE_LINK = 2;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><u/><sz val="11"/><color rgb="FF0563C1"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+// A single-sheet XLSX workbook. The first row is treated as a bold header.
+// Strings are written inline, which every spreadsheet app reads and keeps
+// this free of a shared string table.
+export function buildXlsx(sheetName: string, rows: SheetCell[][]) {
+  const links: Array<{ ref: string; target: string }> = [];
+
+  const sheetRows = rows.map((cells, r) => {
+    const xml = cells
+      .map((cell, c) => {
+        const ref = `${columnName(c)}${r + 1}`;
+        if (cell === null || cell === "") return "";
+        if (typeof cell === "number") {
+          return `<c r="${ref}"${r === 0 ? ` s="${STYLE_HEADER}"` : ""}><v>${cell}</v></c>`;
+        }
+        let style = r === 0 ? ` s="${STYLE_HEADER}"` : "";
+        if (typeof cell === "object") {
+          links.push({ ref, target: cell.link });
+          style = ` s="${STYLE_LINK}"`;
+        }
+        const text = escapeXml(typeof cell === "object" ? cell.text : cell);
+        return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${text}</t></is></c>`;
+      })
+      .join("");
+    return `<row r="${r + 1}">${xml}</row>`;
+  });
+
+  const hyperlinks = links.length
+    ? `<hyperlinks>${links
+        .map((link, i) => `<hyperlink ref="${link.ref}" r:id="rId${i + 1}"/>`)
+        .join("")}</hyperlinks>`
+    : "";
+
+  const zip = new PizZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+  );
+  zip.file("xl/styles.xml", STYLES_XML);
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${sheetRows.join("")}</sheetData>${hyperlinks}
+</worksheet>`
+  );
+  if (links.length) {
+    zip.file(
+      "xl/worksheets/_rels/sheet1.xml.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${links
+  .map(
+    (link, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(link.target)}" TargetMode="External"/>`
+  )
+  .join("\n")}
+</Relationships>`
+    );
+  }
+
+  return zip.generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer;
+}
+
+// A sheet read back in: cell text by 0-based row and column, plus pictures
+// anchored over cells, keyed "row,column".
+export type SheetTable = {
+  rows: string[][];
+  images: Map<string, Buffer>;
+};
+
+export const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx"];
+
+// Excel's sheet size. Cell references past it only come from broken or
+// crafted files.
+const XLSX_MAX_ROWS = 1_048_576;
+const XLSX_MAX_COLUMNS = 16_384;
+
+// Cells a sheet may fill in, counting the blanks before each cell, so a few
+// far-apart cells can't make it allocate millions
+const XLSX_MAX_CELLS = 2_000_000;
+
+// An upload that can't be read as a spreadsheet
+export class InvalidSpreadsheetError extends Error {}
+
+export function isSpreadsheet(fileName: string) {
+  return SPREADSHEET_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension));
+}
+
+// Comma, semicolon (European Excel) or tab, whichever the first line has most of.
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, next) => (next[1] > best[1] ? next : best))[0];
+}
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and newlines.
+export function parseCsv(input: string): string[][] {
+  const text = input.startsWith(CSV_BOM) ? input.slice(1) : input;
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Text of a shared or inline string, including rich-text runs.
+function stringItemText(item: any): string {
+  const text = (t: any) => (typeof t === "string" ? t : t?._ ?? "");
+  if (item?.t) return item.t.map(text).join("");
+  if (item?.r) return item.r.map((run: any) => (run.t ?? []).map(text).join("")).join("");
+  return "";
+}
+
+// "B3" -> [2, 1]
+function cellPosition(ref: string) {
+  const match = /^([A-Z]+)(\d+)$/.exec(ref);
+  if (!match) return null;
+  const column = match[1].split("").reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+  return [Number(match[2]) - 1, column] as const;
+}
+
+// Resolves a relationship target against the part that refers to it.
+function resolvePart(from: string, target: string) {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = from.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+function relsPath(part: string) {
+  const parts = part.split("/");
+  const name = parts.pop();
+  return [...parts, "_rels", `${name}.rels`].join("/");
+}
+
+async function readRels(zip: PizZip, part: string) {
+  const file = zip.file(relsPath(part));
+  const rels = new Map<string, string>();
+  if (!file) return rels;
+  const data = await parseStringPromise(file.asText());
+  for (const rel of data?.Relationships?.Relationship ?? []) {
+    if (rel.$?.Id && rel.$?.Target && rel.$?.TargetMode !== "External") {
+      rels.set(rel.$.Id, resolvePart(part, rel.$.Target));
+    }
+  }
+  return rels;
+}
+
+// Pictures placed over cells, by the cell their top-left corner sits in.
+async function readSheetImages(zip: PizZip, sheetPart: string, sheet: any) {
+  const images = new Map<string, Buffer>();
+  const drawingId = sheet?.worksheet?.drawing?.[0]?.$?.["r:id"];
+  if (!drawingId) return images;
+
+  const drawingPart = (await readRels(zip, sheetPart)).get(drawingId);
+  const drawingFile = drawingPart && zip.file(drawingPart);
+  if (!drawingPart || !drawingFile) return images;
+
+  const drawingRels = await readRels(zip, drawingPart);
+  const drawing = await parseStringPromise(drawingFile.asText());
+  const root = drawing?.["xdr:wsDr"];
+  const anchors = [...(root?.["xdr:twoCellAnchor"] ?? []), ...(root?.["xdr:oneCellAnchor"] ?? [])];
+
+  for (const anchor of anchors) {
+    const from = anchor?.["xdr:from"]?.[0];
+    const embed = anchor?.["xdr:pic"]?.[0]?.["xdr:blipFill"]?.[0]?.["a:blip"]?.[0]?.$?.["r:embed"];
+    const mediaPart = embed && drawingRels.get(embed);
+    const media = mediaPart && zip.file(mediaPart);
+    if (!from || !media) continue;
+
+    const key = `${Number(from["xdr:row"]?.[0])},${Number(from["xdr:col"]?.[0])}`;
+    // The first picture wins when several overlap one cell
+    if (!images.has(key)) images.set(key, media.asNodeBuffer());
+  }
+  return images;
+}
+
+// The first worksheet of an XLSX workbook. Numbers come back as written in
+// the file (e.g. "12.5"); dates come back as Excel serial numbers.
+export async function readXlsx(buffer: Buffer): Promise<SheetTable> {
+  let zip: PizZip;
+  try {
+    zip = new PizZip(buffer);
+  } catch {
+    throw new InvalidSpreadsheetError("Not a valid XLSX file");
+  }
+
+  const workbookFile = zip.file("xl/workbook.xml");
+  if (!workbookFile) throw new InvalidSpreadsheetError("No workbook found in XLSX");
+  const workbook = await parseStringPromise(workbookFile.asText());
+  const firstSheetId = workbook?.workbook?.sheets?.[0]?.sheet?.[0]?.$?.["r:id"];
+  const sheetPart = (await readRels(zip, "xl/workbook.xml")).get(firstSheetId);
+  const sheetFile = sheetPart && zip.file(sheetPart);
+  if (!sheetPart || !sheetFile) throw new InvalidSpreadsheetError("No worksheet found in XLSX");
+
+  const sharedStringsFile = zip.file("xl/sharedStrings.xml");
+  const sharedStrings: string[] = sharedStringsFile
+    ? ((await parseStringPromise(sharedStringsFile.asText()))?.sst?.si ?? []).map(stringItemText)
+    : [];
+
+  const sheet = await parseStringPromise(sheetFile.asText());
+  const rows: string[][] = [];
+  let cells = 0;
+  // Row and cell references are optional; without one, a row follows the
+  // one before it and a cell the cell before it
+  let nextRow = 0;
+  for (const row of sheet?.worksheet?.sheetData?.[0]?.row ?? []) {
+    const rowNumber = Number(row.$?.r);
+    const r = row.$?.r !== undefined && Number.isInteger(rowNumber) ? rowNumber - 1 : nextRow;
+    nextRow = r + 1;
+    let nextColumn = 0;
+
+    for (const cell of row.c ?? []) {
+      const position = cell.$?.r !== undefined ? cellPosition(cell.$.r) : ([r, nextColumn] as const);
+      if (!position) continue;
+      const [cellRow, c] = position;
+      nextColumn = c + 1;
+      if (cellRow < 0 || cellRow >= XLSX_MAX_ROWS || c < 0 || c >= XLSX_MAX_COLUMNS) {
+        throw new InvalidSpreadsheetError(
+          `Cell ${cell.$?.r ?? `${columnName(c)}${cellRow + 1}`} is outside the sheet`
+        );
+      }
+      cells +=
+        Math.max(cellRow + 1 - rows.length, 0) +
+        Math.max(c + 1 - (rows[cellRow]?.length ?? 0), 0);
+      if (cells > XLSX_MAX_CELLS) {
+        throw new InvalidSpreadsheetError("The sheet is too large to read");
+      }
+
+      const raw = cell.v?.[0];
+      const value = typeof raw === "object" ? raw?._ ?? "" : raw ?? "";
+      let text: string;
+      switch (cell.$?.t) {
+        case "s":
+          text = value === "" ? "" : sharedStrings[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          text = stringItemText(cell.is?.[0]);
+          break;
+        case "b":
+          text = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          text = String(value);
+      }
+
+      while (rows.length <= cellRow) rows.push([]);
+      while (rows[cellRow].length < c) rows[cellRow].push("");
+      rows[cellRow][c] = text;
+    }
+  }
+
+  return { rows, images: await readSheetImages(zip, sheetPart, sheet) };
+}
+
+// Reads a CSV or XLSX upload into rows of cell text.
+export async function readSpreadsheet(buffer: Buffer, fileName: string): Promise<SheetTable> {
+  if (fileName.toLowerCase().endsWith(".xlsx")) return readXlsx(buffer);
+  return { rows: parseCsv(buffer.toString("utf8")), images: new Map() };
+}
@@ -0,0 +1,180 @@
+// Which table column holds which product field in a supplier's quotes and
+// price lists. Suppliers add and reorder columns, so when a table has a
+// header row the columns are found by their header text, and the saved
+// column numbers are only the fallback.
+
+export type ColumnMapping = {
+  column: number; // 1-based
+  field: string;
+};
+
+// Header text that identifies each field, on top of anything configured for
+// the supplier. Compared case- and punctuation-insensitively.
+export const DEFAULT_HEADER_ALIASES: Record<string, string[]> = {
+  code: ["code", "product code", "item code", "sku", "part no", "part number", "model", "model no", "item no", "article"],
+  description: ["description", "product description", "product name", "name", "item", "product", "item description"],
+  image: ["image", "photo", "picture", "img"],
+  price: ["price", "unit price", "rrp", "cost", "trade price", "sell price", "each"],
+  productDetails: ["details", "product details", "specifications", "specs", "notes", "comments"],
+  brand: ["brand", "manufacturer", "make"],
+  keywords: ["keywords", "tags"],
+  link: ["link", "url", "website", "web link"],
+  area: ["area", "room", "location", "category"],
+};
+
+export type HeaderAliases = Record<string, string[]>;
+
+// The supplier settings that decide how its tables are read.
+export type SupplierTableSettings = {
+  columnMappings: unknown;
+  startRow: number;
+  hasHeaderRow: boolean;
+  headerAliases?: unknown;
+};
+
+// How the columns of one table were mapped, reported back to the import page.
+export type MappingUsed = {
+  source: "header" | "columns";
+  headerRow: number | null; // 1-based, when found
+  columns: Array<{ column: number; field: string; header?: string }>;
+};
+
+// Rows searched for a header; suppliers often put a title or address first.
+const HEADER_SEARCH_ROWS = 10;
+
+function normalise(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Reads the aliases saved on a supplier, from the API or the database.
+// Values may be lists or comma-separated strings; unknown fields are dropped.
+export function parseHeaderAliases(input: unknown): HeaderAliases {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const aliases: HeaderAliases = {};
+  for (const [field, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(field in DEFAULT_HEADER_ALIASES)) continue;
+    const list = (Array.isArray(value) ? value.map(String) : String(value ?? "").split(","))
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+    if (list.length > 0) aliases[field] = Array.from(new Set(list));
+  }
+  return aliases;
+}
+
+// 2 when the header is exactly an alias, 1 when it contains one as whole
+// words ("Unit Price ex GST" contains "unit price"), else 0.
+function aliasScore(header: string, aliases: string[]) {
+  let best = 0;
+  for (const alias of aliases.map(normalise).filter(Boolean)) {
+    if (header === alias) return 2;
+    if (` ${header} `.includes(` ${alias} `)) best = 1;
+  }
+  return best;
+}
+
+// Maps one row's cells to fields. Each column takes the field it matches
+// best; a field claimed by several columns goes to the strongest match, then
+// the leftmost. Supplier aliases win over the defaults.
+function matchHeaderRow(cells: string[], aliases: HeaderAliases) {
+  const claims = new Map<string, { column: number; score: number; header: string }>();
+
+  cells.forEach((cell, index) => {
+    const header = normalise(cell);
+    if (!header) return;
+
+    let best: { field: string; score: number } | null = null;
+    for (const field of Object.keys(DEFAULT_HEADER_ALIASES)) {
+      const supplierScore = aliasScore(header, aliases[field] ?? []);
+      // Supplier aliases outrank any default match
+      const score = supplierScore
+        ? supplierScore + 2
+        : aliasScore(header, DEFAULT_HEADER_ALIASES[field]);
+      if (score > (best?.score ?? 0)) best = { field, score };
+    }
+    if (!best) return;
+
+    const claimed = claims.get(best.field);
+    if (!claimed || best.score > claimed.score) {
+      claims.set(best.field, { column: index + 1, score: best.score, header: cell.trim() });
+    }
+  });
+
+  return claims;
+}
+
+// Finds the header row among the first rows of a table and maps its
+// columns. A row only counts as the header when it names both the code and
+// the description columns.
+export function detectHeaderMapping(rows: string[][], aliases: HeaderAliases = {}) {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+    const claims = matchHeaderRow(rows[r], aliases);
+    if (!claims.has("code") || !claims.has("description")) continue;
+
+    const columns = Array.from(claims, ([field, claim]) => ({
+      column: claim.column,
+      field,
+      header: claim.header,
+    })).sort((a, b) => a.column - b.column);
+    return { headerRow: r, columns };
+  }
+  return null;
+}
+
+// The mapping to read a table with, and the 0-based row its data starts on.
+// Suppliers with a header row are matched by header text first; otherwise,
+// or when no header matches, the saved column numbers and start row apply.
+// Fields the header row doesn't name (often an image column with a blank
+// header) keep their saved column, unless a named field took it.
+export function resolveColumnMapping(
+  rows: string[][],
+  supplier: SupplierTableSettings
+): { mapping: MappingUsed; firstDataRow: number } {
+  const saved = Array.isArray(supplier.columnMappings)
+    ? (supplier.columnMappings as ColumnMapping[])
+    : [];
+
+  if (supplier.hasHeaderRow) {
+    const detected = detectHeaderMapping(rows, parseHeaderAliases(supplier.headerAliases));
+    if (detected) {
+      const fields = new Set(detected.columns.map((c) => c.field));
+      const taken = new Set(detected.columns.map((c) => c.column));
+      const fallback = saved
+        .filter(({ column, field }) => field !== "skip" && !fields.has(field) && !taken.has(column))
+        .map(({ column, field }) => ({ column, field }));
+      return {
+        mapping: {
+          source: "header",
+          headerRow: detected.headerRow + 1,
+          columns: [...detected.columns, ...fallback].sort((a, b) => a.column - b.column),
+        },
+        firstDataRow: detected.headerRow + 1,
+      };
+    }
+  }
+
+  return {
+    mapping: {
+      source: "columns",
+      headerRow: null,
+      columns: saved.map(({ column, field }) => ({ column, field })),
+    },
+    // startRow is 1-indexed; a header row is never read as a product
+    firstDataRow: Math.max(supplier.startRow || 1, supplier.hasHeaderRow ? 2 : 1) - 1,
+  };
+}
+
+// "Matched by headers in row 3: "Code" → code (column 1), ..." for the
+// import page. Columns without a header came from the saved mappings.
+export function describeMapping(mapping: MappingUsed) {
+  const columns = mapping.columns
+    .map(({ column, field, header }) =>
+      header ? `"${header}" → ${field} (column ${column})` : `column ${column} → ${field}`
+    )
+    .join(", ");
+  return mapping.source === "header"
+    ? `Matched by headers in row ${mapping.headerRow}: ${columns}`
+    : `Used saved column numbers: ${columns}`;
+}
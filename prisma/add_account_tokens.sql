@@ -0,0 +1,15 @@
+-- SQL script to add emailed invite and password reset links
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "AccountToken" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "purpose" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "userId" TEXT NOT NULL REFERENCES "AdminUser"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AccountToken_tokenHash_key" ON "AccountToken"("tokenHash");
+CREATE INDEX IF NOT EXISTS "AccountToken_userId_idx" ON "AccountToken"("userId");
@@ -0,0 +1,9 @@
+-- SQL script to add roles to admin users
+-- Run this script manually on your database
+-- If the column already exists, you'll get an error - that's okay, just continue
+
+-- Role values: viewer, selector, catalog-admin, admin (see lib/permissions.ts)
+ALTER TABLE "AdminUser" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'viewer';
+
+-- Existing accounts were created before roles existed and had full access
+UPDATE "AdminUser" SET "role" = 'admin';
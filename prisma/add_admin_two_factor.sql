@@ -0,0 +1,11 @@
+-- SQL script to add TOTP two-factor authentication to admin users
+-- Run this script manually on your database
+-- If a column already exists, you'll get an error - that's okay, just continue
+
+ALTER TABLE "AdminUser" ADD COLUMN "totpSecret" TEXT;
+
+ALTER TABLE "AdminUser" ADD COLUMN "totpEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "AdminUser" ADD COLUMN "totpLastUsedStep" INTEGER;
+
+ALTER TABLE "AdminUser" ADD COLUMN "totpRecoveryCodes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,25 @@
+-- SQL script to add admin user accounts
+-- Run this script manually on your database
+-- If a table or column already exists, you'll get an error - that's okay, just continue
+
+CREATE TABLE IF NOT EXISTS "AdminUser" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "username" TEXT NOT NULL UNIQUE,
+  "email" TEXT UNIQUE,
+  "name" TEXT,
+  "passwordHash" TEXT NOT NULL,
+  "disabled" BOOLEAN NOT NULL DEFAULT false,
+  "lastLoginAt" TIMESTAMP(3)
+);
+
+-- Track who created each product and saved selection
+ALTER TABLE "Product" ADD COLUMN "createdById" TEXT
+  REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "SavedSelection" ADD COLUMN "createdById" TEXT
+  REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The first user is created automatically on the first successful login
+-- with ADMIN_USERNAME / ADMIN_PASSWORD, after which those env vars are ignored.
@@ -0,0 +1,18 @@
+-- SQL script to add personal API tokens for scripted admin API access
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "ApiToken" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "name" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "prefix" TEXT NOT NULL,
+  "scopes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "lastUsedAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "userId" TEXT NOT NULL REFERENCES "AdminUser"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ApiToken_tokenHash_key" ON "ApiToken"("tokenHash");
+CREATE INDEX IF NOT EXISTS "ApiToken_userId_idx" ON "ApiToken"("userId");
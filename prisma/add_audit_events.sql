@@ -0,0 +1,19 @@
+-- SQL script to add the audit log of catalog, supplier and selection changes
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "AuditEvent" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "action" TEXT NOT NULL,
+  "entityType" TEXT NOT NULL,
+  "entityId" TEXT NOT NULL,
+  "entityLabel" TEXT,
+  "changes" JSONB NOT NULL,
+  "actorName" TEXT NOT NULL,
+  "apiTokenId" TEXT,
+  "actorId" TEXT REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AuditEvent_entityType_entityId_idx" ON "AuditEvent"("entityType", "entityId");
+CREATE INDEX IF NOT EXISTS "AuditEvent_actorId_createdAt_idx" ON "AuditEvent"("actorId", "createdAt");
+CREATE INDEX IF NOT EXISTS "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
@@ -0,0 +1,48 @@
+-- SQL script to add background import jobs, their rows and per-row results
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "ImportJob" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "stage" TEXT NOT NULL DEFAULT 'extract',
+  "status" TEXT NOT NULL DEFAULT 'queued',
+  "progress" TEXT,
+  "fileName" TEXT,
+  "fileKey" TEXT,
+  "supplierId" TEXT REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  "mappingUsed" JSONB,
+  "totalRows" INTEGER NOT NULL DEFAULT 0,
+  "nextRow" INTEGER NOT NULL DEFAULT 0,
+  "error" TEXT,
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "createdById" TEXT REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "ImportJob_createdAt_idx" ON "ImportJob"("createdAt");
+
+CREATE TABLE IF NOT EXISTS "ImportJobRow" (
+  "id" TEXT PRIMARY KEY,
+  "jobId" TEXT NOT NULL REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "rowIndex" INTEGER NOT NULL,
+  "data" JSONB NOT NULL,
+  "image" JSONB,
+  "comparison" JSONB NOT NULL,
+  "decision" TEXT NOT NULL DEFAULT 'skip'
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ImportJobRow_jobId_rowIndex_key" ON "ImportJobRow"("jobId", "rowIndex");
+
+CREATE TABLE IF NOT EXISTS "ImportJobResult" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "jobId" TEXT NOT NULL REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "rowIndex" INTEGER NOT NULL,
+  "code" TEXT NOT NULL,
+  "result" TEXT NOT NULL,
+  "productId" TEXT,
+  "error" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "ImportJobResult_jobId_rowIndex_idx" ON "ImportJobResult"("jobId", "rowIndex");
@@ -0,0 +1,16 @@
+-- SQL script to add the admin sign-in audit trail
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "LoginAttempt" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "username" TEXT NOT NULL,
+  "ipAddress" TEXT,
+  "userAgent" TEXT,
+  "outcome" TEXT NOT NULL,
+  "userId" TEXT REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "LoginAttempt_username_createdAt_idx" ON "LoginAttempt"("username", "createdAt");
+CREATE INDEX IF NOT EXISTS "LoginAttempt_ipAddress_createdAt_idx" ON "LoginAttempt"("ipAddress", "createdAt");
+CREATE INDEX IF NOT EXISTS "LoginAttempt_createdAt_idx" ON "LoginAttempt"("createdAt");
@@ -0,0 +1,8 @@
+-- SQL script to index product codes and supplier SKUs as compared by imports
+-- Run this script manually on your database, after add_product_suppliers.sql
+
+-- The expression must match normalizedColumn in lib/product-suppliers.ts.
+CREATE INDEX IF NOT EXISTS "Product_code_normalized_idx"
+  ON "Product" ((upper(regexp_replace("code", '[[:space:]._-]', '', 'g'))));
+CREATE INDEX IF NOT EXISTS "ProductSupplier_supplierSku_normalized_idx"
+  ON "ProductSupplier" ((upper(regexp_replace("supplierSku", '[[:space:]._-]', '', 'g'))));
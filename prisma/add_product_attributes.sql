@@ -0,0 +1,5 @@
+-- SQL script to add attribute schemas to product types and structured attributes to products
+-- Run this script manually on your database
+
+ALTER TABLE "ProductType" ADD COLUMN IF NOT EXISTS "attributeSchema" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "attributes" JSONB;
@@ -0,0 +1,13 @@
+-- SQL script to add processed renditions, dimensions and content hashes to product images
+-- Run this script manually on your database
+-- Existing images keep working: selection documents resize them on the fly until re-uploaded.
+
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "contentHash" TEXT;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "width" INTEGER;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "height" INTEGER;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "thumbnailUrl" TEXT;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "documentUrl" TEXT;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "documentWidth" INTEGER;
+ALTER TABLE "ProductImage" ADD COLUMN IF NOT EXISTS "documentHeight" INTEGER;
+
+CREATE INDEX IF NOT EXISTS "ProductImage_contentHash_idx" ON "ProductImage"("contentHash");
@@ -0,0 +1,22 @@
+-- SQL script to add multiple images per product
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "ProductImage" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "productId" TEXT NOT NULL REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "url" TEXT NOT NULL,
+  "altText" TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "isPrimary" BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS "ProductImage_productId_sortOrder_idx" ON "ProductImage"("productId", "sortOrder");
+
+-- Existing products keep their single image as the primary one
+INSERT INTO "ProductImage" ("id", "productId", "url", "sortOrder", "isPrimary")
+SELECT gen_random_uuid()::text, p."id", p."imageUrl", 0, true
+FROM "Product" p
+WHERE p."imageUrl" <> '/no-image.png'
+  AND p."imageUrl" NOT LIKE 'https://placehold.co/%'
+  AND NOT EXISTS (SELECT 1 FROM "ProductImage" i WHERE i."productId" = p."id");
@@ -0,0 +1,22 @@
+-- SQL script to add product pricing and price history
+-- Run this script manually on your database
+
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "costPrice" DECIMAL(10, 2);
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "sellPrice" DECIMAL(10, 2);
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "gstInclusive" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "gstFree" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS "ProductPrice" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "productId" TEXT NOT NULL REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "costPrice" DECIMAL(10, 2),
+  "sellPrice" DECIMAL(10, 2),
+  "gstInclusive" BOOLEAN NOT NULL DEFAULT false,
+  "gstFree" BOOLEAN NOT NULL DEFAULT false,
+  "source" TEXT NOT NULL,
+  "supplierId" TEXT REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  "createdById" TEXT REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "ProductPrice_productId_createdAt_idx" ON "ProductPrice"("productId", "createdAt");
@@ -0,0 +1,22 @@
+-- SQL script to add ranked product search, facet indexes and the product supplier
+-- Run this script manually on your database
+
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "supplierId" TEXT REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "Product_typeId_idx" ON "Product"("typeId");
+CREATE INDEX IF NOT EXISTS "Product_brand_idx" ON "Product"("brand");
+CREATE INDEX IF NOT EXISTS "Product_supplierId_idx" ON "Product"("supplierId");
+
+-- Full-text index. The expression must match SEARCH_DOCUMENT in lib/product-search.ts.
+CREATE INDEX IF NOT EXISTS "Product_search_idx" ON "Product" USING GIN ((
+  setweight(to_tsvector('simple', coalesce("code", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("brand", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("keywords", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'C') ||
+  setweight(to_tsvector('simple', coalesce("productDetails", '')), 'D')
+));
+
+-- Trigram indexes so substring matches on codes and type names stay fast.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS "Product_code_trgm_idx" ON "Product" USING GIN ("code" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "ProductType_name_trgm_idx" ON "ProductType" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,49 @@
+-- SQL script to link products to suppliers through supplier SKUs
+-- Run this script manually on your database, after add_product_search.sql
+
+CREATE TABLE IF NOT EXISTS "ProductSupplier" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "productId" TEXT NOT NULL REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "supplierId" TEXT NOT NULL REFERENCES "Supplier"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  "supplierSku" TEXT NOT NULL,
+  "costPrice" DECIMAL(10, 2),
+  "leadTimeDays" INTEGER,
+  "preferred" BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ProductSupplier_productId_supplierId_key" ON "ProductSupplier"("productId", "supplierId");
+CREATE UNIQUE INDEX IF NOT EXISTS "ProductSupplier_supplierId_supplierSku_key" ON "ProductSupplier"("supplierId", "supplierSku");
+
+-- Substring search on supplier SKUs, like Product_code_trgm_idx
+CREATE INDEX IF NOT EXISTS "ProductSupplier_supplierSku_trgm_idx" ON "ProductSupplier" USING GIN ("supplierSku" gin_trgm_ops);
+
+-- Products imported before this kept a single supplier on Product."supplierId",
+-- and used our code as the supplier's.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'Product' AND column_name = 'supplierId'
+  ) THEN
+    INSERT INTO "ProductSupplier" ("id", "productId", "supplierId", "supplierSku", "costPrice", "preferred")
+    SELECT gen_random_uuid()::text, p."id", p."supplierId", p."code", p."costPrice", true
+    FROM "Product" p
+    WHERE p."supplierId" IS NOT NULL
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
+
+-- Builder Warehouse (BWA) quotes print "BWA <our code>"; the PDF parsers used
+-- to strip the prefix instead of storing the SKU. Check the supplier name matches yours.
+UPDATE "ProductSupplier" ps
+SET "supplierSku" = 'BWA ' || p."code"
+FROM "Product" p, "Supplier" s
+WHERE p."id" = ps."productId"
+  AND s."id" = ps."supplierId"
+  AND (s."name" ILIKE 'BWA%' OR s."name" ILIKE '%Builder%Warehouse%')
+  AND ps."supplierSku" = p."code";
+
+DROP INDEX IF EXISTS "Product_supplierId_idx";
+ALTER TABLE "Product" DROP COLUMN IF EXISTS "supplierId";
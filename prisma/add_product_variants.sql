@@ -0,0 +1,9 @@
+-- SQL script to add parent/variant products with finish, colour and size
+-- Run this script manually on your database
+
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "parentId" TEXT REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "finish" TEXT;
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "colour" TEXT;
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "size" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Product_parentId_idx" ON "Product"("parentId");
@@ -0,0 +1,18 @@
+-- SQL script to add the server-side admin session store
+-- Run this script manually on your database
+
+CREATE TABLE IF NOT EXISTS "Session" (
+  "id" TEXT PRIMARY KEY,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "revokedAt" TIMESTAMP(3),
+  "ipAddress" TEXT,
+  "userAgent" TEXT,
+  "userId" TEXT NOT NULL REFERENCES "AdminUser"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "Session_userId_idx" ON "Session"("userId");
+
+-- Existing cookies carry no session id and will be rejected, so everyone
+-- signs in again once after this is deployed.
@@ -0,0 +1,4 @@
+-- SQL script to add per-supplier header names used to detect table columns
+-- Run this script manually on your database
+
+ALTER TABLE "Supplier" ADD COLUMN IF NOT EXISTS "headerAliases" JSONB NOT NULL DEFAULT '{}';
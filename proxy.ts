@@ -0,0 +1,119 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  SESSION_COOKIE_NAME,
+  csrfTokenForSession,
+  verifyCsrfToken,
+  verifySessionToken,
+  type SessionPayload,
+} from "@/lib/session-token";
+
+// Everything under /admin and /api/admin requires a signed-in session unless
+// it is listed here. Keep this list short: new routes are protected by default.
+const PUBLIC_ADMIN_PATHS = new Set([
+  "/admin", // Renders the login form when signed out
+  "/admin/forgot-password",
+  "/admin/reset-password", // Emailed invite and reset links
+  "/api/admin/login",
+  "/api/admin/login/two-factor",
+  "/api/admin/logout",
+  "/api/admin/password-reset",
+  "/api/admin/password-reset/confirm",
+]);
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Browsers send Origin on cross-site form posts and fetches.
+function isCrossSite(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  if (!origin) return false;
+
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  try {
+    return new URL(origin).host !== host;
+  } catch {
+    return true;
+  }
+}
+
+// (Re)issues the CSRF cookie for the session, e.g. for sessions that were
+// created before CSRF tokens existed.
+function withCsrfCookie(
+  response: NextResponse,
+  request: NextRequest,
+  session: SessionPayload
+) {
+  const token = csrfTokenForSession(session.sessionId);
+  if (request.cookies.get(CSRF_COOKIE_NAME)?.value !== token) {
+    response.cookies.set(CSRF_COOKIE_NAME, token, {
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: Math.max(0, Math.floor((session.exp - Date.now()) / 1000)),
+    });
+  }
+  return response;
+}
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const mutating = !SAFE_METHODS.has(request.method);
+
+  // Checked before anything else so public endpoints such as login are
+  // covered too.
+  if (mutating && isCrossSite(request)) {
+    return NextResponse.json({ error: "Cross-site request blocked" }, { status: 403 });
+  }
+
+  // Only the token signature and expiry are checked here. Handlers still
+  // check revocation, idle expiry and roles via requirePermission.
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+  if (PUBLIC_ADMIN_PATHS.has(pathname.replace(/\/$/, ""))) {
+    return session
+      ? withCsrfCookie(NextResponse.next(), request, session)
+      : NextResponse.next();
+  }
+
+  // CORS preflights never carry cookies; handlers answer them without data.
+  if (request.method === "OPTIONS") {
+    return NextResponse.next();
+  }
+
+  // Scripts authenticate API calls with a Bearer API token, which needs a
+  // database lookup; requirePermission in the handler verifies it. A
+  // cross-site page cannot attach this header, so no CSRF token is needed.
+  if (
+    pathname.startsWith("/api/") &&
+    request.headers.get("authorization")?.toLowerCase().startsWith("bearer ")
+  ) {
+    return NextResponse.next();
+  }
+
+  if (session) {
+    // The session cookie is sent with any request to this site; the CSRF
+    // header proves the request came from one of our own pages.
+    if (mutating && !verifyCsrfToken(session.sessionId, request.headers.get(CSRF_HEADER_NAME))) {
+      return NextResponse.json(
+        { error: "Invalid or missing CSRF token. Reload the page and try again." },
+        { status: 403 }
+      );
+    }
+    return withCsrfCookie(NextResponse.next(), request, session);
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const loginUrl = new URL("/admin", request.url);
+  loginUrl.searchParams.set("error", "unauthenticated");
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
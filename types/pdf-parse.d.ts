@@ -38,3 +38,7 @@ declare module "pdf-parse" {
   export = pdf;
 }
 
+declare module "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js" {
+  const PDFJS: any;
+  export = PDFJS;
+}